@@ -1,4 +1,4 @@
-import { useState, useRef } from 'react'
+import { useState, useRef, useEffect } from 'react'
 import { ComponentGeneratorInterface } from './components/ComponentGenerator'
 import { ProjectSchemaViewer } from './components/ProjectSchemaViewer'
 import { UnifiedPreview } from './components/UnifiedPreview'
@@ -9,6 +9,8 @@ import { AgentSidebarWrapper } from './components/AgentSidebar'
 import { ProjectPlanView } from './components/ProjectPlanView'
 import { ProjectPlanWizard } from './components/ProjectPlanWizard'
 import { PlanExecutionCTA } from './components/PlanExecutionCTA'
+import { ProjectHistoryPanel } from './components/ProjectHistoryPanel'
+import { ProjectSnapshotsPanel } from './components/ProjectSnapshotsPanel'
 import { ModeToggle } from './components/mode-toggle'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs'
 import { useProjectManager } from './hooks/useProjectManager'
@@ -31,12 +33,47 @@ function App() {
   const {
     projects,
     currentProject,
+    isLoading,
+    loadReport,
+    dismissLoadReport,
+    syncConflict,
+    resolveSyncConflict,
     createProject,
     selectProject,
     deleteProject,
-    updateCurrentProject
+    importProject,
+    exportProject,
+    updateCurrentProject,
+    history,
+    undo,
+    redo,
+    jumpToHistoryEntry
   } = useProjectManager()
 
+  // Global undo/redo shortcuts; text fields and the code editor keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return
+
+      const target = e.target as HTMLElement | null
+      if (target && (target.isContentEditable || target.closest('input, textarea, select, .cm-editor'))) {
+        return
+      }
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
   const handleComponentGenerated = (component: ComponentSchema) => {
     updateCurrentProject(prev => ({
       ...prev,
@@ -86,6 +123,58 @@ function App() {
     }
   }
 
+  const loadReportBanner = loadReport && (
+    <div className={`flex items-start justify-between gap-4 p-3 rounded-md text-sm ${
+      loadReport.issues.some(issue => !issue.repaired)
+        ? 'bg-red-100 text-red-800'
+        : 'bg-yellow-100 text-yellow-800'
+    }`}>
+      <div>
+        <p className="font-medium">
+          {loadReport.projectId
+            ? `Repaired ${loadReport.issues.length} problem(s) in "${loadReport.projectName}"`
+            : 'A project could not be loaded because its data is malformed'}
+        </p>
+        <ul className="mt-1 list-disc list-inside text-xs">
+          {loadReport.issues.slice(0, 5).map((issue, index) => (
+            <li key={index}>{issue.path || 'project'}: {issue.message}</li>
+          ))}
+          {loadReport.issues.length > 5 && <li>...and {loadReport.issues.length - 5} more</li>}
+        </ul>
+      </div>
+      <button className="text-xs underline" onClick={dismissLoadReport}>Dismiss</button>
+    </div>
+  )
+
+  const syncConflictBanner = syncConflict && (
+    <div className="flex items-start justify-between gap-4 p-3 rounded-md text-sm bg-yellow-100 text-yellow-800">
+      <div>
+        <p className="font-medium">
+          "{syncConflict.projectName}" was edited in another tab at the same time
+        </p>
+        <p className="mt-1 text-xs">
+          Kept this tab's version of {[
+            ...syncConflict.components.map(c => `component "${c.name}"`),
+            ...syncConflict.scenes.map(s => `scene "${s.name}"`)
+          ].join(', ')}. Everything else from the other tab was merged in.
+        </p>
+      </div>
+      <div className="flex gap-3 shrink-0">
+        <button className="text-xs underline" onClick={() => resolveSyncConflict(true)}>Use Other Tab's Version</button>
+        <button className="text-xs underline" onClick={() => resolveSyncConflict(false)}>Keep Mine</button>
+      </div>
+    </div>
+  )
+
+  // Wait for the project store before deciding which view to show
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center text-muted-foreground">
+        Loading projects...
+      </div>
+    )
+  }
+
   // Show project manager if no current project or user wants to switch
   if (!currentProject || showProjectManager) {
     return (
@@ -100,6 +189,8 @@ function App() {
             </div>
             <ModeToggle />
           </div>
+
+          {loadReportBanner}
           
           <div className="max-w-4xl mx-auto">
             <ProjectManager
@@ -114,6 +205,12 @@ function App() {
                 setShowProjectManager(false)
               }}
               onProjectDelete={deleteProject}
+              onProjectImport={(project) => {
+                if (importProject(project)) {
+                  setShowProjectManager(false)
+                }
+              }}
+              onProjectExport={exportProject}
             />
           </div>
         </div>
@@ -151,11 +248,23 @@ function App() {
                 <span className="text-red-600 font-medium">FULL</span>
               )}
             </div>
+            <ProjectHistoryPanel
+              history={history}
+              onUndo={undo}
+              onRedo={redo}
+              onJumpTo={jumpToHistoryEntry}
+            />
+            <ProjectSnapshotsPanel
+              project={currentProject}
+              onUpdateProject={updateCurrentProject}
+            />
             <ModeToggle />
           </div>
         }
       >
         <div className="flex flex-1 flex-col gap-4 p-4">
+          {loadReportBanner}
+          {syncConflictBanner}
           
           <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'build' | 'project' | 'preview' | 'plan')} className="flex-1 flex flex-col">
             <TabsList className="grid w-full grid-cols-4">
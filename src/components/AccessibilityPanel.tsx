@@ -0,0 +1,93 @@
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { RefreshCw, CheckCircle2, ExternalLink } from 'lucide-react'
+import { IMPACT_ORDER } from '../services/accessibilityAudit'
+import type { AccessibilityViolation, ComponentSchema } from '../types/schema'
+
+interface AccessibilityPanelProps {
+  components: ComponentSchema[] // Components rendered in the preview; their last audits are listed
+  canAudit: boolean // False while there is no rendered preview to audit
+  isAuditing: boolean
+  error: string | null
+  onAudit: () => void
+}
+
+const IMPACT_COLORS: Record<AccessibilityViolation['impact'], string> = {
+  critical: 'bg-red-100 text-red-700 border-red-200',
+  serious: 'bg-orange-100 text-orange-700 border-orange-200',
+  moderate: 'bg-amber-100 text-amber-700 border-amber-200',
+  minor: 'bg-blue-100 text-blue-700 border-blue-200'
+}
+
+function ViolationItem({ violation }: { violation: AccessibilityViolation }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-start gap-2">
+        <Badge variant="outline" className={`text-[10px] px-1.5 py-0 ${IMPACT_COLORS[violation.impact]}`}>
+          {violation.impact}
+        </Badge>
+        <span className="flex-1">{violation.help}</span>
+        <a
+          href={violation.helpUrl}
+          target="_blank"
+          rel="noreferrer"
+          className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+          title={`About ${violation.rule}`}
+        >
+          {violation.rule}
+          <ExternalLink className="h-3 w-3" />
+        </a>
+      </div>
+      {violation.nodes.map((node, index) => (
+        <div key={index} className="ml-4 pl-2 border-l space-y-0.5">
+          <div className="font-mono text-muted-foreground break-all">{node.selector}</div>
+          {node.fix && <div className="whitespace-pre-wrap">{node.fix}</div>}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// The axe-core audits of the components in a preview, most severe violations first
+export function AccessibilityPanel({ components, canAudit, isAuditing, error, onAudit }: AccessibilityPanelProps) {
+  const audited = components.filter(component => component.accessibility)
+
+  return (
+    <div className="border-t max-h-60 overflow-auto bg-muted/20 text-xs">
+      <div className="flex items-center justify-between px-3 py-1 border-b text-muted-foreground">
+        <span>Accessibility</span>
+        <Button variant="ghost" size="sm" onClick={onAudit} disabled={!canAudit || isAuditing} className="h-5 px-2 text-xs gap-1">
+          <RefreshCw className={`h-3 w-3 ${isAuditing ? 'animate-spin' : ''}`} />
+          {isAuditing ? 'Auditing...' : 'Run audit'}
+        </Button>
+      </div>
+
+      {error && <div className="px-3 py-2 text-red-600">{error}</div>}
+
+      {audited.length === 0 ? (
+        <div className="px-3 py-2 text-muted-foreground">Not audited yet</div>
+      ) : (
+        audited.map(component => {
+          const { violations, auditedAt } = component.accessibility!
+          const sorted = [...violations].sort((a, b) => IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact))
+          return (
+            <div key={component.id} className="px-3 py-2 border-b last:border-b-0 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{component.name}</span>
+                <span className="text-muted-foreground">{new Date(auditedAt).toLocaleTimeString()}</span>
+              </div>
+              {sorted.length === 0 ? (
+                <div className="flex items-center gap-1 text-green-700">
+                  <CheckCircle2 className="h-3 w-3" />
+                  No violations found
+                </div>
+              ) : (
+                sorted.map(violation => <ViolationItem key={violation.rule} violation={violation} />)
+              )}
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+}
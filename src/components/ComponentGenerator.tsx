@@ -6,6 +6,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
 import { ComponentGenerator } from '@/lib/generator'
+import { applyInferredProps } from '@/lib/propInference'
+import { applyDiagnostics } from '@/services/typeCheck'
 import { V0GenerationService } from '@/services/v0Generation'
 import type { ProjectSchema, ComponentSchema } from '@/types/schema'
 
@@ -49,18 +51,18 @@ export function ComponentGeneratorInterface({
           }
         })
 
-        // Convert v0 response to ComponentSchema format
-        component = {
+        // Convert v0 response to ComponentSchema format; props are read from the code
+        component = await applyInferredProps({
           id: crypto.randomUUID(),
           name: v0Response.componentName,
           type: 'component',
           framework: 'react',
-          props: {}, // v0 doesn't provide prop definitions
+          props: {},
           source: 'custom',
           filePath: `src/components/${v0Response.componentName}.tsx`,
           generatedCode: v0Response.code,
           generationMethod: 'v0'
-        }
+        })
       } else {
         // Use OpenAI generation
         const apiKey = import.meta.env.VITE_OPEN_AI_KEY
@@ -77,7 +79,7 @@ export function ComponentGeneratorInterface({
         })
       }
 
-      onComponentGenerated(component)
+      onComponentGenerated(await applyDiagnostics(component))
       setPrompt('')
       setError(null)
     } catch (err) {
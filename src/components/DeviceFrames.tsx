@@ -0,0 +1,92 @@
+import { useEffect } from 'react'
+import { usePreviewBridge } from '../hooks/usePreviewBridge'
+import type { PreviewCommand } from '../services/previewBridge'
+import type { PreviewFrameSize } from '../services/previewDevices'
+
+// Senders for the extra side-by-side frames; commands for the preview go to each of them as well
+export type PreviewMirrors = Set<(command: PreviewCommand) => void>
+
+interface DeviceFramesProps {
+  html: string
+  title: string
+  frames?: PreviewFrameSize[] // Fixed-size frames; without them the preview fills the panel
+  zoom: number
+  frameRef: React.Ref<HTMLIFrameElement> // The first frame, which the caller's bridge talks to
+  mirrors: PreviewMirrors
+}
+
+function frameStyle(frame: PreviewFrameSize, zoom: number): React.CSSProperties {
+  return { width: frame.width, height: frame.height, transform: `scale(${zoom})` }
+}
+
+// A copy of the preview at another size. It keeps its own bridge so prop updates reach it, while
+// errors and console output are left to the first frame to report.
+function MirrorFrame({ html, title, style, mirrors }: { html: string; title: string; style: React.CSSProperties; mirrors: PreviewMirrors }) {
+  const { frameRef, send } = usePreviewBridge(html)
+
+  useEffect(() => {
+    mirrors.add(send)
+    return () => {
+      mirrors.delete(send)
+    }
+  }, [mirrors, send])
+
+  return (
+    <iframe
+      ref={frameRef}
+      srcDoc={html}
+      className="border-0 bg-white origin-top-left"
+      style={style}
+      title={title}
+      sandbox="allow-scripts"
+    />
+  )
+}
+
+// Renders a preview document at device sizes, scaled by the zoom level
+export function DeviceFrames({ html, title, frames, zoom, frameRef, mirrors }: DeviceFramesProps) {
+  if (!frames || frames.length === 0) {
+    return (
+      <div className="w-full h-full overflow-hidden">
+        <iframe
+          ref={frameRef}
+          srcDoc={html}
+          className="border-0 bg-white origin-top-left"
+          style={{ width: `${100 / zoom}%`, height: `${100 / zoom}%`, transform: `scale(${zoom})` }}
+          title={title}
+          sandbox="allow-scripts"
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full overflow-auto p-4">
+      <div className={`flex gap-6 items-start w-max ${frames.length === 1 ? 'mx-auto' : ''}`}>
+        {frames.map((frame, index) => (
+          // The first frame keeps its iframe across size changes; remounting it would reload the document
+          <div key={index === 0 ? 'primary' : `mirror-${frame.width}`} className="space-y-1">
+            <div className="text-xs text-muted-foreground">{frame.label}</div>
+            <div
+              className="border rounded-lg overflow-hidden shadow-sm"
+              style={{ width: frame.width * zoom, height: frame.height * zoom }}
+            >
+              {index === 0 ? (
+                <iframe
+                  ref={frameRef}
+                  srcDoc={html}
+                  className="border-0 bg-white origin-top-left"
+                  style={frameStyle(frame, zoom)}
+                  title={title}
+                  sandbox="allow-scripts"
+                />
+              ) : (
+                <MirrorFrame html={html} title={`${title} (${frame.label})`} style={frameStyle(frame, zoom)} mirrors={mirrors} />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
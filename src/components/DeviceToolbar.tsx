@@ -0,0 +1,129 @@
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Smartphone, Tablet, Laptop, Monitor, Maximize2, Ruler, RotateCw, Columns3 } from 'lucide-react'
+import {
+  devicePresets,
+  ZOOM_LEVELS,
+  activeBreakpoint,
+  viewportSize,
+  type DevicePresetId,
+  type PreviewBreakpoint,
+  type PreviewViewport
+} from '../services/previewDevices'
+
+interface DeviceToolbarProps {
+  viewport: PreviewViewport
+  breakpoints: PreviewBreakpoint[]
+  onChange: (viewport: PreviewViewport) => void
+  className?: string
+}
+
+const PRESET_ICONS: Record<DevicePresetId, typeof Smartphone> = {
+  responsive: Maximize2,
+  mobile: Smartphone,
+  tablet: Tablet,
+  laptop: Laptop,
+  desktop: Monitor,
+  custom: Ruler
+}
+
+function parseDimension(value: string): number {
+  const parsed = Math.round(Number(value))
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, 4096) : 1
+}
+
+// Device size, rotation, zoom and side-by-side controls for the preview panel
+export function DeviceToolbar({ viewport, breakpoints, onChange, className }: DeviceToolbarProps) {
+  const size = viewportSize(viewport)
+  const breakpoint = size ? activeBreakpoint(size.width, breakpoints) : null
+  const presets = devicePresets(breakpoints)
+
+  const selectPreset = (id: DevicePresetId) => {
+    const preset = presets.find(candidate => candidate.id === id)!
+    // Custom starts from the current size so switching to it does not jump
+    const base = id === 'custom' && size ? { width: viewport.width, height: viewport.height } : preset
+    onChange({ ...viewport, preset: id, width: base.width, height: base.height })
+  }
+
+  return (
+    <div className={`flex items-center gap-1 ${className || ''}`}>
+      {presets.map(preset => {
+        const Icon = PRESET_ICONS[preset.id]
+        return (
+          <Button
+            key={preset.id}
+            variant={viewport.preset === preset.id ? 'secondary' : 'ghost'}
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => selectPreset(preset.id)}
+            title={preset.id === 'responsive' || preset.id === 'custom' ? preset.label : `${preset.label} (${preset.width} × ${preset.height})`}
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        )
+      })}
+
+      {viewport.preset === 'custom' && (
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            value={viewport.width}
+            onChange={(e) => onChange({ ...viewport, width: parseDimension(e.target.value) })}
+            className="h-8 w-20 text-xs"
+            aria-label="Width"
+          />
+          <span className="text-xs text-muted-foreground">×</span>
+          <Input
+            type="number"
+            value={viewport.height}
+            onChange={(e) => onChange({ ...viewport, height: parseDimension(e.target.value) })}
+            className="h-8 w-20 text-xs"
+            aria-label="Height"
+          />
+        </div>
+      )}
+
+      <Button
+        variant={viewport.rotated ? 'secondary' : 'ghost'}
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={() => onChange({ ...viewport, rotated: !viewport.rotated })}
+        disabled={!size}
+        title="Rotate"
+      >
+        <RotateCw className="h-4 w-4" />
+      </Button>
+
+      <Select value={String(viewport.zoom)} onValueChange={(value) => onChange({ ...viewport, zoom: Number(value) })}>
+        <SelectTrigger className="h-8 w-20 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ZOOM_LEVELS.map(zoom => (
+            <SelectItem key={zoom} value={String(zoom)} className="text-xs">
+              {Math.round(zoom * 100)}%
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button
+        variant={viewport.sideBySide ? 'secondary' : 'ghost'}
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={() => onChange({ ...viewport, sideBySide: !viewport.sideBySide })}
+        title={`Side by side at ${breakpoints.map(candidate => candidate.name).join(', ')} widths`}
+      >
+        <Columns3 className="h-4 w-4" />
+      </Button>
+
+      {size && !viewport.sideBySide && (
+        <Badge variant="outline" className="text-xs whitespace-nowrap">
+          {size.width} × {size.height} · {breakpoint?.name || 'base'}
+        </Badge>
+      )}
+    </div>
+  )
+}
@@ -1,18 +1,49 @@
-import React, { useState, useMemo, useEffect, useCallback } from 'react'
+import { useState, useMemo, useEffect, useCallback, useRef } from 'react'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { CodeEditor } from './ui/CodeEditor'
-import { RefreshCw, ExternalLink, Code, Eye, AlertTriangle, CheckCircle } from 'lucide-react'
+import { RefreshCw, Code, Eye, AlertTriangle, Terminal, Accessibility, GitCompare, Film } from 'lucide-react'
+import { DeviceFrames, type PreviewMirrors } from './DeviceFrames'
+import { AccessibilityPanel } from './AccessibilityPanel'
+import { VisualDiffPanel } from './VisualDiffPanel'
+import { ScreenshotHistoryPanel } from './ScreenshotHistoryPanel'
+import { usePreviewDocument } from '../hooks/usePreviewDocument'
+import { usePreviewBridge } from '../hooks/usePreviewBridge'
+import { componentModule } from '../services/previewModules'
+import { ScreenshotService } from '../services/screenshotService'
+import { previewBridgeScript, samplePreviewProps, type PreviewCommand, type PreviewEvent, type PreviewConsoleEntry, type PreviewProps } from '../services/previewBridge'
+import { projectBreakpoints, type PreviewFrameSize } from '../services/previewDevices'
+import { countViolationNodes } from '../services/accessibilityAudit'
+import type { PreviewDocumentOptions } from '../services/previewBundler'
 import type { ProjectSchema } from '../types/schema'
 
 interface EmbeddedPreviewProps {
   project: ProjectSchema
   focusComponent?: string
   className?: string
+  onPreviewEvent?: (event: PreviewEvent) => void
+  props?: PreviewProps // Live prop values for the focused component; applied without rebuilding the preview
+  frames?: PreviewFrameSize[] // Device sizes to render at; the preview fills the panel without them
+  zoom?: number
+  onUpdateProject?: (updater: (prev: ProjectSchema) => ProjectSchema) => void // Records screenshots and visual review decisions
 }
 
-export function EmbeddedPreview({ project, focusComponent, className }: EmbeddedPreviewProps) {
+const CONSOLE_COLORS: Record<PreviewConsoleEntry['level'], string> = {
+  log: 'text-foreground',
+  info: 'text-blue-600',
+  warn: 'text-amber-600',
+  error: 'text-red-600',
+  debug: 'text-muted-foreground'
+}
+
+export function EmbeddedPreview({ project, focusComponent, className, onPreviewEvent, props, frames, zoom = 1, onUpdateProject }: EmbeddedPreviewProps) {
   const [showCode, setShowCode] = useState(false)
+  const [showConsole, setShowConsole] = useState(false)
+  const [showAccessibility, setShowAccessibility] = useState(false)
+  const [showVisualDiff, setShowVisualDiff] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [isAuditing, setIsAuditing] = useState(false)
+  const [auditError, setAuditError] = useState<string | null>(null)
   const [selectedComponentId, setSelectedComponentId] = useState(focusComponent || project.components[0]?.id || '')
 
   // Sync selection when project changes or focusComponent changes
@@ -26,346 +57,124 @@ export function EmbeddedPreview({ project, focusComponent, className }: Embedded
   }, [focusComponent, project.components, selectedComponentId])
 
   const selectedComponent = project.components.find(c => c.id === selectedComponentId)
+  const instanceId = `preview-${selectedComponentId}`
 
-  // Validate component code
-  const validateComponent = (code: string) => {
-    const checks = {
-      hasFunction: /function\s+\w+|const\s+\w+\s*=|export\s+/i.test(code),
-      hasReturn: /return\s*\(/i.test(code),
-      hasJSX: /<[A-Za-z]/i.test(code),
-      hasTailwind: /className=/i.test(code),
-    }
+  // Only what ends up in the document; runtime errors recorded on components must not trigger a rebuild
+  const previewKey = JSON.stringify([
+    project.components.map(c => [c.id, c.name, c.filePath, c.generatedCode, c.props]),
+    project.plan?.designSystem?.breakpoints
+  ])
+
+  const previewOptions = useMemo<PreviewDocumentOptions | null>(() => {
+    if (!selectedComponent?.generatedCode) return null
 
-    const issues = []
-    if (!checks.hasFunction) issues.push("No function declaration found")
-    if (!checks.hasReturn) issues.push("No return statement found")
-    if (!checks.hasJSX) issues.push("No JSX elements found")
-    
     return {
-      isValid: issues.length === 0,
-      issues,
-      checks
+      title: `${selectedComponent.name} - Preview`,
+      bodyClass: 'bg-background text-foreground',
+      body: `<div class="min-h-screen p-8 flex items-start justify-center"><div id="${instanceId}"></div></div>`,
+      modules: [componentModule(selectedComponent)],
+      library: project.components
+        .filter(c => c.id !== selectedComponent.id && c.generatedCode)
+        .map(componentModule),
+      script: previewBridgeScript([{
+        id: instanceId,
+        componentId: selectedComponent.id,
+        module: componentModule(selectedComponent).id,
+        name: selectedComponent.name,
+        props: samplePreviewProps(selectedComponent.props)
+      }]),
+      breakpoints: projectBreakpoints(project)
     }
-  }
+  }, [previewKey, selectedComponentId]) // selectedComponent and project are captured through previewKey
+
+  const { html, error, isBuilding } = usePreviewDocument(previewOptions)
 
-  // Battle card component for demonstration
-
-  // Character Card component
-  const CharacterCard = ({ 
-    character = {
-      name: "Eldric Shadowblade",
-      level: 7,
-      health: 65,
-      maxHealth: 100,
-      experience: 350,
-      experienceToNextLevel: 500,
-      stats: {
-        strength: 14,
-        agility: 12,
-        intelligence: 8
-      },
-      inventory: [
-        { id: 1, name: "Health Potion", quantity: 3, icon: "🧪" },
-        { id: 2, name: "Magic Scroll", quantity: 1, icon: "📜" },
-        { id: 3, name: "Gold Coins", quantity: 42, icon: "🪙" }
-      ]
+  // Errors thrown outside React (handlers, timers) carry no component; this preview only renders one
+  const handlePreviewEvent = useCallback((event: PreviewEvent) => {
+    if (event.type === 'render-error' && !event.componentId) {
+      onPreviewEvent?.({ ...event, componentId: selectedComponentId, instanceId })
+    } else {
+      onPreviewEvent?.(event)
     }
-  }) => {
-    const healthPercentage = (character.health / character.maxHealth) * 100;
-    const xpPercentage = (character.experience / character.experienceToNextLevel) * 100;
-    
-    return (
-      <div className="w-80 bg-gradient-to-b from-slate-800 to-slate-900 rounded-lg overflow-hidden shadow-lg border border-amber-700/50">
-        {/* Header */}
-        <div className="p-4 bg-gradient-to-r from-amber-900/80 to-amber-700/80 border-b border-amber-600/50">
-          <div className="flex justify-between items-center">
-            <h2 className="text-xl font-bold text-amber-100">{character.name}</h2>
-            <div className="bg-amber-800 text-amber-100 rounded-full h-8 w-8 flex items-center justify-center border border-amber-600">
-              {character.level}
-            </div>
-          </div>
-        </div>
-        
-        {/* Health Bar */}
-        <div className="p-4 border-b border-slate-700/50">
-          <div className="flex justify-between mb-1">
-            <span className="text-red-300 text-sm font-semibold">Health</span>
-            <span className="text-red-300 text-sm">{character.health}/{character.maxHealth}</span>
-          </div>
-          <div className="w-full h-4 bg-slate-700 rounded-full overflow-hidden">
-            <div 
-              className="h-full bg-gradient-to-r from-red-700 to-red-500 rounded-full"
-              style={{ width: `${healthPercentage}%` }}
-            ></div>
-          </div>
-        </div>
-        
-        {/* Experience Bar */}
-        <div className="p-4 border-b border-slate-700/50">
-          <div className="flex justify-between mb-1">
-            <span className="text-purple-300 text-sm font-semibold">Experience</span>
-            <span className="text-purple-300 text-sm">{character.experience}/{character.experienceToNextLevel}</span>
-          </div>
-          <div className="w-full h-3 bg-slate-700 rounded-full overflow-hidden">
-            <div 
-              className="h-full bg-gradient-to-r from-purple-700 to-purple-500 rounded-full"
-              style={{ width: `${xpPercentage}%` }}
-            ></div>
-          </div>
-        </div>
-        
-        {/* Stats */}
-        <div className="p-4 border-b border-slate-700/50">
-          <h3 className="text-amber-400 font-semibold mb-2 text-center">Stats</h3>
-          <div className="grid grid-cols-3 gap-2">
-            <div className="bg-slate-800/50 p-2 rounded border border-slate-700/50 text-center">
-              <div className="text-red-400 text-lg">⚔️</div>
-              <div className="text-slate-300 text-sm">STR</div>
-              <div className="text-amber-300 font-bold">{character.stats.strength}</div>
-            </div>
-            <div className="bg-slate-800/50 p-2 rounded border border-slate-700/50 text-center">
-              <div className="text-green-400 text-lg">🏃</div>
-              <div className="text-slate-300 text-sm">AGI</div>
-              <div className="text-amber-300 font-bold">{character.stats.agility}</div>
-            </div>
-            <div className="bg-slate-800/50 p-2 rounded border border-slate-700/50 text-center">
-              <div className="text-blue-400 text-lg">✨</div>
-              <div className="text-slate-300 text-sm">INT</div>
-              <div className="text-amber-300 font-bold">{character.stats.intelligence}</div>
-            </div>
-          </div>
-        </div>
-        
-        {/* Inventory */}
-        <div className="p-4">
-          <h3 className="text-amber-400 font-semibold mb-2">Inventory</h3>
-          <div className="space-y-2 max-h-32 overflow-y-auto pr-1">
-            {character.inventory.map(item => (
-              <div key={item.id} className="flex items-center bg-slate-800/50 p-2 rounded border border-slate-700/50">
-                <div className="h-8 w-8 bg-slate-700 rounded-md flex items-center justify-center mr-2 text-lg">
-                  {item.icon}
-                </div>
-                <div className="flex-1">
-                  <div className="text-slate-200 text-sm">{item.name}</div>
-                </div>
-                <div className="text-amber-300 text-sm font-semibold">x{item.quantity}</div>
-              </div>
-            ))}
-          </div>
-        </div>
-      </div>
-    );
-  };
+  }, [onPreviewEvent, selectedComponentId, instanceId])
 
-  // Map of working sample components
-  const sampleComponents = {
-    CharacterCard
-  }
+  const { frameRef, isReady, size, consoleEntries, send, auditAccessibility, clearConsole } = usePreviewBridge(html, handlePreviewEvent)
+  const consoleErrors = consoleEntries.filter(entry => entry.level === 'error').length
+  const violationCount = countViolationNodes(selectedComponent?.accessibility?.violations)
+
+  // The results reach the project as an accessibility-audit event, like errors do
+  const runAudit = useCallback(async () => {
+    setShowAccessibility(true)
+    setIsAuditing(true)
+    setAuditError(null)
+    try {
+      await auditAccessibility({ instanceId })
+    } catch (err) {
+      setAuditError(err instanceof Error ? err.message : 'Accessibility audit failed')
+    } finally {
+      setIsAuditing(false)
+    }
+  }, [auditAccessibility, instanceId])
+
+  const mirrorsRef = useRef<PreviewMirrors>(new Set())
+  const broadcast = useCallback((command: PreviewCommand) => {
+    send(command)
+    mirrorsRef.current.forEach(mirror => mirror(command))
+  }, [send])
+
+  // Re-sent for every new document or frame, which starts from the sample props
+  useEffect(() => {
+    if (props && html && selectedComponentId === focusComponent) {
+      broadcast({ type: 'set-props', instanceId, props })
+    }
+  }, [props, html, isReady, frames, selectedComponentId, focusComponent, instanceId, broadcast])
 
   const renderComponentPreview = () => {
     if (!selectedComponent) {
-      // Show demo components if no project components exist
-      if (project.components.length === 0) {
-        return (
-          <div className="space-y-4">
-            <div className="text-center text-gray-500 mb-6">
-              <Code className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>No components in project</p>
-              <p className="text-sm">Here are some sample components:</p>
-            </div>
-            
-            <div className="flex justify-center">
-              <div className="p-4 border rounded-lg">
-                <h4 className="font-medium mb-2 text-center">CharacterCard (Battle Card)</h4>
-                <CharacterCard />
-              </div>
-            </div>
-          </div>
-        )
-      }
-      
       return (
         <div className="flex flex-col items-center justify-center h-64 text-gray-500">
           <Code className="h-12 w-12 mb-4 opacity-50" />
-          <p>Select a component to preview</p>
+          <p>{project.components.length === 0 ? 'No components in project' : 'Select a component to preview'}</p>
         </div>
       )
     }
 
-    const validation = validateComponent(selectedComponent.generatedCode || '')
-    
-    // Try to render component dynamically
-    try {
-      // First check if it's one of our sample components
-      if (selectedComponent.name === 'CharacterCard') {
-        const ComponentToRender = sampleComponents.CharacterCard
-        return (
-          <div 
-            className="bg-gray-50 rounded-lg p-8 min-h-64 flex items-center justify-center"
-            data-component-id={selectedComponent.id}
-            data-preview="true"
-            id="preview-container"
-          >
-            <ComponentToRender />
-          </div>
-        )
-      }
-
-      // For generated components, try to evaluate and render them
-      if (selectedComponent.generatedCode && validation.isValid) {
-        // Create a safe component evaluation function
-        const createComponentFromCode = (code: string) => {
-          try {
-            // Basic React component pattern detection
-            const componentMatch = code.match(/(?:export\s+default\s+)?(?:function\s+(\w+)|const\s+(\w+)\s*=)/i)
-            const componentName = componentMatch?.[1] || componentMatch?.[2]
-            
-            if (!componentName) {
-              throw new Error('Could not detect component name')
-            }
-
-            // For now, we can't safely evaluate JSX without a transpiler
-            // Show a preview placeholder instead
-            return ({ ...props }) => (
-              <div className="bg-gradient-to-br from-purple-50 to-blue-100 rounded-lg p-6 border border-purple-200 shadow-sm">
-                <div className="text-center">
-                  <div className="inline-flex items-center justify-center w-12 h-12 bg-purple-500 rounded-full mb-3">
-                    <Code className="h-6 w-6 text-white" />
-                  </div>
-                  <h3 className="text-lg font-semibold text-purple-900 mb-2">{componentName}</h3>
-                  <p className="text-sm text-purple-700 mb-4">Generated Component</p>
-                  <div className="text-xs text-purple-600 bg-purple-50 rounded p-2 mb-3">
-                    ✓ Code validated - Component ready
-                  </div>
-                  <div className="text-xs text-purple-500">
-                    Use "View Code" or export to CodeSandbox for live preview
-                  </div>
-                </div>
-              </div>
-            )
-          } catch (err) {
-            console.error('Component creation error:', err)
-            return null
-          }
-        }
-
-        const DynamicComponent = createComponentFromCode(selectedComponent.generatedCode)
-        
-        if (DynamicComponent) {
-          return (
-            <div 
-              className="bg-gray-50 rounded-lg p-8 min-h-64 flex items-center justify-center"
-              data-component-id={selectedComponent.id}
-              data-preview="true"
-              id="preview-container"
-            >
-              <DynamicComponent />
-            </div>
-          )
-        }
-      }
-    } catch (error) {
-      console.error('Error rendering component:', error)
+    if (!selectedComponent.generatedCode) {
+      return (
+        <div className="flex flex-col items-center justify-center h-64 text-gray-500">
+          <Code className="h-12 w-12 mb-4 opacity-50" />
+          <p>{selectedComponent.name} has no code yet</p>
+        </div>
+      )
     }
 
-    // Fallback: show validation and code analysis
-    return (
-      <div className="space-y-4">
-        {/* Validation Status */}
-        <div className={`p-4 rounded-lg border ${validation.isValid 
-          ? 'bg-green-50 border-green-200' 
-          : 'bg-red-50 border-red-200'
-        }`}>
-          <div className="flex items-center gap-2 mb-2">
-            {validation.isValid ? (
-              <CheckCircle className="h-5 w-5 text-green-600" />
-            ) : (
-              <AlertTriangle className="h-5 w-5 text-red-600" />
-            )}
-            <span className={`font-medium ${validation.isValid ? 'text-green-800' : 'text-red-800'}`}>
-              Component {validation.isValid ? 'Valid' : 'Invalid'}
-            </span>
-          </div>
-          {validation.issues.length > 0 && (
-            <ul className="text-sm text-red-700 space-y-1">
-              {validation.issues.map((issue, index) => (
-                <li key={index}>• {issue}</li>
-              ))}
-            </ul>
-          )}
+    if (error) {
+      return (
+        <div className="h-full flex flex-col items-center justify-center gap-2 p-4 text-sm text-red-600">
+          <AlertTriangle className="h-6 w-6" />
+          <span>Failed to compile preview: {error}</span>
         </div>
+      )
+    }
 
-        {/* Component Info */}
-        <div className="bg-white rounded-lg border border-gray-200 p-6">
-          <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold">{selectedComponent.name}</h3>
-            <div className="flex gap-2">
-              <Badge variant="outline">{selectedComponent.source}</Badge>
-              {selectedComponent.generationMethod && (
-                <Badge variant="secondary">{selectedComponent.generationMethod}</Badge>
-              )}
-            </div>
-          </div>
-
-          {/* Props */}
-          {Object.keys(selectedComponent.props).length > 0 && (
-            <div className="mb-4 p-3 bg-gray-50 rounded">
-              <h4 className="text-sm font-medium text-gray-700 mb-2">Props Interface:</h4>
-              <div className="space-y-1">
-                {Object.entries(selectedComponent.props).map(([name, prop]) => (
-                  <div key={name} className="text-xs font-mono flex justify-between">
-                    <span className="text-blue-600">{name}</span>
-                    <span className="text-green-600">{prop.type}</span>
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
-
-          {/* Mock Visual */}
-          <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 bg-gradient-to-br from-gray-50 to-white text-center">
-            <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-100 rounded-full mb-4">
-              <Code className="h-8 w-8 text-blue-600" />
-            </div>
-            <h4 className="text-lg font-medium text-gray-900 mb-2">{selectedComponent.name}</h4>
-            <p className="text-sm text-gray-600 mb-4">React Component</p>
-            <div className="text-xs text-gray-500">
-              For live preview, use CodeSandbox or local development
-            </div>
-          </div>
+    if (!html) {
+      return (
+        <div className="h-full flex items-center justify-center gap-2 text-sm text-muted-foreground">
+          <RefreshCw className={`h-4 w-4 ${isBuilding ? 'animate-spin' : ''}`} />
+          Compiling preview...
         </div>
+      )
+    }
 
-        {/* Quick Checks */}
-        <div className="bg-gray-50 rounded-lg p-4">
-          <h4 className="font-medium mb-3">Code Analysis</h4>
-          <div className="grid grid-cols-2 gap-4 text-sm">
-            <div className="flex items-center">
-              <span className={`mr-2 ${validation.checks.hasFunction ? 'text-green-500' : 'text-gray-400'}`}>
-                {validation.checks.hasFunction ? '✓' : '○'}
-              </span>
-              <span>Function Declaration</span>
-            </div>
-            <div className="flex items-center">
-              <span className={`mr-2 ${validation.checks.hasReturn ? 'text-green-500' : 'text-gray-400'}`}>
-                {validation.checks.hasReturn ? '✓' : '○'}
-              </span>
-              <span>Return Statement</span>
-            </div>
-            <div className="flex items-center">
-              <span className={`mr-2 ${validation.checks.hasJSX ? 'text-green-500' : 'text-gray-400'}`}>
-                {validation.checks.hasJSX ? '✓' : '○'}
-              </span>
-              <span>JSX Elements</span>
-            </div>
-            <div className="flex items-center">
-              <span className={`mr-2 ${validation.checks.hasTailwind ? 'text-green-500' : 'text-gray-400'}`}>
-                {validation.checks.hasTailwind ? '✓' : '○'}
-              </span>
-              <span>Tailwind Classes</span>
-            </div>
-          </div>
-        </div>
-      </div>
+    return (
+      <DeviceFrames
+        html={html}
+        title={`${selectedComponent.name} preview`}
+        frames={frames}
+        zoom={zoom}
+        frameRef={frameRef}
+        mirrors={mirrorsRef.current}
+      />
     )
   }
 
@@ -376,15 +185,81 @@ export function EmbeddedPreview({ project, focusComponent, className }: Embedded
         <div className="flex items-center gap-2">
           <Eye className="h-4 w-4" />
           <span className="font-medium text-sm">Component Preview</span>
-          <Badge variant="default" className="text-xs">Embedded</Badge>
+          <Badge variant="default" className="text-xs">Live</Badge>
+          {size && (
+            <span className="text-xs text-muted-foreground">{size.width} × {size.height}</span>
+          )}
         </div>
-        
+
         <div className="flex items-center gap-1">
-          <Button 
-            variant="ghost" 
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowConsole(!showConsole)}
+            className="h-6 px-2 text-xs gap-1"
+            title="Console"
+          >
+            <Terminal className="h-3 w-3" />
+            {consoleEntries.length > 0 && (
+              <span className={consoleErrors > 0 ? 'text-red-600' : ''}>{consoleEntries.length}</span>
+            )}
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowAccessibility(!showAccessibility)}
+            className="h-6 px-2 text-xs gap-1"
+            title="Accessibility"
+          >
+            <Accessibility className="h-3 w-3" />
+            {violationCount > 0 && <span className="text-orange-600">{violationCount}</span>}
+          </Button>
+
+          {onUpdateProject && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowVisualDiff(!showVisualDiff)}
+              className="h-6 px-2 text-xs gap-1"
+              title="Visual changes"
+            >
+              <GitCompare className="h-3 w-3" />
+              {selectedComponent?.visualDiff?.status === 'pending' && (
+                <span className="text-amber-600">{selectedComponent.visualDiff.changedPercent}%</span>
+              )}
+            </Button>
+          )}
+
+          {onUpdateProject && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowHistory(!showHistory)}
+              className="h-6 px-2 text-xs"
+              title="Screenshot history"
+            >
+              <Film className="h-3 w-3" />
+            </Button>
+          )}
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => broadcast({ type: 're-render' })}
+            className="h-6 px-2 text-xs"
+            title="Re-render"
+            disabled={!html}
+          >
+            <RefreshCw className="h-3 w-3" />
+          </Button>
+
+          <Button
+            variant="ghost"
             size="sm"
             onClick={() => setShowCode(!showCode)}
             className="h-6 px-2 text-xs"
+            title="Code"
           >
             <Code className="h-3 w-3" />
           </Button>
@@ -394,24 +269,32 @@ export function EmbeddedPreview({ project, focusComponent, className }: Embedded
       {/* Component Selector */}
       {project.components.length > 1 && (
         <div className="p-3 border-b">
-          <select 
-            value={selectedComponentId} 
+          <select
+            value={selectedComponentId}
             onChange={(e) => setSelectedComponentId(e.target.value)}
             className="w-full px-3 py-1 text-sm border border-gray-300 rounded"
           >
-            {project.components.length === 0 ? (
-              <option value="">No components available</option>
-            ) : (
-              project.components.map(comp => (
-                <option key={comp.id} value={comp.id}>
-                  {comp.name} ({comp.source})
-                </option>
-              ))
-            )}
+            {project.components.map(comp => (
+              <option key={comp.id} value={comp.id}>
+                {comp.name} ({comp.source})
+              </option>
+            ))}
           </select>
         </div>
       )}
 
+      {/* Errors the preview reported for this component */}
+      {selectedComponent?.runtimeErrors && selectedComponent.runtimeErrors.length > 0 && (
+        <div className="p-3 border-b bg-red-50 text-xs text-red-700 space-y-1">
+          {selectedComponent.runtimeErrors.map((runtimeError, index) => (
+            <div key={index} className="flex gap-2">
+              <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              <span><span className="font-medium">{runtimeError.phase}:</span> {runtimeError.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Content */}
       <div className="flex-1 overflow-hidden">
         {showCode && selectedComponent ? (
@@ -425,12 +308,58 @@ export function EmbeddedPreview({ project, focusComponent, className }: Embedded
             />
           </div>
         ) : (
-          <div className="overflow-auto p-4 h-full">
+          <div className="h-full">
             {renderComponentPreview()}
           </div>
         )}
       </div>
 
+      {/* Captured in a hidden preview the way edit_component captures, not as the playground shows
+          it, so every screenshot in a series has the same size and props */}
+      {showVisualDiff && selectedComponent && onUpdateProject && (
+        <VisualDiffPanel
+          project={project}
+          component={selectedComponent}
+          canCapture={!!selectedComponent.generatedCode}
+          onCapture={() => ScreenshotService.captureComponent(project, selectedComponent.id)}
+          onUpdateProject={onUpdateProject}
+        />
+      )}
+
+      {showHistory && selectedComponent && onUpdateProject && (
+        <ScreenshotHistoryPanel project={project} component={selectedComponent} onUpdateProject={onUpdateProject} />
+      )}
+
+      {showAccessibility && (
+        <AccessibilityPanel
+          components={selectedComponent ? [selectedComponent] : []}
+          canAudit={!!html}
+          isAuditing={isAuditing}
+          error={auditError}
+          onAudit={runAudit}
+        />
+      )}
+
+      {/* Console output from the preview */}
+      {showConsole && (
+        <div className="border-t max-h-40 overflow-auto bg-muted/20">
+          <div className="flex items-center justify-between px-3 py-1 border-b text-xs text-muted-foreground">
+            <span>Console</span>
+            <Button variant="ghost" size="sm" onClick={clearConsole} className="h-5 px-2 text-xs">
+              Clear
+            </Button>
+          </div>
+          {consoleEntries.length === 0 ? (
+            <div className="px-3 py-2 text-xs text-muted-foreground">No console output</div>
+          ) : (
+            consoleEntries.map((entry, index) => (
+              <div key={index} className={`px-3 py-0.5 font-mono text-xs whitespace-pre-wrap break-all ${CONSOLE_COLORS[entry.level]}`}>
+                {entry.message}
+              </div>
+            ))
+          )}
+        </div>
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -1,188 +1,132 @@
-import React, { useState } from 'react'
+import { useState, useMemo, useCallback, useRef, useEffect } from 'react'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { CodeEditor } from './ui/CodeEditor'
-import { RefreshCw, ExternalLink, Code, Eye, Layers, Move } from 'lucide-react'
-import type { ProjectSchema, Scene, ComponentInstance } from '../types/schema'
+import { RefreshCw, Code, Layers, AlertTriangle, Accessibility } from 'lucide-react'
+import { DeviceFrames, type PreviewMirrors } from './DeviceFrames'
+import { AccessibilityPanel } from './AccessibilityPanel'
+import { usePreviewDocument } from '../hooks/usePreviewDocument'
+import { usePreviewBridge } from '../hooks/usePreviewBridge'
+import { componentModule } from '../services/previewModules'
+import { previewBridgeScript, samplePreviewProps, type PreviewCommand, type PreviewEvent, type PreviewInstance } from '../services/previewBridge'
+import { projectBreakpoints, type PreviewFrameSize } from '../services/previewDevices'
+import { countViolationNodes } from '../services/accessibilityAudit'
+import { sceneContainerClasses, sceneInlineBackground, sceneInstanceClasses } from '../services/sceneCodegen'
+import { orderSceneInstances } from '../services/sceneLayout'
+import type { PreviewDocumentOptions } from '../services/previewBundler'
+import type { ProjectSchema, Scene } from '../types/schema'
 
 interface EmbeddedScenePreviewProps {
   project: ProjectSchema
   scene: Scene | null
   className?: string
+  onPreviewEvent?: (event: PreviewEvent) => void
+  frames?: PreviewFrameSize[] // Device sizes to render at; the scene's own size without them
+  zoom?: number // Applied on top of the scene's viewport scale
 }
 
-export function EmbeddedScenePreview({ project, scene, className }: EmbeddedScenePreviewProps) {
+// Scene edits (drags, typing props) arrive many times a second; the document is rebuilt once they settle
+const REBUILD_DEBOUNCE_MS = 300
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+export function EmbeddedScenePreview({ project, scene, className, onPreviewEvent, frames, zoom = 1 }: EmbeddedScenePreviewProps) {
   const [showCode, setShowCode] = useState(false)
+  const [showAccessibility, setShowAccessibility] = useState(false)
+  const [isAuditing, setIsAuditing] = useState(false)
+  const [auditError, setAuditError] = useState<string | null>(null)
+
+  // Only what ends up in the document; runtime errors recorded on components must not trigger a rebuild
+  const previewKey = JSON.stringify([
+    scene && [scene.id, scene.name, scene.layout, scene.instances],
+    project.components.map(c => [c.id, c.name, c.filePath, c.generatedCode, c.props]),
+    project.plan?.designSystem?.breakpoints
+  ])
+
+  const [settledKey, setSettledKey] = useState(previewKey)
+  useEffect(() => {
+    const timer = setTimeout(() => setSettledKey(previewKey), REBUILD_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [previewKey])
+
+  // The document lays instances out with the classes of the page generated from the scene, so the
+  // preview matches both the editor and the exported code
+  const previewOptions = useMemo<PreviewDocumentOptions | null>(() => {
+    if (!scene || scene.instances.length === 0) return null
+
+    const componentsById = new Map(project.components.map(component => [component.id, component]))
+    const visible = orderSceneInstances(scene.layout, scene.instances).filter(instance =>
+      instance.metadata?.visible !== false && componentsById.has(instance.componentId)
+    )
 
-  // Battle card component for demonstration
+    const instances: PreviewInstance[] = []
+    const elements = visible.map(instance => {
+      const component = componentsById.get(instance.componentId)!
+      const classes = sceneInstanceClasses(scene.layout, instance).join(' ')
+      if (!component.generatedCode) {
+        return `<div class="${classes} border-2 border-dashed border-blue-300 bg-blue-50 rounded-lg p-3 text-center text-sm text-blue-600">${escapeHtml(component.name)} has no code yet</div>`
+      }
+      instances.push({
+        id: instance.id,
+        componentId: component.id,
+        module: componentModule(component).id,
+        name: component.name,
+        props: { ...samplePreviewProps(component.props), ...instance.props }
+      })
+      return `<div id="${escapeHtml(instance.id)}" class="${classes}"></div>`
+    })
 
-  const CharacterCard = ({ 
-    character = {
-      name: "Eldric Shadowblade",
-      level: 7,
-      health: 65,
-      maxHealth: 100,
-      experience: 350,
-      experienceToNextLevel: 500,
-      stats: {
-        strength: 14,
-        agility: 12,
-        intelligence: 8
-      },
-      inventory: [
-        { id: 1, name: "Health Potion", quantity: 3, icon: "🧪" },
-        { id: 2, name: "Magic Scroll", quantity: 1, icon: "📜" },
-        { id: 3, name: "Gold Coins", quantity: 42, icon: "🪙" }
-      ]
+    const rendered = new Set(instances.map(instance => instance.componentId))
+    const background = sceneInlineBackground(scene.layout)
+    const containerStyle = background ? ` style="background: ${escapeHtml(background)}"` : ''
+
+    return {
+      title: `${scene.name} - Scene Preview`,
+      bodyClass: 'bg-background text-foreground',
+      body: `<div class="${sceneContainerClasses(scene.layout).join(' ')}"${containerStyle}>\n${elements.join('\n')}\n</div>`,
+      modules: project.components.filter(c => rendered.has(c.id)).map(componentModule),
+      library: project.components
+        .filter(c => !rendered.has(c.id) && c.generatedCode)
+        .map(componentModule),
+      script: previewBridgeScript(instances),
+      breakpoints: projectBreakpoints(project)
     }
-  }) => {
-    const healthPercentage = (character.health / character.maxHealth) * 100;
-    const xpPercentage = (character.experience / character.experienceToNextLevel) * 100;
-    
-    return (
-      <div className="w-72 bg-gradient-to-b from-slate-800 to-slate-900 rounded-lg overflow-hidden shadow-lg border border-amber-700/50">
-        {/* Header */}
-        <div className="p-3 bg-gradient-to-r from-amber-900/80 to-amber-700/80 border-b border-amber-600/50">
-          <div className="flex justify-between items-center">
-            <h2 className="text-lg font-bold text-amber-100">{character.name}</h2>
-            <div className="bg-amber-800 text-amber-100 rounded-full h-7 w-7 flex items-center justify-center border border-amber-600 text-sm">
-              {character.level}
-            </div>
-          </div>
-        </div>
-        
-        {/* Health Bar */}
-        <div className="p-3 border-b border-slate-700/50">
-          <div className="flex justify-between mb-1">
-            <span className="text-red-300 text-xs font-semibold">Health</span>
-            <span className="text-red-300 text-xs">{character.health}/{character.maxHealth}</span>
-          </div>
-          <div className="w-full h-3 bg-slate-700 rounded-full overflow-hidden">
-            <div 
-              className="h-full bg-gradient-to-r from-red-700 to-red-500 rounded-full"
-              style={{ width: `${healthPercentage}%` }}
-            ></div>
-          </div>
-        </div>
-        
-        {/* Experience Bar */}
-        <div className="p-3 border-b border-slate-700/50">
-          <div className="flex justify-between mb-1">
-            <span className="text-purple-300 text-xs font-semibold">Experience</span>
-            <span className="text-purple-300 text-xs">{character.experience}/{character.experienceToNextLevel}</span>
-          </div>
-          <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden">
-            <div 
-              className="h-full bg-gradient-to-r from-purple-700 to-purple-500 rounded-full"
-              style={{ width: `${xpPercentage}%` }}
-            ></div>
-          </div>
-        </div>
-        
-        {/* Stats */}
-        <div className="p-3 border-b border-slate-700/50">
-          <h3 className="text-amber-400 font-semibold mb-2 text-center text-sm">Stats</h3>
-          <div className="grid grid-cols-3 gap-1">
-            <div className="bg-slate-800/50 p-2 rounded border border-slate-700/50 text-center">
-              <div className="text-red-400 text-sm">⚔️</div>
-              <div className="text-slate-300 text-xs">STR</div>
-              <div className="text-amber-300 font-bold text-sm">{character.stats.strength}</div>
-            </div>
-            <div className="bg-slate-800/50 p-2 rounded border border-slate-700/50 text-center">
-              <div className="text-green-400 text-sm">🏃</div>
-              <div className="text-slate-300 text-xs">AGI</div>
-              <div className="text-amber-300 font-bold text-sm">{character.stats.agility}</div>
-            </div>
-            <div className="bg-slate-800/50 p-2 rounded border border-slate-700/50 text-center">
-              <div className="text-blue-400 text-sm">✨</div>
-              <div className="text-slate-300 text-xs">INT</div>
-              <div className="text-amber-300 font-bold text-sm">{character.stats.intelligence}</div>
-            </div>
-          </div>
-        </div>
-        
-        {/* Inventory */}
-        <div className="p-3">
-          <h3 className="text-amber-400 font-semibold mb-2 text-sm">Inventory</h3>
-          <div className="space-y-1 max-h-24 overflow-y-auto pr-1">
-            {character.inventory.map(item => (
-              <div key={item.id} className="flex items-center bg-slate-800/50 p-2 rounded border border-slate-700/50">
-                <div className="h-6 w-6 bg-slate-700 rounded-md flex items-center justify-center mr-2 text-sm">
-                  {item.icon}
-                </div>
-                <div className="flex-1">
-                  <div className="text-slate-200 text-xs">{item.name}</div>
-                </div>
-                <div className="text-amber-300 text-xs font-semibold">x{item.quantity}</div>
-              </div>
-            ))}
-          </div>
-        </div>
-      </div>
-    );
-  };
+  }, [settledKey]) // scene and project are captured through previewKey once it settles
 
-  // Map of embeddable components
-  const embeddableComponents = {
-    CharacterCard
-  }
+  const { html, error, isBuilding } = usePreviewDocument(previewOptions)
 
-  const renderComponentInstance = (instance: ComponentInstance) => {
-    // Find the component definition
-    const component = project.components.find(c => c.id === instance.componentId)
-    if (!component) return null
+  const { frameRef, size, send, auditAccessibility } = usePreviewBridge(html, onPreviewEvent)
 
-    // Check if we have an embeddable version of this component
-    const EmbeddableComponent = component.name === 'CharacterCard' ? embeddableComponents.CharacterCard : null
-    
-    if (EmbeddableComponent) {
-      // Render the actual live component
-      return (
-        <div
-          key={instance.id}
-          className="absolute"
-          style={{
-            left: instance.position.x,
-            top: instance.position.y,
-            zIndex: instance.position.z || 1
-          }}
-        >
-          <div className="relative group">
-            {/* Component Label */}
-            <div className="absolute -top-6 left-0 opacity-0 group-hover:opacity-100 transition-opacity">
-              <Badge variant="secondary" className="text-xs">
-                {component.name}
-              </Badge>
-            </div>
-            
-            {/* Actual Component */}
-            <EmbeddableComponent {...instance.props} />
-          </div>
-        </div>
-      )
-    } else {
-      // Fallback: Show component placeholder
-      return (
-        <div
-          key={instance.id}
-          className="absolute border-2 border-dashed border-blue-300 bg-blue-50 rounded-lg p-3"
-          style={{
-            left: instance.position.x,
-            top: instance.position.y,
-            width: instance.size.width === 'auto' ? 'auto' : instance.size.width,
-            height: instance.size.height === 'auto' ? 'auto' : instance.size.height,
-            zIndex: instance.position.z || 1
-          }}
-        >
-          <div className="text-center text-blue-600">
-            <Code className="h-6 w-6 mx-auto mb-1" />
-            <div className="text-sm font-medium">{component.name}</div>
-            <div className="text-xs text-blue-500">{component.source}</div>
-          </div>
-        </div>
-      )
+  const sceneComponents = useMemo(() => {
+    const ids = new Set(scene?.instances.map(instance => instance.componentId))
+    return project.components.filter(component => ids.has(component.id) && component.generatedCode)
+  }, [project.components, scene])
+  const violationCount = sceneComponents.reduce(
+    (total, component) => total + countViolationNodes(component.accessibility?.violations),
+    0
+  )
+
+  // Audits the whole scene; the results reach the project as an accessibility-audit event
+  const runAudit = useCallback(async () => {
+    setShowAccessibility(true)
+    setIsAuditing(true)
+    setAuditError(null)
+    try {
+      await auditAccessibility()
+    } catch (err) {
+      setAuditError(err instanceof Error ? err.message : 'Accessibility audit failed')
+    } finally {
+      setIsAuditing(false)
     }
-  }
+  }, [auditAccessibility])
+
+  const mirrorsRef = useRef<PreviewMirrors>(new Set())
+  const broadcast = useCallback((command: PreviewCommand) => {
+    send(command)
+    mirrorsRef.current.forEach(mirror => mirror(command))
+  }, [send])
 
   const renderScene = () => {
     if (!scene) {
@@ -206,27 +150,42 @@ export function EmbeddedScenePreview({ project, scene, className }: EmbeddedScen
       )
     }
 
-    return (
-      <div 
-        className="relative bg-gray-50 border-2 border-dashed border-gray-300 rounded-lg overflow-hidden"
-        style={{
-          width: scene.layout.container?.width || 800,
-          height: scene.layout.container?.height || 600,
-          background: scene.layout.container?.background || '#f9fafb'
-        }}
-      >
-        {/* Scene Header */}
-        <div className="absolute top-2 left-2 z-50">
-          <Badge variant="outline" className="bg-white/90">
-            {scene.name} ({scene.instances.length} components)
-          </Badge>
+    if (error) {
+      return (
+        <div className="flex flex-col items-center justify-center gap-2 h-64 p-4 text-sm text-red-600">
+          <AlertTriangle className="h-6 w-6" />
+          <span>Failed to compile scene: {error}</span>
         </div>
-        
-        {/* Component Instances */}
-        {scene.instances
-          .filter(instance => instance.metadata?.visible !== false)
-          .map(renderComponentInstance)}
-      </div>
+      )
+    }
+
+    if (!html) {
+      return (
+        <div className="flex items-center justify-center gap-2 h-64 text-sm text-muted-foreground">
+          <RefreshCw className={`h-4 w-4 ${isBuilding ? 'animate-spin' : ''}`} />
+          Compiling scene...
+        </div>
+      )
+    }
+
+    // Without a device the document renders at the scene's own size; either way the frames are
+    // scaled as a whole, like the editor's viewport
+    const { container } = scene.layout
+    const sceneFrames = frames || [{
+      label: `${container.width} × ${container.height}`,
+      width: container.width,
+      height: Math.max(container.height, size?.height || 0)
+    }]
+
+    return (
+      <DeviceFrames
+        html={html}
+        title={`${scene.name} preview`}
+        frames={sceneFrames}
+        zoom={zoom * (scene.viewport?.scale || 1)}
+        frameRef={frameRef}
+        mirrors={mirrorsRef.current}
+      />
     )
   }
 
@@ -239,27 +198,46 @@ export function EmbeddedScenePreview({ project, scene, className }: EmbeddedScen
           <span className="font-medium text-sm">Scene Preview</span>
           <Badge variant="default" className="text-xs">Live</Badge>
           {scene && (
-            <Badge variant="outline" className="text-xs">
-              {scene.instances?.length || 0} instances
-            </Badge>
+            <>
+              <Badge variant="outline" className="text-xs">
+                {scene.instances?.length || 0} instances
+              </Badge>
+              <Badge variant="outline" className="text-xs">
+                {scene.layout.type} · {Math.round((scene.viewport?.scale || 1) * 100)}%
+              </Badge>
+            </>
           )}
         </div>
-        
+
         <div className="flex items-center gap-1">
-          <Button 
-            variant="ghost" 
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowAccessibility(!showAccessibility)}
+            className="h-6 px-2 text-xs gap-1"
+            title="Accessibility"
+          >
+            <Accessibility className="h-3 w-3" />
+            {violationCount > 0 && <span className="text-orange-600">{violationCount}</span>}
+          </Button>
+
+          <Button
+            variant="ghost"
             size="sm"
             onClick={() => setShowCode(!showCode)}
             className="h-6 px-2 text-xs"
+            title="Scene JSON"
           >
             <Code className="h-3 w-3" />
           </Button>
-          
-          <Button 
-            variant="ghost" 
+
+          <Button
+            variant="ghost"
             size="sm"
-            onClick={() => window.location.reload()}
+            onClick={() => broadcast({ type: 're-render' })}
             className="h-6 px-2 text-xs"
+            title="Re-render"
+            disabled={!html}
           >
             <RefreshCw className="h-3 w-3" />
           </Button>
@@ -279,12 +257,21 @@ export function EmbeddedScenePreview({ project, scene, className }: EmbeddedScen
             />
           </div>
         ) : (
-          <div className="flex items-center justify-center min-h-full overflow-auto p-4">
+          <div className="h-full">
             {renderScene()}
           </div>
         )}
       </div>
 
+      {showAccessibility && (
+        <AccessibilityPanel
+          components={sceneComponents}
+          canAudit={!!html}
+          isAuditing={isAuditing}
+          error={auditError}
+          onAudit={runAudit}
+        />
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,105 @@
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet'
+import { History, Undo2, Redo2, User, Bot } from 'lucide-react'
+import type { HistoryEntry, HistoryState } from '@/services/projectHistory'
+
+interface ProjectHistoryPanelProps {
+  history: HistoryState
+  onUndo: () => void
+  onRedo: () => void
+  onJumpTo: (entryId: string) => void
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+const modKey = isMac ? '⌘' : 'Ctrl'
+
+export function ProjectHistoryPanel({ history, onUndo, onRedo, onJumpTo }: ProjectHistoryPanelProps) {
+  // Newest applied step first, then the steps that can be redone
+  const applied = [...history.past].reverse()
+
+  const renderEntry = (entry: HistoryEntry, state: 'current' | 'applied' | 'undone') => (
+    <button
+      key={entry.id}
+      onClick={() => onJumpTo(entry.id)}
+      disabled={state === 'current' || history.inTransaction}
+      className={`w-full text-left p-3 rounded-md border transition-colors ${
+        state === 'current'
+          ? 'border-primary bg-primary/5'
+          : state === 'undone'
+            ? 'opacity-50 hover:opacity-80'
+            : 'hover:bg-muted'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium truncate">{entry.label}</span>
+        <span className="text-xs text-muted-foreground shrink-0">
+          {new Date(entry.timestamp).toLocaleTimeString()}
+        </span>
+      </div>
+      <div className="flex flex-wrap items-center gap-1 mt-2">
+        {entry.source.type === 'user' && entry.tools.length === 0 ? (
+          <Badge variant="outline" className="text-xs">
+            <User className="h-3 w-3 mr-1" />
+            User
+          </Badge>
+        ) : (
+          entry.tools.map((tool, index) => (
+            <Badge key={`${tool}-${index}`} variant="secondary" className="text-xs font-mono">
+              <Bot className="h-3 w-3 mr-1" />
+              {tool}
+            </Badge>
+          ))
+        )}
+      </div>
+    </button>
+  )
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" title="Project history">
+          <History className="h-4 w-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Project History</SheetTitle>
+          <SheetDescription>
+            Undo with {modKey}+Z, redo with {modKey}+Shift+Z. Agent runs are undone as a single step.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex gap-2 mt-4">
+          <Button variant="outline" size="sm" onClick={onUndo} disabled={!history.canUndo}>
+            <Undo2 className="h-4 w-4 mr-2" />
+            Undo
+          </Button>
+          <Button variant="outline" size="sm" onClick={onRedo} disabled={!history.canRedo}>
+            <Redo2 className="h-4 w-4 mr-2" />
+            Redo
+          </Button>
+        </div>
+
+        {history.inTransaction && (
+          <div className="mt-4 p-2 rounded-md bg-blue-100 text-blue-800 text-xs">
+            Agent is working. Its changes will appear here as one step when the run finishes.
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-2 mt-4">
+          {history.future.length === 0 && history.past.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No changes yet
+            </p>
+          ) : (
+            <>
+              {[...history.future].reverse().map(entry => renderEntry(entry, 'undone'))}
+              {applied.map((entry, index) => renderEntry(entry, index === 0 ? 'current' : 'applied'))}
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
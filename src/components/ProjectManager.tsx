@@ -1,12 +1,14 @@
-import { useState } from 'react'
+import { useState, useRef } from 'react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
-import { Plus, FolderOpen, Trash2 } from 'lucide-react'
+import { Plus, FolderOpen, Trash2, Download, Upload, FileCode } from 'lucide-react'
+import { ProjectBundleService, BUNDLE_EXTENSION } from '@/services/projectBundle'
 import type { ProjectSchema, ProjectMetadata } from '@/types/schema'
+import type { ProjectExportFormat } from '@/hooks/useProjectManager'
 
 interface ProjectManagerProps {
   projects: ProjectMetadata[]
@@ -14,6 +16,8 @@ interface ProjectManagerProps {
   onProjectSelect: (projectId: string) => void
   onProjectCreate: (project: Omit<ProjectSchema, 'components' | 'assets' | 'updatedAt'>) => void
   onProjectDelete: (projectId: string) => void
+  onProjectImport: (project: ProjectSchema) => void
+  onProjectExport: (projectId: string, format: ProjectExportFormat) => Promise<void>
 }
 
 export function ProjectManager({ 
@@ -21,13 +25,18 @@ export function ProjectManager({
   currentProject, 
   onProjectSelect, 
   onProjectCreate, 
-  onProjectDelete 
+  onProjectDelete,
+  onProjectImport,
+  onProjectExport
 }: ProjectManagerProps) {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
   const [newProject, setNewProject] = useState({
     name: '',
     description: ''
   })
+  const [pendingImport, setPendingImport] = useState<ProjectSchema | null>(null)
+  const [bundleError, setBundleError] = useState<string | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
 
   const handleCreateProject = () => {
     if (!newProject.name.trim()) return
@@ -53,58 +62,138 @@ export function ProjectManager({
     }
   }
 
+  const handleImportFile = async (file: File) => {
+    setBundleError(null)
+    try {
+      const { project } = await ProjectBundleService.readBundle(file)
+      if (projects.some(p => p.id === project.id)) {
+        // Let the user decide between overwriting and keeping both
+        setPendingImport(project)
+      } else {
+        onProjectImport(project)
+      }
+    } catch (error) {
+      setBundleError(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleResolveImport = async (mode: 'replace' | 'copy') => {
+    if (!pendingImport) return
+    setPendingImport(null)
+    try {
+      onProjectImport(mode === 'replace'
+        ? pendingImport
+        : await ProjectBundleService.asCopy(pendingImport, projects.map(p => p.name)))
+    } catch (error) {
+      setBundleError(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleExportProject = async (projectId: string, format: ProjectExportFormat) => {
+    setBundleError(null)
+    try {
+      await onProjectExport(projectId, format)
+    } catch (error) {
+      setBundleError(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
   return (
     <Card className="border-none shadow-none">
  
       <CardContent>
         <div className="flex items-center justify-between mb-6">
           <h3 className="text-lg font-semibold">Your Projects</h3>
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                New Project
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Create New Project</DialogTitle>
-                <DialogDescription>
-                  Start a new HedgeKit project for component generation
-                </DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="project-name">Project Name</Label>
-                  <Input
-                    id="project-name"
-                    value={newProject.name}
-                    onChange={(e) => setNewProject(prev => ({ ...prev, name: e.target.value }))}
-                    placeholder="My Awesome Project"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="project-description">Description</Label>
-                  <Textarea
-                    id="project-description"
-                    value={newProject.description}
-                    onChange={(e) => setNewProject(prev => ({ ...prev, description: e.target.value }))}
-                    placeholder="A brief description of your project..."
-                    rows={3}
-                  />
-                </div>
-                <div className="flex justify-end gap-2">
-                  <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button onClick={handleCreateProject} disabled={!newProject.name.trim()}>
-                    Create Project
-                  </Button>
+          <div className="flex items-center gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept={`${BUNDLE_EXTENSION},.zip`}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleImportFile(file)
+                e.target.value = ''
+              }}
+            />
+            <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Project
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Create New Project</DialogTitle>
+                  <DialogDescription>
+                    Start a new HedgeKit project for component generation
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="project-name">Project Name</Label>
+                    <Input
+                      id="project-name"
+                      value={newProject.name}
+                      onChange={(e) => setNewProject(prev => ({ ...prev, name: e.target.value }))}
+                      placeholder="My Awesome Project"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="project-description">Description</Label>
+                    <Textarea
+                      id="project-description"
+                      value={newProject.description}
+                      onChange={(e) => setNewProject(prev => ({ ...prev, description: e.target.value }))}
+                      placeholder="A brief description of your project..."
+                      rows={3}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleCreateProject} disabled={!newProject.name.trim()}>
+                      Create Project
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
+        {bundleError && (
+          <div className="mb-4 p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+            {bundleError}
+          </div>
+        )}
+        <Dialog open={!!pendingImport} onOpenChange={(open) => !open && setPendingImport(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Project Already Exists</DialogTitle>
+              <DialogDescription>
+                A project with the same id as "{pendingImport?.name}" is already in your workspace.
+                Replace it with the imported version, or keep both by importing a copy.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setPendingImport(null)}>
+                Cancel
+              </Button>
+              <Button variant="outline" onClick={() => handleResolveImport('copy')}>
+                Import as Copy
+              </Button>
+              <Button variant="destructive" onClick={() => handleResolveImport('replace')}>
+                Replace Existing
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
         {projects.length === 0 ? (
           <div className="text-center py-12 text-muted-foreground">
             <FolderOpen className="h-16 w-16 mx-auto mb-4 opacity-50" />
@@ -139,6 +228,30 @@ export function ProjectManager({
                           Active
                         </span>
                       )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          handleExportProject(project.id, 'bundle')
+                        }}
+                        className="h-8 w-8 p-0 text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Export .hedgekit bundle"
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          handleExportProject(project.id, 'repository')
+                        }}
+                        className="h-8 w-8 p-0 text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Export as Vite + React project"
+                      >
+                        <FileCode className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -152,6 +265,18 @@ export function ProjectManager({
                       </Button>
                     </div>
                   </div>
+                  {project.thumbnails && project.thumbnails.length > 0 && (
+                    <div className="flex gap-2 mb-3">
+                      {project.thumbnails.map((thumbnail, index) => (
+                        <img
+                          key={index}
+                          src={thumbnail}
+                          alt=""
+                          className="h-16 w-24 object-cover object-top rounded border bg-white"
+                        />
+                      ))}
+                    </div>
+                  )}
                   <div className="flex items-center gap-4 text-xs text-muted-foreground">
                     <span className="flex items-center gap-1">
                       🧩 {project.componentCount} components
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Code, Copy } from 'lucide-react'
 import { CodeEditor } from '@/components/ui/CodeEditor'
+import { countErrors } from '@/services/typeCheck'
 import type { ProjectSchema, ComponentSchema } from '@/types/schema'
 
 interface ProjectSchemaViewerProps {
@@ -80,7 +81,20 @@ export function ProjectSchemaViewer({
           theme="dark"
           readOnly={true}
           className="max-h-96"
+          diagnostics={component.diagnostics}
         />
+        {component.diagnostics && component.diagnostics.length > 0 && (
+          <div className="space-y-1 text-xs font-mono">
+            {component.diagnostics.map((diagnostic, index) => (
+              <p
+                key={index}
+                className={diagnostic.severity === 'error' ? 'text-destructive' : 'text-muted-foreground'}
+              >
+                {diagnostic.line}:{diagnostic.column} TS{diagnostic.code}: {diagnostic.message}
+              </p>
+            ))}
+          </div>
+        )}
       </div>
     )
   }
@@ -112,7 +126,16 @@ export function ProjectSchemaViewer({
                 {schema.components.map((component) => (
                   <div key={component.id} className="border rounded p-3">
                     <div className="flex justify-between items-start mb-2">
-                      <h5 className="font-medium text-sm">{component.name}</h5>
+                      <div className="flex items-center gap-2">
+                        {component.thumbnail && (
+                          <img
+                            src={component.thumbnail.dataUrl}
+                            alt=""
+                            className="h-8 w-12 object-cover object-top rounded border bg-white"
+                          />
+                        )}
+                        <h5 className="font-medium text-sm">{component.name}</h5>
+                      </div>
                       <div className="flex items-center gap-2">
                         <Badge variant="secondary" className="text-xs">
                           {component.source}
@@ -122,6 +145,11 @@ export function ProjectSchemaViewer({
                             {component.generationMethod === 'v0' ? 'v0' : 'GPT'}
                           </Badge>
                         )}
+                        {countErrors(component.diagnostics) > 0 && (
+                          <Badge variant="destructive" className="text-xs">
+                            Type errors: {countErrors(component.diagnostics)}
+                          </Badge>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -0,0 +1,267 @@
+import { useState, useMemo } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet'
+import { Bookmark, Trash2, RotateCcw, ArrowLeft } from 'lucide-react'
+import { useProjectSnapshots } from '@/hooks/useProjectSnapshots'
+import { ProjectSnapshotService, type ProjectSnapshot, type SnapshotSection } from '@/services/projectSnapshots'
+import type { ProjectSchema } from '@/types/schema'
+
+interface ProjectSnapshotsPanelProps {
+  project: ProjectSchema
+  onUpdateProject: (updater: (prev: ProjectSchema) => ProjectSchema) => void
+}
+
+const SECTIONS: Array<{ id: SnapshotSection; label: string }> = [
+  { id: 'components', label: 'Components' },
+  { id: 'scenes', label: 'Scenes' },
+  { id: 'assets', label: 'Assets' },
+  { id: 'plan', label: 'Plan' }
+]
+
+export function ProjectSnapshotsPanel({ project, onUpdateProject }: ProjectSnapshotsPanelProps) {
+  const { snapshots, refresh, createSnapshot, deleteSnapshot, restoreSnapshot } = useProjectSnapshots(project, onUpdateProject)
+  const [snapshotName, setSnapshotName] = useState('')
+  const [selected, setSelected] = useState<ProjectSnapshot | null>(null)
+  const [sections, setSections] = useState<Set<SnapshotSection>>(new Set(SECTIONS.map(s => s.id)))
+  const [error, setError] = useState<string | null>(null)
+
+  const diff = useMemo(
+    () => (selected ? ProjectSnapshotService.diffProjects(selected.project, project) : null),
+    [selected, project]
+  )
+
+  const handleCreate = async () => {
+    setError(null)
+    try {
+      await createSnapshot(snapshotName)
+      setSnapshotName('')
+    } catch (err) {
+      setError(`Failed to save snapshot: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleDelete = async (snapshot: ProjectSnapshot) => {
+    if (!confirm(`Delete snapshot "${snapshot.name}"?`)) return
+    await deleteSnapshot(snapshot.id)
+    if (selected?.id === snapshot.id) setSelected(null)
+  }
+
+  const toggleSection = (section: SnapshotSection) => {
+    setSections(prev => {
+      const next = new Set(prev)
+      if (next.has(section)) {
+        next.delete(section)
+      } else {
+        next.add(section)
+      }
+      return next
+    })
+  }
+
+  const renderSnapshotList = () => (
+    <>
+      <div className="flex gap-2 mt-4">
+        <Input
+          value={snapshotName}
+          onChange={(e) => setSnapshotName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="e.g. client demo v1"
+        />
+        <Button onClick={handleCreate}>Save</Button>
+      </div>
+      {error && <p className="text-xs text-destructive mt-2">{error}</p>}
+
+      <div className="flex-1 overflow-y-auto space-y-2 mt-4">
+        {snapshots.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No snapshots yet
+          </p>
+        ) : (
+          snapshots.map(snapshot => (
+            <div
+              key={snapshot.id}
+              className="group flex items-start justify-between gap-2 p-3 rounded-md border hover:bg-muted cursor-pointer"
+              onClick={() => setSelected(snapshot)}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">{snapshot.name}</span>
+                  {snapshot.source === 'auto' && (
+                    <Badge variant="secondary" className="text-xs">auto</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {new Date(snapshot.createdAt).toLocaleString()} · {snapshot.project.components.length} components · {snapshot.project.scenes.length} scenes
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleDelete(snapshot)
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </>
+  )
+
+  const renderDiff = (snapshot: ProjectSnapshot) => {
+    if (!diff) return null
+
+    return (
+      <>
+        <div className="flex items-center gap-2 mt-4">
+          <Button variant="ghost" size="sm" onClick={() => setSelected(null)}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </Button>
+          <span className="text-sm font-medium truncate">{snapshot.name}</span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4 mt-4 text-sm">
+          {!diff.hasChanges && (
+            <p className="text-muted-foreground text-center py-8">
+              The project has not changed since this snapshot
+            </p>
+          )}
+
+          {(diff.components.added.length > 0 || diff.components.removed.length > 0 || diff.components.changed.length > 0) && (
+            <section>
+              <h4 className="font-medium mb-2">Components</h4>
+              <ul className="space-y-1">
+                {diff.components.added.map(c => (
+                  <li key={c.id} className="flex items-center justify-between gap-2">
+                    <span><span className="text-green-600">+ </span>{c.name} <span className="text-muted-foreground">(added since)</span></span>
+                    <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => restoreSnapshot(snapshot, { componentIds: [c.id] })}>
+                      Remove
+                    </Button>
+                  </li>
+                ))}
+                {diff.components.removed.map(c => (
+                  <li key={c.id} className="flex items-center justify-between gap-2">
+                    <span><span className="text-red-600">− </span>{c.name} <span className="text-muted-foreground">(removed since)</span></span>
+                    <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => restoreSnapshot(snapshot, { componentIds: [c.id] })}>
+                      Restore
+                    </Button>
+                  </li>
+                ))}
+                {diff.components.changed.map(c => (
+                  <li key={c.id} className="flex items-center justify-between gap-2">
+                    <span><span className="text-blue-600">~ </span>{c.name} <span className="text-muted-foreground">({c.changes.join(', ')})</span></span>
+                    <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => restoreSnapshot(snapshot, { componentIds: [c.id] })}>
+                      Revert
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {(diff.scenes.added.length > 0 || diff.scenes.removed.length > 0 || diff.scenes.changed.length > 0) && (
+            <section>
+              <h4 className="font-medium mb-2">Scenes</h4>
+              <ul className="space-y-1">
+                {diff.scenes.added.map(s => (
+                  <li key={s.id}><span className="text-green-600">+ </span>{s.name}</li>
+                ))}
+                {diff.scenes.removed.map(s => (
+                  <li key={s.id}><span className="text-red-600">− </span>{s.name}</li>
+                ))}
+                {diff.scenes.changed.map(s => (
+                  <li key={s.id}>
+                    <span className="text-blue-600">~ </span>{s.name}
+                    <ul className="ml-4 text-xs text-muted-foreground">
+                      {s.layoutChanged && <li>Layout or viewport changed</li>}
+                      {s.instancesAdded.map(i => <li key={i.id}>+ {i.name}</li>)}
+                      {s.instancesRemoved.map(i => <li key={i.id}>− {i.name}</li>)}
+                      {s.instancesMoved.map(m => (
+                        <li key={m.instanceId}>
+                          {m.label} moved ({m.from.x}, {m.from.y}) → ({m.to.x}, {m.to.y})
+                        </li>
+                      ))}
+                      {s.instancesUpdated.map(i => <li key={i.id}>{i.name} props or size changed</li>)}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {(diff.assets.added.length > 0 || diff.assets.removed.length > 0) && (
+            <section>
+              <h4 className="font-medium mb-2">Assets</h4>
+              <ul className="space-y-1">
+                {diff.assets.added.map(a => <li key={a.id}><span className="text-green-600">+ </span>{a.name}</li>)}
+                {diff.assets.removed.map(a => <li key={a.id}><span className="text-red-600">− </span>{a.name}</li>)}
+              </ul>
+            </section>
+          )}
+
+          {diff.tasks.length > 0 && (
+            <section>
+              <h4 className="font-medium mb-2">Plan Tasks</h4>
+              <ul className="space-y-1">
+                {diff.tasks.map(t => (
+                  <li key={t.taskId}>
+                    {t.title}: <span className="text-muted-foreground">{t.from || 'new'} → {t.to || 'removed'}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+
+        <div className="border-t pt-4 mt-4 space-y-3">
+          <div className="flex flex-wrap gap-3">
+            {SECTIONS.map(section => (
+              <label key={section.id} className="flex items-center gap-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={sections.has(section.id)}
+                  onChange={() => toggleSection(section.id)}
+                />
+                {section.label}
+              </label>
+            ))}
+          </div>
+          <Button
+            className="w-full"
+            disabled={sections.size === 0}
+            onClick={() => restoreSnapshot(snapshot, { sections: Array.from(sections) })}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            {sections.size === SECTIONS.length ? 'Restore Snapshot' : 'Restore Selected Sections'}
+          </Button>
+        </div>
+      </>
+    )
+  }
+
+  return (
+    <Sheet onOpenChange={(open) => open && refresh()}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" title="Project snapshots">
+          <Bookmark className="h-4 w-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Snapshots</SheetTitle>
+          <SheetDescription>
+            Named checkpoints of the whole project. Restores can be undone like any other change.
+          </SheetDescription>
+        </SheetHeader>
+        {selected ? renderDiff(selected) : renderSnapshotList()}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,298 @@
+import { useState, useEffect } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import { Plus, RotateCcw, Save, Trash2, X } from 'lucide-react'
+import { previewFunction, samplePreviewProps, type PreviewProps } from '../services/previewBridge'
+import type { ComponentSchema, PropDefinition } from '../types/schema'
+
+interface PropsPlaygroundProps {
+  component: ComponentSchema
+  values: PreviewProps
+  onChange: (values: PreviewProps) => void
+  onSavePreset: (name: string, values: PreviewProps) => void
+  onDeletePreset: (presetId: string) => void
+}
+
+interface ControlProps {
+  name: string
+  definition: PropDefinition
+  value: unknown
+  onChange: (value: unknown) => void
+}
+
+function stringify(value: unknown): string {
+  return value === undefined ? '' : JSON.stringify(value, null, 2)
+}
+
+// Array items are edited one per row and read as the prop's item type, or as text when it is not
+// known. Text that does not read as the type yet (e.g. "1." on the way to "1.5") stays text.
+function parseItem(text: string, itemType?: PropDefinition['type']): unknown {
+  switch (itemType) {
+    case 'number': {
+      const number = Number(text)
+      return text.trim() !== '' && String(number) === text.trim() ? number : text
+    }
+    case 'boolean':
+      return text === 'true' ? true : text === 'false' ? false : text
+    case 'object':
+    case 'array':
+      try {
+        return JSON.parse(text)
+      } catch {
+        return text
+      }
+    default:
+      return text
+  }
+}
+
+function formatItem(item: unknown): string {
+  return typeof item === 'string' ? item : JSON.stringify(item)
+}
+
+function JsonControl({ value, onChange, expectArray }: { value: unknown; onChange: (value: unknown) => void; expectArray?: boolean }) {
+  const [text, setText] = useState(() => stringify(value))
+  const [error, setError] = useState<string | null>(null)
+
+  // Follow outside changes (presets, reset) without reformatting what is being typed
+  useEffect(() => {
+    setText(current => {
+      try {
+        if (JSON.stringify(JSON.parse(current)) === JSON.stringify(value)) return current
+      } catch {
+        // Invalid text being typed is replaced by the new value
+      }
+      return stringify(value)
+    })
+    setError(null)
+  }, [value])
+
+  const handleChange = (next: string) => {
+    setText(next)
+    try {
+      const parsed = next.trim() ? JSON.parse(next) : undefined
+      if (expectArray && parsed !== undefined && !Array.isArray(parsed)) {
+        setError('Expected an array')
+        return
+      }
+      setError(null)
+      onChange(parsed)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid JSON')
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <Textarea
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        className="font-mono text-xs min-h-[80px]"
+        spellCheck={false}
+      />
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
+
+function ArrayControl({ value, itemType, onChange }: { value: unknown; itemType?: PropDefinition['type']; onChange: (value: unknown) => void }) {
+  const [editAsJson, setEditAsJson] = useState(false)
+  const items = Array.isArray(value) ? value : []
+
+  if (editAsJson) {
+    return (
+      <div className="space-y-1">
+        <JsonControl value={value} onChange={onChange} expectArray />
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setEditAsJson(false)}>
+          Edit items
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <Input
+            value={formatItem(item)}
+            onChange={(e) => onChange(items.map((existing, i) => (i === index ? parseItem(e.target.value, itemType) : existing)))}
+            className="h-7 text-xs font-mono"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            title="Remove item"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex gap-1">
+        <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => onChange([...items, ''])}>
+          <Plus className="h-3 w-3 mr-1" />
+          Add item
+        </Button>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setEditAsJson(true)}>
+          Edit as JSON
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function PropControl({ name, definition, value, onChange }: ControlProps) {
+  switch (definition.type) {
+    case 'string':
+      return (
+        <Input
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-8 text-sm"
+        />
+      )
+    case 'number':
+      return (
+        <Input
+          type="number"
+          value={typeof value === 'number' && !Number.isNaN(value) ? value : ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+          className="h-8 text-sm"
+        />
+      )
+    case 'boolean':
+      return (
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+            className="h-4 w-4 accent-primary"
+          />
+          {value === true ? 'true' : 'false'}
+        </label>
+      )
+    case 'array':
+      return <ArrayControl value={value} itemType={definition.itemType} onChange={onChange} />
+    case 'function':
+      // Calls show up in the preview console; unchecked, the prop is left undefined
+      return (
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={value !== undefined}
+            onChange={(e) => onChange(e.target.checked ? previewFunction(name) : undefined)}
+            className="h-4 w-4 accent-primary"
+          />
+          Log calls to the console
+        </label>
+      )
+    default:
+      return <JsonControl value={value} onChange={onChange} />
+  }
+}
+
+// Controls generated from the component's prop definitions; every change is sent to the live preview
+export function PropsPlayground({ component, values, onChange, onSavePreset, onDeletePreset }: PropsPlaygroundProps) {
+  const [presetName, setPresetName] = useState('')
+  const definitions = Object.entries(component.props)
+  const presets = component.propPresets || []
+
+  const savePreset = () => {
+    const name = presetName.trim()
+    if (!name) return
+    onSavePreset(name, values)
+    setPresetName('')
+  }
+
+  if (definitions.length === 0) {
+    return <p className="text-xs text-muted-foreground">{component.name} has no props to adjust.</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">Props</h4>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => onChange(samplePreviewProps(component.props))}
+          title="Reset to defaults"
+        >
+          <RotateCcw className="h-3 w-3 mr-1" />
+          Reset
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        {definitions.map(([name, definition]) => (
+          <div key={name} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-mono text-blue-600">{name}</span>
+              <Badge variant="outline" className="text-[10px] px-1 py-0">{definition.type}</Badge>
+              {definition.required && <span className="text-xs text-red-500">*</span>}
+            </div>
+            {definition.description && (
+              <p className="text-xs text-muted-foreground">{definition.description}</p>
+            )}
+            <PropControl
+              name={name}
+              definition={definition}
+              value={values[name]}
+              onChange={(value) => onChange({ ...values, [name]: value })}
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Presets */}
+      <div className="space-y-2 border-t pt-3">
+        <h4 className="text-sm font-medium">Presets</h4>
+        <div className="flex gap-1">
+          <Input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && savePreset()}
+            placeholder="Preset name..."
+            className="h-8 text-sm"
+          />
+          <Button size="sm" className="h-8" onClick={savePreset} disabled={!presetName.trim()}>
+            <Save className="h-3 w-3" />
+          </Button>
+        </div>
+        {presets.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Save the current values to try them again later.</p>
+        ) : (
+          <div className="space-y-1">
+            {presets.map(preset => (
+              <div key={preset.id} className="flex items-center gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 flex-1 justify-start text-xs"
+                  onClick={() => onChange({ ...samplePreviewProps(component.props), ...preset.values })}
+                >
+                  {preset.name}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => onDeletePreset(preset.id)}
+                  title="Delete preset"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
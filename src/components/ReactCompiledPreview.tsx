@@ -1,7 +1,12 @@
-import React, { useMemo, useRef, useState } from 'react'
+import { useMemo, useState } from 'react'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { RefreshCw, ExternalLink, Code, Eye, AlertTriangle } from 'lucide-react'
+import { useHotPreview } from '../hooks/useHotPreview'
+import { previewSection, type PreviewDocumentOptions } from '../services/previewBundler'
+import { componentModule } from '../services/previewModules'
+import { previewBridgeScript, samplePreviewProps } from '../services/previewBridge'
+import { projectBreakpoints } from '../services/previewDevices'
 import type { ProjectSchema } from '../types/schema'
 
 interface ReactCompiledPreviewProps {
@@ -10,275 +15,153 @@ interface ReactCompiledPreviewProps {
   className?: string
 }
 
-export function ReactCompiledPreview({ project, focusComponent, className }: ReactCompiledPreviewProps) {
-  const iframeRef = useRef<HTMLIFrameElement>(null)
-  const [showCode, setShowCode] = useState(false)
-
-  // Generate HTML that compiles and renders React components
-  const htmlContent = useMemo(() => {
-    const componentsCode = project.components
-      .filter(comp => comp.generatedCode)
-      .map(comp => {
-        // Clean up the component code for browser compilation
-        let cleanedCode = comp.generatedCode || ''
-        
-        // Remove imports that won't work in browser
-        cleanedCode = cleanedCode.replace(/import.*from.*['"].*['"];?\n?/g, '')
-        
-        // Replace export default with window assignment
-        cleanedCode = cleanedCode.replace(
-          /export\s+default\s+function\s+(\w+)/,
-          `window.${comp.name} = function $1`
-        )
-        
-        // Handle export default arrow functions
-        cleanedCode = cleanedCode.replace(
-          /export\s+default\s+(\w+)/,
-          `window.${comp.name} = $1`
-        )
+const PREVIEW_STYLES = `
+  <style>
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+      line-height: 1.6;
+    }
+    .component-container {
+      border: 2px dashed #e5e7eb;
+      transition: border-color 0.2s;
+    }
+    .component-container:hover {
+      border-color: #3b82f6;
+    }
+  </style>
+`
 
-        return {
-          name: comp.name,
-          code: cleanedCode,
-          props: comp.props,
-          source: comp.source,
-          generationMethod: comp.generationMethod
-        }
-      })
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
 
-    const componentInstances = componentsCode.map(comp => {
-      const sampleProps = Object.entries(comp.props).reduce((acc, [key, prop]) => {
-        // Generate sample prop values based on type
-        switch (prop.type) {
-          case 'string':
-            acc[key] = `"Sample ${key}"`
-            break
-          case 'number':
-            acc[key] = '42'
-            break
-          case 'boolean':
-            acc[key] = 'true'
-            break
-          case 'function':
-            acc[key] = '() => alert("Sample function")'
-            break
-          default:
-            acc[key] = prop.defaultValue || 'null'
-        }
-        return acc
-      }, {} as Record<string, any>)
+export function ReactCompiledPreview({ project, focusComponent, className }: ReactCompiledPreviewProps) {
+  const [showCode, setShowCode] = useState(false)
 
-      const propsString = Object.entries(sampleProps)
-        .map(([key, value]) => `${key}={${value}}`)
-        .join(' ')
+  // Components are compiled offline into a self-contained document by the preview bundler. The
+  // layout only depends on which components exist; their details are sections and their code is
+  // modules, so edits are hot-swapped into the running document.
+  const previewOptions = useMemo<PreviewDocumentOptions>(() => {
+    const components = project.components.filter(comp => comp.generatedCode)
+
+    const sections: Record<string, string> = {
+      'project-header': `
+            <h1 class="text-3xl font-bold text-gray-900 mb-2">${escapeHtml(project.name)}</h1>
+            <p class="text-gray-600 mb-4">${escapeHtml(project.description)}</p>
+            <div class="flex justify-center gap-4 text-sm">
+              <span class="px-3 py-1 bg-blue-100 text-blue-700 rounded-full">
+                ⚛️ ${project.components.length} React Components
+              </span>
+              <span class="px-3 py-1 bg-green-100 text-green-700 rounded-full">
+                🎨 ${project.assets?.length || 0} Assets
+              </span>
+              <span class="px-3 py-1 bg-purple-100 text-purple-700 rounded-full">
+                🔥 Live Compiled
+              </span>
+            </div>`
+    }
 
-      return `
-        <div className="component-instance mb-8 p-6 border border-gray-200 rounded-lg bg-white shadow-sm">
-          <div className="flex items-center justify-between mb-4">
-            <h2 className="text-xl font-semibold text-gray-800">${comp.name}</h2>
-            <div className="flex gap-2">
-              <span className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded">${comp.source}</span>
-              ${comp.generationMethod ? `<span className="px-2 py-1 text-xs bg-green-100 text-green-700 rounded">${comp.generationMethod}</span>` : ''}
-            </div>
-          </div>
-          
-          ${Object.keys(comp.props).length > 0 ? `
-            <div className="mb-4 p-3 bg-gray-50 rounded">
-              <h3 className="text-sm font-medium text-gray-700 mb-2">Props:</h3>
-              <div className="space-y-1 text-xs font-mono">
-                ${Object.entries(comp.props).map(([name, prop]) => `
-                  <div><span className="text-blue-600">${name}</span>: <span className="text-green-600">${prop.type}</span>${prop.required ? '<span className="text-red-500">*</span>' : ''}</div>
-                `).join('')}
+    components.forEach(comp => {
+      sections[`details-${comp.id}`] = `
+            <div class="flex items-center justify-between mb-4">
+              <h2 class="text-xl font-semibold text-gray-800">${escapeHtml(comp.name)}</h2>
+              <div class="flex gap-2">
+                <span class="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded">${comp.source}</span>
+                ${comp.generationMethod ? `<span class="px-2 py-1 text-xs bg-green-100 text-green-700 rounded">${comp.generationMethod}</span>` : ''}
               </div>
             </div>
-          ` : ''}
 
-          <div className="border rounded-lg p-4 bg-gray-50">
-            <div className="text-sm text-gray-600 mb-3">Live React Component:</div>
-            <div id="component-${comp.name}" className="component-container min-h-[100px] bg-white rounded border p-4">
-              <div className="text-center text-gray-500">Loading component...</div>
+            ${Object.keys(comp.props).length > 0 ? `
+              <div class="mb-4 p-3 bg-gray-50 rounded">
+                <h3 class="text-sm font-medium text-gray-700 mb-2">Props:</h3>
+                <div class="space-y-1 text-xs font-mono">
+                  ${Object.entries(comp.props).map(([name, prop]) => `
+                    <div><span class="text-blue-600">${escapeHtml(name)}</span>: <span class="text-green-600">${prop.type}</span>${prop.required ? '<span class="text-red-500">*</span>' : ''}</div>
+                  `).join('')}
+                </div>
+              </div>
+            ` : ''}`
+      sections[`source-${comp.id}`] = `
+            <details class="mt-4">
+              <summary class="cursor-pointer text-sm font-medium text-gray-700 hover:text-gray-900">
+                View Source (${comp.generatedCode!.split('\n').length} lines)
+              </summary>
+              <pre class="mt-2 p-4 bg-gray-900 text-gray-100 rounded-lg overflow-auto text-xs"><code>${escapeHtml(comp.generatedCode!)}</code></pre>
+            </details>`
+    })
+
+    const componentSections = components.map(comp => `
+          <div class="component-instance mb-8 p-6 border border-gray-200 rounded-lg bg-white shadow-sm">
+            ${previewSection(`details-${comp.id}`)}
+
+            <div class="border rounded-lg p-4 bg-gray-50">
+              <div class="text-sm text-gray-600 mb-3">Live React Component:</div>
+              <div id="component-${comp.id}" class="component-container min-h-[100px] bg-white rounded border p-4">
+                <div class="text-center text-gray-500">Loading component...</div>
+              </div>
             </div>
-          </div>
 
-          <details className="mt-4">
-            <summary className="cursor-pointer text-sm font-medium text-gray-700 hover:text-gray-900">
-              View Source (${comp.code.split('\\n').length} lines)
-            </summary>
-            <pre className="mt-2 p-4 bg-gray-900 text-gray-100 rounded-lg overflow-auto text-xs"><code>${comp.code.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</code></pre>
-          </details>
-        </div>
-      `
-    }).join('')
+            ${previewSection(`source-${comp.id}`)}
+          </div>
+        `).join('')
 
-    return `
-      <!DOCTYPE html>
-      <html lang="en">
-      <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>${project.name} - Live React Preview</title>
-        <script src="https://unpkg.com/react@18/umd/react.development.js"></script>
-        <script src="https://unpkg.com/react-dom@18/umd/react-dom.development.js"></script>
-        <script src="https://unpkg.com/@babel/standalone/babel.min.js"></script>
-        <script src="https://cdn.jsdelivr.net/npm/@tailwindcss/browser@4"></script>
-        <style>
-          body { 
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
-            line-height: 1.6;
-          }
-          .component-container {
-            border: 2px dashed #e5e7eb;
-            transition: border-color 0.2s;
-          }
-          .component-container:hover {
-            border-color: #3b82f6;
-          }
-          .error-boundary {
-            border: 2px solid #ef4444;
-            background: #fef2f2;
-            color: #dc2626;
-            padding: 1rem;
-            border-radius: 0.5rem;
-          }
-        </style>
-      </head>
-      <body className="bg-gray-100 min-h-screen">
-        <div className="container mx-auto px-4 py-8 max-w-4xl">
+    const body = `
+        <div class="container mx-auto px-4 py-8 max-w-4xl">
           <!-- Header -->
-          <div className="mb-8 text-center">
-            <h1 className="text-3xl font-bold text-gray-900 mb-2">${project.name}</h1>
-            <p className="text-gray-600 mb-4">${project.description}</p>
-            <div className="flex justify-center gap-4 text-sm">
-              <span className="px-3 py-1 bg-blue-100 text-blue-700 rounded-full">
-                ⚛️ ${project.components.length} React Components
-              </span>
-              <span className="px-3 py-1 bg-green-100 text-green-700 rounded-full">
-                🎨 ${project.assets?.length || 0} Assets
-              </span>
-              <span className="px-3 py-1 bg-purple-100 text-purple-700 rounded-full">
-                🔥 Live Compiled
-              </span>
-            </div>
+          <div class="mb-8 text-center">
+            ${previewSection('project-header')}
           </div>
 
           <!-- Components -->
-          ${project.components.length > 0 ? componentInstances : `
-            <div className="text-center py-16">
-              <div className="inline-flex items-center justify-center w-16 h-16 bg-gray-200 rounded-full mb-4">
-                <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          ${components.length > 0 ? componentSections : `
+            <div class="text-center py-16">
+              <div class="inline-flex items-center justify-center w-16 h-16 bg-gray-200 rounded-full mb-4">
+                <svg class="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4"></path>
                 </svg>
               </div>
-              <h2 className="text-xl font-medium text-gray-900 mb-2">No Components Yet</h2>
-              <p className="text-gray-600">Generate some components to see them rendered live!</p>
+              <h2 class="text-xl font-medium text-gray-900 mb-2">No Components Yet</h2>
+              <p class="text-gray-600">Generate some components to see them rendered live!</p>
             </div>
           `}
-          
+
           <!-- Footer -->
-          <div className="mt-12 pt-8 border-t border-gray-200 text-center text-sm text-gray-500">
-            Generated by HedgeKit • Live React Compilation with Babel
+          <div class="mt-12 pt-8 border-t border-gray-200 text-center text-sm text-gray-500">
+            Generated by HedgeKit • Live React Compilation
           </div>
         </div>
+      `
 
-        <script type="text/babel">
-          const { React, ReactDOM } = window;
-          const { useState, useEffect, useCallback } = React;
-
-          // Error Boundary Component
-          function ErrorBoundary({ children, componentName }) {
-            const [hasError, setHasError] = React.useState(false);
-            const [error, setError] = React.useState(null);
-
-            React.useEffect(() => {
-              const handleError = (event) => {
-                setHasError(true);
-                setError(event.error);
-              };
-
-              window.addEventListener('error', handleError);
-              return () => window.removeEventListener('error', handleError);
-            }, []);
-
-            if (hasError) {
-              return React.createElement('div', { className: 'error-boundary' }, [
-                React.createElement('h3', { key: 'title', className: 'font-bold mb-2' }, '⚠️ Component Error'),
-                React.createElement('p', { key: 'message', className: 'text-sm' }, 
-                  \`Component "\${componentName}" failed to render: \${error?.message || 'Unknown error'}\`)
-              ]);
-            }
-
-            return children;
-          }
-
-          // Compile and render components
-          async function compileAndRender() {
-            ${componentsCode.map(comp => `
-              try {
-                // Define the component
-                ${comp.code}
-                
-                // Render the component
-                const container = document.getElementById('component-${comp.name}');
-                if (container && window.${comp.name}) {
-                  const ComponentToRender = window.${comp.name};
-                  const element = React.createElement(ErrorBoundary, 
-                    { componentName: '${comp.name}' },
-                    React.createElement(ComponentToRender, {
-                      ${Object.entries(comp.props).map(([key, prop]) => {
-                        switch (prop.type) {
-                          case 'string': return `${key}: "Sample ${key}"`
-                          case 'number': return `${key}: 42`
-                          case 'boolean': return `${key}: true`
-                          case 'function': return `${key}: () => alert('Sample ${key} function')`
-                          default: return `${key}: null`
-                        }
-                      }).join(', ')}
-                    })
-                  );
-                  
-                  const root = ReactDOM.createRoot(container);
-                  root.render(element);
-                } else {
-                  console.error('Failed to render ${comp.name}');
-                }
-              } catch (error) {
-                console.error('Error compiling ${comp.name}:', error);
-                const container = document.getElementById('component-${comp.name}');
-                if (container) {
-                  container.innerHTML = \`
-                    <div class="error-boundary">
-                      <h3 class="font-bold mb-2">⚠️ Compilation Error</h3>
-                      <p class="text-sm">Component "${comp.name}" failed to compile: \${error.message}</p>
-                    </div>
-                  \`;
-                }
-              }
-            `).join('\n')}
-          }
-
-          // Run compilation when page loads
-          document.addEventListener('DOMContentLoaded', compileAndRender);
-        </script>
-      </body>
-      </html>
-    `
+    const script = previewBridgeScript(components.map(comp => ({
+      id: `component-${comp.id}`,
+      componentId: comp.id,
+      module: componentModule(comp).id,
+      name: comp.name,
+      props: samplePreviewProps(comp.props)
+    })))
+
+    return {
+      title: `${project.name} - Live React Preview`,
+      bodyClass: 'bg-gray-100 min-h-screen',
+      head: PREVIEW_STYLES,
+      body,
+      sections,
+      modules: components.map(componentModule),
+      script,
+      breakpoints: projectBreakpoints(project)
+    }
   }, [project])
 
+  const { html, frameKey, frameRef, error, isBuilding, lastUpdate, reload } = useHotPreview(previewOptions)
+
   const openInNewTab = () => {
     const newWindow = window.open('', '_blank')
-    if (newWindow) {
-      newWindow.document.write(htmlContent)
+    if (newWindow && html) {
+      newWindow.document.write(html)
       newWindow.document.close()
     }
   }
 
-  const refreshPreview = () => {
-    if (iframeRef.current) {
-      const iframe = iframeRef.current
-      iframe.src = 'data:text/html;charset=utf-8,' + encodeURIComponent(htmlContent)
-    }
-  }
-
   return (
     <div className={`flex flex-col ${className || 'h-full'}`}>
       {/* Header */}
@@ -287,6 +170,9 @@ export function ReactCompiledPreview({ project, focusComponent, className }: Rea
           <Eye className="h-4 w-4" />
           <span className="font-medium text-sm">Live React Preview</span>
           <Badge variant="default" className="text-xs">Compiled</Badge>
+          {lastUpdate === 'hot' && (
+            <Badge variant="outline" className="text-xs">Hot updated</Badge>
+          )}
         </div>
         
         <div className="flex items-center gap-1">
@@ -302,8 +188,9 @@ export function ReactCompiledPreview({ project, focusComponent, className }: Rea
           <Button 
             variant="ghost" 
             size="sm"
-            onClick={refreshPreview}
+            onClick={reload}
             className="h-6 px-2 text-xs"
+            title="Reload preview"
           >
             <RefreshCw className="h-3 w-3" />
           </Button>
@@ -321,22 +208,33 @@ export function ReactCompiledPreview({ project, focusComponent, className }: Rea
 
       {/* Content */}
       <div className="flex-1 overflow-hidden">
-        {showCode ? (
+        {error ? (
+          <div className="h-full flex flex-col items-center justify-center gap-2 p-4 text-sm text-red-600">
+            <AlertTriangle className="h-6 w-6" />
+            <span>Failed to compile preview: {error}</span>
+          </div>
+        ) : showCode ? (
           <div className="h-full overflow-auto p-4">
             <pre className="bg-gray-900 text-gray-100 rounded-lg p-4 text-sm overflow-auto">
-              {htmlContent}
+              {html}
             </pre>
           </div>
-        ) : (
+        ) : html ? (
           <iframe
-            ref={iframeRef}
-            src={`data:text/html;charset=utf-8,${encodeURIComponent(htmlContent)}`}
+            key={frameKey}
+            ref={frameRef}
+            srcDoc={html}
             className="w-full h-full border-0"
             title="Live React Component Preview"
-            sandbox="allow-scripts allow-same-origin"
+            sandbox="allow-scripts"
           />
+        ) : (
+          <div className="h-full flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <RefreshCw className={`h-4 w-4 ${isBuilding ? 'animate-spin' : ''}`} />
+            Compiling preview...
+          </div>
         )}
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
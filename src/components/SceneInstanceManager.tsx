@@ -1,11 +1,21 @@
-import React from 'react'
+import React, { useState } from 'react'
 import { Button } from './ui/button'
+import { Input } from './ui/input'
 import { Badge } from './ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
-import { Eye, EyeOff, Lock, Unlock, Trash2, Move, Plus } from 'lucide-react'
-import { Scene, ComponentInstance, ComponentSchema } from '../types/schema'
+import { Eye, EyeOff, Lock, Unlock, Trash2, Move, Plus, ArrowUp, ArrowDown, LayoutGrid, Group } from 'lucide-react'
+import { Scene, ComponentInstance, ComponentSchema, InstanceLayout } from '../types/schema'
 import { useSceneManager } from '../hooks/useSceneManager'
+import { instanceGridArea, orderSceneInstances } from '../services/sceneLayout'
+import { withGroupMembers } from '../services/sceneArrange'
+
+const GRID_FIELDS: Array<{ key: Exclude<keyof InstanceLayout, 'order'>; label: string }> = [
+  { key: 'column', label: 'Column' },
+  { key: 'row', label: 'Row' },
+  { key: 'columnSpan', label: 'Col span' },
+  { key: 'rowSpan', label: 'Row span' }
+]
 
 interface SceneInstanceManagerProps {
   scene: Scene | null
@@ -23,6 +33,9 @@ export function SceneInstanceManager({
   selectedInstanceId 
 }: SceneInstanceManagerProps) {
   const sceneManager = useSceneManager(project)
+  // Flex scenes reorder by dragging an instance onto another one's place in the list
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
 
   const handleDeleteInstance = (instanceId: string) => {
     if (!scene) return
@@ -39,16 +52,46 @@ export function SceneInstanceManager({
     })
   }
 
+  // Grouped instances lock and unlock together
   const handleToggleLock = (instance: ComponentInstance) => {
     if (!scene) return
+    const members = withGroupMembers(scene.instances, [instance.id])
+    scene.instances
+      .filter(member => members.includes(member.id))
+      .forEach(member => {
+        sceneManager.updateComponentInstance(scene.id, member.id, {
+          metadata: {
+            ...member.metadata,
+            locked: !instance.metadata?.locked
+          }
+        })
+      })
+  }
+
+  // An empty column or row leaves the instance to the grid's auto-placement
+  const handleGridPlacement = (instance: ComponentInstance, key: keyof InstanceLayout, value: string) => {
+    if (!scene) return
+    const parsed = parseInt(value, 10)
     sceneManager.updateComponentInstance(scene.id, instance.id, {
-      metadata: {
-        ...instance.metadata,
-        locked: !instance.metadata?.locked
+      layout: {
+        ...instance.layout,
+        [key]: Number.isNaN(parsed) ? undefined : Math.max(1, parsed)
       }
     })
   }
 
+  const handleMove = (instance: ComponentInstance, toIndex: number) => {
+    if (!scene) return
+    sceneManager.reorderComponentInstance(scene.id, instance.id, toIndex)
+  }
+
+  const handleDrop = (toIndex: number) => {
+    const dragged = scene?.instances.find(instance => instance.id === draggedId)
+    if (dragged) handleMove(dragged, toIndex)
+    setDraggedId(null)
+    setDropIndex(null)
+  }
+
   const handleAddComponent = (componentId: string) => {
     if (!scene) return
     
@@ -74,7 +117,8 @@ export function SceneInstanceManager({
     )
   }
 
-  const instances = scene.instances || []
+  // Grid and flex scenes list their instances in the order they are laid out
+  const instances = orderSceneInstances(scene.layout, scene.instances || [])
   const availableComponents = componentLibrary.filter(comp => 
     !instances.some(inst => inst.componentId === comp.id)
   )
@@ -127,13 +171,14 @@ export function SceneInstanceManager({
           </div>
         ) : (
           <div className="space-y-2 overflow-y-auto">
-            {instances.map(instance => {
+            {instances.map((instance, index) => {
               const component = componentLibrary.find(c => c.id === instance.componentId)
               if (!component) return null
 
               const isSelected = selectedInstanceId === instance.id
               const isVisible = instance.metadata?.visible !== false
               const isLocked = instance.metadata?.locked
+              const canDrag = scene.layout.type === 'flex' && !isLocked
 
               return (
                 <div
@@ -142,13 +187,34 @@ export function SceneInstanceManager({
                     isSelected 
                       ? 'border-blue-500 bg-blue-50' 
                       : 'border-gray-200 hover:border-gray-300'
-                  } ${!isVisible ? 'opacity-50' : ''}`}
+                  } ${!isVisible ? 'opacity-50' : ''} ${
+                    dropIndex === index && draggedId !== instance.id ? 'ring-2 ring-blue-400' : ''
+                  }`}
                   onClick={() => onInstanceSelect?.(instance)}
+                  draggable={canDrag}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move'
+                    setDraggedId(instance.id)
+                  }}
+                  onDragOver={(e) => {
+                    if (!draggedId || scene.layout.type !== 'flex') return
+                    e.preventDefault()
+                    setDropIndex(index)
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault()
+                    handleDrop(index)
+                  }}
+                  onDragEnd={() => {
+                    setDraggedId(null)
+                    setDropIndex(null)
+                  }}
                 >
                   {/* Component Info */}
                   <div className="flex items-center justify-between mb-2">
                     <div className="flex items-center gap-2">
                       <span className="font-medium text-sm">{component.name}</span>
+                      {instance.metadata?.groupId && <Group className="h-3 w-3 text-muted-foreground" />}
                       <Badge variant="secondary" className="text-xs">
                         {component.source}
                       </Badge>
@@ -203,14 +269,75 @@ export function SceneInstanceManager({
 
                   {/* Position Info */}
                   <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                    <div className="flex items-center gap-1">
-                      <Move className="h-3 w-3" />
-                      ({instance.position.x}, {instance.position.y})
-                    </div>
+                    {scene.layout.type === 'freeform' && (
+                      <div className="flex items-center gap-1">
+                        <Move className="h-3 w-3" />
+                        ({instance.position.x}, {instance.position.y})
+                      </div>
+                    )}
+                    {scene.layout.type === 'grid' && (() => {
+                      const area = instanceGridArea(scene.layout, instance)
+                      return (
+                        <div className="flex items-center gap-1">
+                          <LayoutGrid className="h-3 w-3" />
+                          {area.column ?? 'auto'}, {area.row ?? 'auto'} · {area.columnSpan}×{area.rowSpan}
+                        </div>
+                      )
+                    })()}
+                    {scene.layout.type === 'flex' && (
+                      <div className="flex items-center gap-1">
+                        #{index + 1}
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-5 w-5 p-0"
+                          disabled={index === 0 || isLocked}
+                          title="Move earlier"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleMove(instance, index - 1)
+                          }}
+                        >
+                          <ArrowUp className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-5 w-5 p-0"
+                          disabled={index === instances.length - 1 || isLocked}
+                          title="Move later"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleMove(instance, index + 1)
+                          }}
+                        >
+                          <ArrowDown className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
                     {Object.keys(instance.props).length > 0 && (
                       <div>{Object.keys(instance.props).length} props</div>
                     )}
                   </div>
+
+                  {/* Grid Placement */}
+                  {isSelected && scene.layout.type === 'grid' && !isLocked && (
+                    <div className="grid grid-cols-4 gap-1 mt-2" onClick={(e) => e.stopPropagation()}>
+                      {GRID_FIELDS.map(field => (
+                        <label key={field.key} className="space-y-0.5 text-[10px] text-muted-foreground">
+                          <span>{field.label}</span>
+                          <Input
+                            type="number"
+                            min={1}
+                            value={instance.layout?.[field.key] ?? ''}
+                            placeholder={field.key === 'column' || field.key === 'row' ? 'auto' : '1'}
+                            onChange={(e) => handleGridPlacement(instance, field.key, e.target.value)}
+                            className="h-6 px-1 text-xs"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )
             })}
@@ -2,9 +2,27 @@ import React, { useEffect, useState, useRef } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
-import { Eye, EyeOff, Lock, Unlock, Move, RotateCcw } from 'lucide-react'
-import { Scene, ComponentInstance, ComponentSchema } from '../types/schema'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
+import {
+  Eye, EyeOff, Lock, Unlock, Move, RotateCcw, Code, Copy, ChevronLeft, ChevronRight, ChevronUp, ChevronDown, Magnet,
+  AlignStartVertical, AlignCenterVertical, AlignEndVertical, AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal,
+  AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter, Group, Ungroup, type LucideIcon
+} from 'lucide-react'
+import { Scene, SceneLayout, ComponentInstance, ComponentSchema } from '../types/schema'
 import { sceneManager } from '../services/sceneManager'
+import { SceneCodegenService, type GeneratedScenePage } from '../services/sceneCodegen'
+import { gridCellAt, instanceGridArea, orderSceneInstances, sceneFlex, sceneGrid, withGridCell, type GridCell } from '../services/sceneLayout'
+import {
+  alignBoxes,
+  boundingBox,
+  boxesInRect,
+  distributeBoxes,
+  snapBox,
+  withGroupMembers,
+  type AlignEdge,
+  type SceneBox,
+  type SceneGuide
+} from '../services/sceneArrange'
 
 interface SceneLiveViewProps {
   scene: Scene | null
@@ -13,6 +31,91 @@ interface SceneLiveViewProps {
   selectedInstanceId?: string
 }
 
+const JUSTIFY_CONTENT: Record<NonNullable<SceneLayout['flex']>['justify'], string> = {
+  start: 'flex-start',
+  center: 'center',
+  end: 'flex-end',
+  'space-between': 'space-between',
+  'space-around': 'space-around'
+}
+
+const ALIGN_ITEMS: Record<NonNullable<SceneLayout['flex']>['align'], string> = {
+  start: 'flex-start',
+  center: 'center',
+  end: 'flex-end',
+  stretch: 'stretch'
+}
+
+// Lays the canvas out the way the generated page's container classes do
+function canvasLayoutStyle(layout: SceneLayout): React.CSSProperties {
+  if (layout.type === 'grid') {
+    const { columns, rows, gap } = sceneGrid(layout)
+    return {
+      display: 'grid',
+      gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+      gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))`,
+      gap
+    }
+  }
+  if (layout.type === 'flex') {
+    const flex = sceneFlex(layout)
+    return {
+      display: 'flex',
+      flexDirection: flex.direction,
+      flexWrap: flex.wrap ? 'wrap' : 'nowrap',
+      justifyContent: JUSTIFY_CONTENT[flex.justify],
+      alignItems: ALIGN_ITEMS[flex.align]
+    }
+  }
+  return {}
+}
+
+// Freeform instances snap to this grid while snapping is on
+const SNAP_GRID_SIZE = 8
+
+const ALIGN_COMMANDS: Array<{ edge: AlignEdge; label: string; icon: LucideIcon }> = [
+  { edge: 'left', label: 'Align left edges', icon: AlignStartVertical },
+  { edge: 'center', label: 'Align horizontal centers', icon: AlignCenterVertical },
+  { edge: 'right', label: 'Align right edges', icon: AlignEndVertical },
+  { edge: 'top', label: 'Align top edges', icon: AlignStartHorizontal },
+  { edge: 'middle', label: 'Align vertical centers', icon: AlignCenterHorizontal },
+  { edge: 'bottom', label: 'Align bottom edges', icon: AlignEndHorizontal }
+]
+
+// A freeform drag: where it started and where the moving instances were then
+interface FreeformDrag {
+  start: { x: number; y: number }
+  origins: Map<string, ComponentInstance['position']>
+  box: SceneBox // Bounds of the moving instances
+  others: SceneBox[]
+}
+
+interface Marquee {
+  origin: { x: number; y: number }
+  rect: SceneBox
+  additive: boolean // Shift adds to the selection instead of replacing it
+}
+
+function guideStyle(guide: SceneGuide): React.CSSProperties {
+  return guide.orientation === 'vertical'
+    ? { left: guide.at, top: guide.from, width: 1, height: guide.to - guide.from }
+    : { top: guide.at, left: guide.from, height: 1, width: guide.to - guide.from }
+}
+
+function instanceLayoutStyle(layout: SceneLayout, instance: ComponentInstance): React.CSSProperties {
+  if (layout.type === 'freeform') {
+    return { left: instance.position.x, top: instance.position.y }
+  }
+  if (layout.type === 'grid') {
+    const area = instanceGridArea(layout, instance)
+    return {
+      gridColumn: `${area.column ?? 'auto'} / span ${area.columnSpan}`,
+      gridRow: `${area.row ?? 'auto'} / span ${area.rowSpan}`
+    }
+  }
+  return {}
+}
+
 export function SceneLiveView({ 
   scene, 
   componentLibrary, 
@@ -20,8 +123,25 @@ export function SceneLiveView({
   selectedInstanceId 
 }: SceneLiveViewProps) {
   const [draggedInstance, setDraggedInstance] = useState<string | null>(null)
-  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 })
   const canvasRef = useRef<HTMLDivElement>(null)
+  const instanceRefs = useRef(new Map<string, HTMLDivElement>())
+  const freeformDrag = useRef<FreeformDrag | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>(selectedInstanceId ? [selectedInstanceId] : [])
+  const [marquee, setMarquee] = useState<Marquee | null>(null)
+  const [guides, setGuides] = useState<SceneGuide[]>([])
+  const [snapToGrid, setSnapToGrid] = useState(true)
+  const [generatedPage, setGeneratedPage] = useState<GeneratedScenePage | null>(null)
+  // Grid scenes drop the dragged instance into a cell; flex scenes move it to another instance's place
+  const [dropCell, setDropCell] = useState<GridCell | null>(null)
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+
+  // Follow selections made outside the view, keeping a multi-selection that includes them
+  useEffect(() => {
+    setSelectedIds(prev => {
+      if (!selectedInstanceId) return []
+      return prev.includes(selectedInstanceId) ? prev : [selectedInstanceId]
+    })
+  }, [selectedInstanceId])
 
   if (!scene) {
     return (
@@ -41,41 +161,180 @@ export function SceneLiveView({
     return componentLibrary.find(comp => comp.id === componentId)
   }
 
+  const containerBox: SceneBox = { id: '', x: 0, y: 0, width: scene.layout.container.width, height: scene.layout.container.height }
+  const visibleInstances = scene.instances.filter(instance => instance.metadata?.visible)
+
+  const canvasPoint = (e: React.MouseEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect()
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+  }
+
+  // Where the instance renders in the canvas, falling back to its stored position and size
+  const instanceBox = (instance: ComponentInstance): SceneBox => {
+    const element = instanceRefs.current.get(instance.id)
+    return {
+      id: instance.id,
+      x: element ? element.offsetLeft : instance.position.x,
+      y: element ? element.offsetTop : instance.position.y,
+      width: element ? element.offsetWidth : instance.size.width === 'auto' ? 0 : instance.size.width,
+      height: element ? element.offsetHeight : instance.size.height === 'auto' ? 0 : instance.size.height
+    }
+  }
+
+  const selectInstances = (ids: string[], primary?: ComponentInstance) => {
+    setSelectedIds(ids)
+    const selected = primary || scene.instances.find(instance => instance.id === ids[ids.length - 1])
+    onInstanceSelect?.(selected || null)
+  }
+
   const handleInstanceMouseDown = (e: React.MouseEvent, instance: ComponentInstance) => {
-    if (instance.metadata?.locked) return
+    e.stopPropagation()
+    if (!canvasRef.current) return
 
-    const rect = canvasRef.current?.getBoundingClientRect()
-    if (!rect) return
+    // Shift-click adds the instance and its group to the selection, or takes them out of it
+    const members = withGroupMembers(scene.instances, [instance.id])
+    if (e.shiftKey) {
+      const next = selectedIds.includes(instance.id)
+        ? selectedIds.filter(id => !members.includes(id))
+        : [...selectedIds, ...members.filter(id => !selectedIds.includes(id))]
+      selectInstances(next)
+      return
+    }
 
-    const offsetX = e.clientX - rect.left - instance.position.x
-    const offsetY = e.clientY - rect.top - instance.position.y
+    const selection = selectedIds.includes(instance.id) ? selectedIds : members
+    selectInstances(selection, instance)
+    if (instance.metadata?.locked) return
 
+    if (scene.layout.type === 'freeform') {
+      const moving = scene.instances.filter(candidate => selection.includes(candidate.id) && !candidate.metadata?.locked)
+      freeformDrag.current = {
+        start: canvasPoint(e),
+        origins: new Map(moving.map(candidate => [candidate.id, candidate.position])),
+        box: boundingBox(moving.map(instanceBox)),
+        others: visibleInstances.filter(candidate => !selection.includes(candidate.id)).map(instanceBox)
+      }
+    }
     setDraggedInstance(instance.id)
-    setDragOffset({ x: offsetX, y: offsetY })
-    onInstanceSelect?.(instance)
 
     e.preventDefault()
   }
 
+  // Dragging from an empty part of the canvas draws a marquee around the instances to select
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || !canvasRef.current) return
+    const origin = canvasPoint(e)
+    setMarquee({ origin, rect: { id: '', ...origin, width: 0, height: 0 }, additive: e.shiftKey })
+    e.preventDefault()
+  }
+
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (!draggedInstance || !canvasRef.current) return
+    if (!canvasRef.current) return
 
-    const rect = canvasRef.current.getBoundingClientRect()
-    const newX = e.clientX - rect.left - dragOffset.x
-    const newY = e.clientY - rect.top - dragOffset.y
+    const point = canvasPoint(e)
+    if (marquee) {
+      const x = Math.min(marquee.origin.x, point.x)
+      const y = Math.min(marquee.origin.y, point.y)
+      setMarquee({
+        ...marquee,
+        rect: { id: '', x, y, width: Math.abs(point.x - marquee.origin.x), height: Math.abs(point.y - marquee.origin.y) }
+      })
+      return
+    }
+    if (!draggedInstance) return
 
-    // Update instance position
-    sceneManager.updateComponentInstance(scene.id, draggedInstance, {
-      position: { 
-        x: Math.max(0, Math.min(newX, scene.layout.container.width - 100)), 
-        y: Math.max(0, Math.min(newY, scene.layout.container.height - 100))
-      }
+    if (scene.layout.type === 'grid') {
+      setDropCell(gridCellAt(scene.layout, point.x, point.y))
+      return
+    }
+    const drag = freeformDrag.current
+    if (!drag) return
+
+    // The moving instances snap as one box; Alt moves them freely
+    const box = { ...drag.box, x: drag.box.x + point.x - drag.start.x, y: drag.box.y + point.y - drag.start.y }
+    const snapped = e.altKey
+      ? { x: box.x, y: box.y, guides: [] }
+      : snapBox(box, drag.others, containerBox, { gridSize: snapToGrid ? SNAP_GRID_SIZE : 0 })
+    setGuides(snapped.guides)
+
+    const offsetX = Math.round(snapped.x - drag.box.x)
+    const offsetY = Math.round(snapped.y - drag.box.y)
+    drag.origins.forEach((origin, instanceId) => {
+      sceneManager.updateComponentInstance(scene.id, instanceId, {
+        position: { ...origin, x: origin.x + offsetX, y: origin.y + offsetY }
+      })
     })
   }
 
-  const handleMouseUp = () => {
+  const endDrag = () => {
     setDraggedInstance(null)
-    setDragOffset({ x: 0, y: 0 })
+    freeformDrag.current = null
+    setGuides([])
+    setMarquee(null)
+    setDropCell(null)
+    setDropTargetId(null)
+  }
+
+  const handleMouseUp = () => {
+    if (marquee) {
+      const touched = boxesInRect(visibleInstances.map(instanceBox), marquee.rect).map(box => box.id)
+      const ids = withGroupMembers(scene.instances, touched)
+      selectInstances(marquee.additive ? [...selectedIds, ...ids.filter(id => !selectedIds.includes(id))] : ids)
+      endDrag()
+      return
+    }
+
+    const dragged = scene.instances.find(instance => instance.id === draggedInstance)
+    if (dragged && scene.layout.type === 'grid' && dropCell) {
+      sceneManager.updateComponentInstance(scene.id, dragged.id, {
+        layout: withGridCell(scene.layout, dragged, dropCell)
+      })
+    } else if (dragged && scene.layout.type === 'flex' && dropTargetId) {
+      const toIndex = orderSceneInstances(scene.layout, scene.instances).findIndex(instance => instance.id === dropTargetId)
+      sceneManager.reorderComponentInstance(scene.id, dragged.id, toIndex)
+    }
+    endDrag()
+  }
+
+  // Align and distribute move the selected instances that are not locked
+  const movableSelection = scene.instances.filter(instance =>
+    selectedIds.includes(instance.id) && instance.metadata?.visible && !instance.metadata?.locked
+  )
+
+  const moveInstances = (positions: Map<string, { x: number; y: number }>) => {
+    positions.forEach((position, instanceId) => {
+      const instance = scene.instances.find(candidate => candidate.id === instanceId)
+      if (!instance) return
+      sceneManager.updateComponentInstance(scene.id, instanceId, {
+        position: { ...instance.position, ...position }
+      })
+    })
+  }
+
+  const handleAlign = (edge: AlignEdge) => {
+    moveInstances(alignBoxes(movableSelection.map(instanceBox), edge, containerBox))
+  }
+
+  const handleDistribute = (direction: 'horizontal' | 'vertical') => {
+    moveInstances(distributeBoxes(movableSelection.map(instanceBox), direction))
+  }
+
+  const selectedInstances = scene.instances.filter(instance => selectedIds.includes(instance.id))
+
+  const setGroup = (groupId: string | undefined) => {
+    selectedInstances.forEach(instance => {
+      sceneManager.updateComponentInstance(scene.id, instance.id, {
+        metadata: { ...instance.metadata, groupId }
+      })
+    })
+  }
+
+  // Grows or shrinks the instance's span within the grid
+  const resizeGridArea = (instance: ComponentInstance, span: 'columnSpan' | 'rowSpan', delta: number) => {
+    const area = instanceGridArea(scene.layout, instance)
+    const layout = { ...instance.layout, [span]: area[span] + delta }
+    sceneManager.updateComponentInstance(scene.id, instance.id, {
+      layout: { ...layout, [span]: instanceGridArea(scene.layout, { ...instance, layout })[span] }
+    })
   }
 
   const toggleInstanceVisibility = (instance: ComponentInstance) => {
@@ -87,41 +346,56 @@ export function SceneLiveView({
     })
   }
 
+  // Grouped instances lock and unlock together
   const toggleInstanceLock = (instance: ComponentInstance) => {
-    sceneManager.updateComponentInstance(scene.id, instance.id, {
-      metadata: {
-        ...instance.metadata,
-        locked: !instance.metadata?.locked
-      }
-    })
+    const members = withGroupMembers(scene.instances, [instance.id])
+    scene.instances
+      .filter(member => members.includes(member.id))
+      .forEach(member => {
+        sceneManager.updateComponentInstance(scene.id, member.id, {
+          metadata: {
+            ...member.metadata,
+            locked: !instance.metadata?.locked
+          }
+        })
+      })
   }
 
   const renderComponentInstance = (instance: ComponentInstance) => {
     const component = getComponentDefinition(instance.componentId)
     if (!component || !instance.metadata?.visible) return null
 
-    const isSelected = selectedInstanceId === instance.id
+    const isSelected = selectedIds.includes(instance.id)
     const isLocked = instance.metadata?.locked
+    const isDropTarget = dropTargetId === instance.id
 
     return (
       <div
         key={instance.id}
-        className={`absolute border-2 rounded-lg p-2 transition-all cursor-pointer ${
+        className={`${scene.layout.type === 'freeform' ? 'absolute' : 'relative'} border-2 rounded-lg p-2 transition-all cursor-pointer ${
           isSelected 
             ? 'border-blue-500 bg-blue-50 shadow-lg' 
             : 'border-gray-300 hover:border-gray-400'
         } ${
           isLocked ? 'opacity-75 cursor-not-allowed' : ''
+        } ${
+          isDropTarget ? 'ring-2 ring-blue-300' : ''
         }`}
         style={{
-          left: instance.position.x,
-          top: instance.position.y,
+          ...instanceLayoutStyle(scene.layout, instance),
           width: instance.size.width === 'auto' ? 'auto' : instance.size.width,
           height: instance.size.height === 'auto' ? 'auto' : instance.size.height,
           zIndex: instance.position.z || 1
         }}
         onMouseDown={(e) => handleInstanceMouseDown(e, instance)}
-        onClick={() => onInstanceSelect?.(instance)}
+        onMouseEnter={() => {
+          if (scene.layout.type === 'flex' && draggedInstance && draggedInstance !== instance.id) setDropTargetId(instance.id)
+        }}
+        onMouseLeave={() => setDropTargetId(null)}
+        ref={(element) => {
+          if (element) instanceRefs.current.set(instance.id, element)
+          else instanceRefs.current.delete(instance.id)
+        }}
       >
         {/* Component Preview */}
         <div className="bg-white rounded p-2 shadow-sm">
@@ -135,7 +409,7 @@ export function SceneLiveView({
         </div>
 
         {/* Instance Controls */}
-        {isSelected && (
+        {selectedInstanceId === instance.id && (
           <div className="absolute -top-8 left-0 flex gap-1">
             <Button
               size="sm"
@@ -165,17 +439,93 @@ export function SceneLiveView({
                 <Unlock className="h-3 w-3" />
               }
             </Button>
+            {scene.layout.type === 'grid' && !isLocked && (
+              <>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-6 w-6 p-0"
+                  title="Span fewer columns"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    resizeGridArea(instance, 'columnSpan', -1)
+                  }}
+                >
+                  <ChevronLeft className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-6 w-6 p-0"
+                  title="Span more columns"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    resizeGridArea(instance, 'columnSpan', 1)
+                  }}
+                >
+                  <ChevronRight className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-6 w-6 p-0"
+                  title="Span fewer rows"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    resizeGridArea(instance, 'rowSpan', -1)
+                  }}
+                >
+                  <ChevronUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-6 w-6 p-0"
+                  title="Span more rows"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    resizeGridArea(instance, 'rowSpan', 1)
+                  }}
+                >
+                  <ChevronDown className="h-3 w-3" />
+                </Button>
+              </>
+            )}
           </div>
         )}
 
         {/* Instance Label */}
-        <div className="absolute -bottom-6 left-0 text-xs bg-black text-white px-2 py-1 rounded">
+        <div className="absolute -bottom-6 left-0 flex items-center gap-1 text-xs bg-black text-white px-2 py-1 rounded">
+          {instance.metadata?.groupId && <Group className="h-3 w-3" />}
           {instance.metadata?.label || component.name}
         </div>
       </div>
     )
   }
 
+  // The cells the dragged instance would cover if dropped now
+  const draggedGridInstance = dropCell && scene.instances.find(instance => instance.id === draggedInstance)
+  const dropArea = draggedGridInstance ? withGridCell(scene.layout, draggedGridInstance, dropCell) : null
+  const isInDropArea = (column: number, row: number) =>
+    !!dropArea &&
+    column >= dropArea.column && column < dropArea.column + dropArea.columnSpan &&
+    row >= dropArea.row && row < dropArea.row + dropArea.rowSpan
+
+  const renderGridGuides = () => {
+    const { columns, rows } = sceneGrid(scene.layout)
+    return Array.from({ length: rows * columns }, (_, index) => {
+      const column = index % columns + 1
+      const row = Math.floor(index / columns) + 1
+      return (
+        <div
+          key={index}
+          className={`border border-dashed rounded ${isInDropArea(column, row) ? 'border-blue-400 bg-blue-50/60' : 'border-gray-200'}`}
+          style={{ gridColumn: column, gridRow: row }}
+        />
+      )
+    })
+  }
+
   return (
     <Card className="w-full h-full flex flex-col">
       <CardHeader className="pb-2">
@@ -195,12 +545,120 @@ export function SceneLiveView({
             </div>
           </div>
           <div className="flex gap-2">
+            <Dialog
+              open={!!generatedPage}
+              onOpenChange={(open) => setGeneratedPage(open ? SceneCodegenService.generatePage(scene, componentLibrary) : null)}
+            >
+              <DialogTrigger asChild>
+                <Button size="sm" variant="outline">
+                  <Code className="h-4 w-4 mr-2" />
+                  View Code
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-3xl">
+                <DialogHeader>
+                  <DialogTitle>{generatedPage?.componentName}.tsx</DialogTitle>
+                  <DialogDescription>
+                    Standalone page for this scene. Components are imported from @/components.
+                    {generatedPage && generatedPage.skippedInstances.length > 0 &&
+                      ` ${generatedPage.skippedInstances.length} hidden or unresolved instance(s) were left out.`}
+                  </DialogDescription>
+                </DialogHeader>
+                <pre className="max-h-[60vh] overflow-auto rounded-md bg-muted p-4 text-xs">
+                  {generatedPage?.code}
+                </pre>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="self-end"
+                  onClick={() => generatedPage && navigator.clipboard.writeText(generatedPage.code)}
+                >
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+              </DialogContent>
+            </Dialog>
             <Button size="sm" variant="outline">
               <RotateCcw className="h-4 w-4 mr-2" />
               Reset View
             </Button>
           </div>
         </div>
+
+        {/* Arrange Toolbar */}
+        <div className="flex items-center gap-1 mt-2">
+          {scene.layout.type === 'freeform' && (
+            <>
+              <Button
+                size="sm"
+                variant={snapToGrid ? 'secondary' : 'ghost'}
+                className="h-7 w-7 p-0"
+                title={snapToGrid ? `Snapping to a ${SNAP_GRID_SIZE}px grid; hold Alt while dragging to move freely` : 'Snap to grid'}
+                onClick={() => setSnapToGrid(!snapToGrid)}
+              >
+                <Magnet className="h-4 w-4" />
+              </Button>
+              <div className="w-px h-5 bg-border mx-1" />
+              {ALIGN_COMMANDS.map(({ edge, label, icon: Icon }) => (
+                <Button
+                  key={edge}
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0"
+                  title={movableSelection.length === 1 ? `${label} with the scene` : label}
+                  disabled={movableSelection.length === 0}
+                  onClick={() => handleAlign(edge)}
+                >
+                  <Icon className="h-4 w-4" />
+                </Button>
+              ))}
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0"
+                title="Distribute horizontally"
+                disabled={movableSelection.length < 3}
+                onClick={() => handleDistribute('horizontal')}
+              >
+                <AlignHorizontalDistributeCenter className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0"
+                title="Distribute vertically"
+                disabled={movableSelection.length < 3}
+                onClick={() => handleDistribute('vertical')}
+              >
+                <AlignVerticalDistributeCenter className="h-4 w-4" />
+              </Button>
+              <div className="w-px h-5 bg-border mx-1" />
+            </>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 w-7 p-0"
+            title="Group the selection"
+            disabled={selectedInstances.length < 2}
+            onClick={() => setGroup(`group_${Date.now()}`)}
+          >
+            <Group className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 w-7 p-0"
+            title="Ungroup"
+            disabled={!selectedInstances.some(instance => instance.metadata?.groupId)}
+            onClick={() => setGroup(undefined)}
+          >
+            <Ungroup className="h-4 w-4" />
+          </Button>
+          {selectedIds.length > 1 && (
+            <span className="text-xs text-muted-foreground ml-2">{selectedIds.length} selected</span>
+          )}
+        </div>
       </CardHeader>
 
       <CardContent className="flex-1 p-0">
@@ -213,21 +671,46 @@ export function SceneLiveView({
               width: scene.layout.container.width,
               height: scene.layout.container.height,
               backgroundColor: scene.layout.container.background || '#ffffff',
-              minHeight: '400px'
+              minHeight: '400px',
+              ...canvasLayoutStyle(scene.layout)
             }}
+            onMouseDown={handleCanvasMouseDown}
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
-            onMouseLeave={handleMouseUp}
+            onMouseLeave={endDrag}
           >
             {/* Grid/Layout Guides */}
-            {scene.layout.type === 'grid' && scene.layout.grid && (
-              <div className="absolute inset-0 pointer-events-none">
-                {/* Grid lines could be rendered here */}
+            {scene.layout.type === 'grid' && (
+              <div className="absolute inset-0 pointer-events-none" style={canvasLayoutStyle(scene.layout)}>
+                {renderGridGuides()}
               </div>
             )}
 
-            {/* Component Instances */}
-            {scene.instances.map(renderComponentInstance)}
+            {/* Component Instances, in the order the generated page renders them */}
+            {orderSceneInstances(scene.layout, scene.instances).map(renderComponentInstance)}
+
+            {/* Alignment and Spacing Guides */}
+            {guides.map((guide, index) => (
+              <div
+                key={index}
+                className={`absolute z-50 pointer-events-none ${guide.kind === 'line' ? 'bg-pink-500' : 'bg-orange-400'}`}
+                style={guideStyle(guide)}
+              >
+                {guide.kind === 'gap' && (
+                  <span className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 rounded bg-orange-400 px-1 text-[10px] text-white">
+                    {Math.round(guide.to - guide.from)}
+                  </span>
+                )}
+              </div>
+            ))}
+
+            {/* Marquee */}
+            {marquee && (
+              <div
+                className="absolute z-50 border border-blue-400 bg-blue-100/30 pointer-events-none"
+                style={{ left: marquee.rect.x, top: marquee.rect.y, width: marquee.rect.width, height: marquee.rect.height }}
+              />
+            )}
 
             {/* Empty State */}
             {scene.instances.length === 0 && (
@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Pin, PinOff } from 'lucide-react'
+import { componentScreenshots, componentThumbnail, screenshotLabel, withThumbnail } from '../services/screenshotHistory'
+import { screenshotImageUrl } from '../services/screenshotImages'
+import type { ProjectScreenshot } from '../services/visualDiff'
+import type { ComponentSchema, ProjectSchema } from '../types/schema'
+
+interface ScreenshotHistoryPanelProps {
+  project: ProjectSchema
+  component: ComponentSchema
+  onUpdateProject: (updater: (prev: ProjectSchema) => ProjectSchema) => void
+}
+
+// The screenshot's thumbnail when asked for and kept, otherwise its full image, which is stored apart
+// from the project and loaded
+function ScreenshotImage({ projectId, screenshot, thumbnail, alt, className }: {
+  projectId: string
+  screenshot: ProjectScreenshot
+  thumbnail?: boolean
+  alt: string
+  className: string
+}) {
+  const [src, setSrc] = useState<string>()
+  const kept = thumbnail ? screenshot.thumbnail : undefined
+
+  useEffect(() => {
+    setSrc(undefined)
+    if (kept) return
+    let cancelled = false
+    screenshotImageUrl(projectId, screenshot)
+      .then(url => {
+        if (!cancelled) setSrc(url)
+      })
+      .catch(err => console.warn('Failed to load the screenshot:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [projectId, screenshot, kept])
+
+  const shown = kept || src
+  return shown ? <img src={shown} alt={alt} className={className} /> : <div className={className} />
+}
+
+// The component's stored screenshots as a filmstrip, oldest first, with the selected one enlarged
+// and pinnable as the component's thumbnail
+export function ScreenshotHistoryPanel({ project, component, onUpdateProject }: ScreenshotHistoryPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [isPinning, setIsPinning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const screenshots = componentScreenshots(project, component.id)
+  const selected = screenshots.find(screenshot => screenshot.id === selectedId) || screenshots[screenshots.length - 1]
+  const pinnedId = component.thumbnail?.screenshotId
+
+  const togglePin = async () => {
+    if (!selected) return
+    setError(null)
+    if (selected.id === pinnedId) {
+      onUpdateProject(prev => withThumbnail(prev, component.id, undefined))
+      return
+    }
+    setIsPinning(true)
+    try {
+      const thumbnail = await componentThumbnail(project.id, selected)
+      onUpdateProject(prev => withThumbnail(prev, component.id, thumbnail))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Pinning failed')
+    } finally {
+      setIsPinning(false)
+    }
+  }
+
+  return (
+    <div className="border-t max-h-80 overflow-auto bg-muted/20 text-xs">
+      <div className="flex items-center justify-between px-3 py-1 border-b text-muted-foreground">
+        <span>Screenshot history</span>
+        <span>{screenshots.length} screenshots</span>
+      </div>
+
+      {error && <div className="px-3 py-2 text-red-600">{error}</div>}
+
+      {!selected ? (
+        <div className="px-3 py-2 text-muted-foreground">No screenshots yet; capture the component under Visual changes</div>
+      ) : (
+        <div className="px-3 py-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{new Date(selected.timestamp).toLocaleString()}</span>
+            <span className="text-muted-foreground">{screenshotLabel(selected)}</span>
+            {selected.id === component.visualBaselineId && (
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0">baseline</Badge>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={togglePin}
+              disabled={isPinning}
+              className="h-6 px-2 text-xs gap-1 ml-auto"
+              title={selected.id === pinnedId ? 'Stop using this screenshot as the thumbnail' : 'Use this screenshot as the component thumbnail'}
+            >
+              {selected.id === pinnedId ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+              {selected.id === pinnedId ? 'Unpin' : 'Pin as thumbnail'}
+            </Button>
+          </div>
+          <div className="border rounded bg-white">
+            <ScreenshotImage projectId={project.id} screenshot={selected} alt={`${component.name} screenshot`} className="block min-h-10 max-h-40 mx-auto" />
+          </div>
+
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {screenshots.map(screenshot => (
+              <button
+                key={screenshot.id}
+                type="button"
+                onClick={() => setSelectedId(screenshot.id)}
+                className={`relative flex-shrink-0 border rounded bg-white ${
+                  screenshot.id === selected.id ? 'ring-2 ring-primary' : 'hover:border-primary/50'
+                }`}
+                title={`${new Date(screenshot.timestamp).toLocaleString()} · ${screenshotLabel(screenshot)}`}
+              >
+                <ScreenshotImage projectId={project.id} screenshot={screenshot} thumbnail alt="" className="block h-12 w-auto min-w-8 max-w-24 object-contain" />
+                {screenshot.id === pinnedId && (
+                  <Pin className="absolute top-0.5 right-0.5 h-3 w-3 text-primary" />
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
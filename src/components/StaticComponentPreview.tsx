@@ -1,8 +1,21 @@
-import React, { useState, useEffect, useMemo } from 'react'
+import React, { useState, useEffect, useMemo, useCallback } from 'react'
+import { createPortal } from 'react-dom'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent } from '@/components/ui/card'
 import { RefreshCw, Code, AlertCircle, Eye, EyeOff } from 'lucide-react'
+import { usePreviewModules } from '@/hooks/usePreviewModules'
+import { componentModule } from '@/services/previewModules'
+import { samplePreviewProps, type PreviewProps } from '@/services/previewBridge'
+import { projectBreakpoints } from '@/services/previewDevices'
+import {
+  compileErrorLocation,
+  decodePreviewProps,
+  previewErrorLocations,
+  shadowStylesheet,
+  type PreviewSourceLocation
+} from '@/services/previewRuntime'
+import type { PreviewBundleOptions } from '@/services/previewBundler'
 import type { ProjectSchema, ComponentSchema } from '@/types/schema'
 
 interface StaticComponentPreviewProps {
@@ -11,94 +24,206 @@ interface StaticComponentPreviewProps {
   className?: string
 }
 
-// Component wrapper that provides safe rendering environment
-function ComponentWrapper({ 
-  component, 
-  onError 
-}: { 
-  component: ComponentSchema
-  onError: (error: Error) => void 
-}) {
-  const [hasError, setHasError] = useState(false)
-  const [ComponentToRender, setComponentToRender] = useState<React.ComponentType<any> | null>(null)
+interface PreviewFailure {
+  phase: 'compile' | 'module' | 'render'
+  message: string
+  location: PreviewSourceLocation | null
+  componentStack?: string
+}
 
-  useEffect(() => {
-    if (!component.generatedCode) {
-      setComponentToRender(null)
-      return
+interface PreviewErrorBoundaryProps {
+  children: React.ReactNode
+  onError: (error: unknown, componentStack?: string) => void
+  fallback: (error: unknown, componentStack?: string) => React.ReactNode
+}
+
+// Classes on the element the component renders into; the stylesheet is built to cover them
+const CONTAINER_CLASS = 'bg-background text-foreground font-sans antialiased'
+
+const EXCERPT_CONTEXT_LINES = 2
+
+// Catches errors thrown while the previewed component renders; remount it to try again
+class PreviewErrorBoundary extends React.Component<PreviewErrorBoundaryProps, { error: unknown; componentStack?: string; hasError: boolean }> {
+  state = { error: null as unknown, componentStack: undefined as string | undefined, hasError: false }
+
+  static getDerivedStateFromError(error: unknown) {
+    return { error, hasError: true }
+  }
+
+  componentDidCatch(error: unknown, info: React.ErrorInfo) {
+    this.setState({ componentStack: info.componentStack || undefined })
+    this.props.onError(error, info.componentStack || undefined)
+  }
+
+  render() {
+    if (this.state.hasError) {
+      return this.props.fallback(this.state.error, this.state.componentStack)
     }
+    return this.props.children
+  }
+}
 
-    try {
-      // Create a safe execution environment for the component
-      const componentCode = component.generatedCode
-      
-      // Extract the component function/class from the code
-      // This is a simplified approach - in production you'd want better parsing
-      const functionMatch = componentCode.match(/export\s+default\s+function\s+(\w+)/)
-      const componentName = functionMatch ? functionMatch[1] : component.name
-
-      // Create a mock component that shows the structure
-      const MockComponent = () => {
+// Renders children into a shadow root so neither the app's styles nor the preview's leak across
+function ShadowContainer({ css, children }: { css: string; children: React.ReactNode }) {
+  const [root, setRoot] = useState<ShadowRoot | null>(null)
+
+  const attach = useCallback((host: HTMLDivElement | null) => {
+    if (host) setRoot(host.shadowRoot || host.attachShadow({ mode: 'open' }))
+  }, [])
+
+  return (
+    <div ref={attach}>
+      {root && createPortal(
+        <>
+          <style>{css}</style>
+          <div className={CONTAINER_CLASS}>{children}</div>
+        </>,
+        root
+      )}
+    </div>
+  )
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+// Lines around the failing one, numbered as in the component's source
+function SourceExcerpt({ code, line, column }: { code: string; line: number; column: number }) {
+  const lines = code.split('\n')
+  const first = Math.max(1, line - EXCERPT_CONTEXT_LINES)
+  const last = Math.min(lines.length, line + EXCERPT_CONTEXT_LINES)
+  if (line > lines.length) return null
+
+  return (
+    <pre className="mt-2 rounded bg-gray-900 text-gray-100 text-xs font-mono p-2 overflow-auto">
+      {lines.slice(first - 1, last).map((text, index) => {
+        const number = first + index
+        const isErrorLine = number === line
         return (
-          <div className="border-2 border-dashed border-gray-300 rounded-lg p-4 bg-gray-50">
-            <div className="flex items-center gap-2 mb-3">
-              <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
-              <span className="font-medium text-sm">{component.name}</span>
-              <Badge variant="outline" className="text-xs">{component.source}</Badge>
-            </div>
-            
-            {/* Show props if any */}
-            {Object.keys(component.props).length > 0 && (
-              <div className="space-y-2 mb-3">
-                <div className="text-xs font-medium text-gray-600">Props:</div>
-                {Object.entries(component.props).map(([name, prop]) => (
-                  <div key={name} className="flex items-center gap-2 text-xs">
-                    <div className="w-2 h-2 bg-green-400 rounded-full"></div>
-                    <span className="font-mono">{name}</span>
-                    <span className="text-gray-500">({prop.type})</span>
-                    {prop.required && <span className="text-red-500">*</span>}
-                  </div>
-                ))}
+          <div key={number} className={isErrorLine ? 'bg-red-900/60' : ''}>
+            <span className="inline-block w-8 pr-2 text-right text-gray-500 select-none">{number}</span>
+            {text}
+            {isErrorLine && (
+              <div>
+                <span className="inline-block w-8 pr-2" />
+                <span className="text-red-400">{' '.repeat(Math.max(0, column - 1))}^</span>
               </div>
             )}
-
-            {/* Simulated component content */}
-            <div className="bg-white rounded border p-3 text-center text-gray-600 text-sm">
-              <div className="mb-2">🧩 {componentName} Component</div>
-              <div className="text-xs text-gray-400">
-                {componentCode.includes('useState') && '🔄 Interactive'}
-                {componentCode.includes('useEffect') && ' ⚡ Effects'}
-                {componentCode.includes('className') && ' 🎨 Styled'}
-              </div>
-            </div>
           </div>
         )
-      }
-
-      setComponentToRender(() => MockComponent)
-      setHasError(false)
-    } catch (error) {
-      console.error('Component preview error:', error)
-      setHasError(true)
-      onError(error as Error)
-    }
-  }, [component.generatedCode, component.name, component.props, component.source, onError])
+      })}
+    </pre>
+  )
+}
 
-  if (hasError) {
-    return (
-      <div className="border border-red-200 rounded-lg p-4 bg-red-50">
-        <div className="flex items-center gap-2 text-red-700">
-          <AlertCircle className="h-4 w-4" />
-          <span className="font-medium text-sm">Preview Error</span>
-        </div>
-        <div className="text-xs text-red-600 mt-1">
-          Component code could not be rendered safely
-        </div>
+function PreviewFailureDetails({ failure, sources }: { failure: PreviewFailure; sources: Map<string, { path: string; code: string }> }) {
+  const { location } = failure
+  const source = location ? sources.get(location.moduleId) : undefined
+  const title = failure.phase === 'compile' ? 'Compile Error' : failure.phase === 'module' ? 'Module Error' : 'Render Error'
+
+  return (
+    <div className="border border-red-200 rounded-lg p-4 bg-red-50">
+      <div className="flex items-center gap-2 text-red-700">
+        <AlertCircle className="h-4 w-4" />
+        <span className="font-medium text-sm">{title}</span>
+        {location && (
+          <span className="text-xs font-mono text-red-500">
+            {source?.path || location.moduleId}:{location.line}:{location.column}
+          </span>
+        )}
       </div>
-    )
-  }
+      <div className="text-xs text-red-600 mt-1 whitespace-pre-wrap break-words">{failure.message}</div>
+      {location && source && <SourceExcerpt code={source.code} line={location.line} column={location.column} />}
+      {failure.componentStack && (
+        <pre className="mt-2 text-[11px] text-red-500 whitespace-pre-wrap">{failure.componentStack.trim()}</pre>
+      )}
+    </div>
+  )
+}
 
-  if (!ComponentToRender) {
+function describeFailure(failure: PreviewFailure, sources: Map<string, { path: string; code: string }>): string {
+  const { location } = failure
+  const where = location ? ` (${sources.get(location.moduleId)?.path || location.moduleId}:${location.line}:${location.column})` : ''
+  return `${failure.phase} error: ${failure.message}${where}`
+}
+
+// Compiles the component with everything it imports and renders it in-process, isolated in a
+// shadow root and behind an error boundary; failures are mapped back to lines of the source
+function ComponentWrapper({
+  project,
+  component,
+  onError
+}: {
+  project: ProjectSchema
+  component: ComponentSchema
+  onError: (message: string) => void
+}) {
+  const entry = componentModule(component)
+
+  // Only what the bundle is built from; other changes to the project must not rebuild it
+  const bundleKey = JSON.stringify([
+    project.components.map(c => [c.id, c.name, c.filePath, c.generatedCode]),
+    project.plan?.designSystem?.breakpoints
+  ])
+
+  const bundleOptions = useMemo<PreviewBundleOptions | null>(() => {
+    if (!component.generatedCode) return null
+    return {
+      modules: [componentModule(component)],
+      library: project.components
+        .filter(c => c.id !== component.id && c.generatedCode)
+        .map(componentModule),
+      markup: [CONTAINER_CLASS],
+      breakpoints: projectBreakpoints(project)
+    }
+  }, [bundleKey, component.id]) // component and project are captured through bundleKey
+
+  const { registry, moduleErrors, css, error, isBuilding } = usePreviewModules(bundleOptions)
+
+  // Project sources by module id, for mapping error locations back to files
+  const sources = useMemo(() => new Map(
+    project.components
+      .filter(c => c.generatedCode)
+      .map(c => {
+        const module = componentModule(c)
+        return [module.id, { path: module.path || module.id, code: module.code }] as const
+      })
+  ), [bundleKey])
+
+  // Errors point at the innermost frame in a project component, or failing that the innermost preview frame
+  const locate = useCallback((error: unknown) => {
+    const locations = previewErrorLocations(error)
+    return locations.find(location => sources.has(location.moduleId)) || locations[0] || null
+  }, [sources])
+
+  const shadowCss = useMemo(() => shadowStylesheet(css), [css])
+  const props = useMemo(() => decodePreviewProps(samplePreviewProps(component.props)), [component.props])
+
+  // Compiling the entry and loading its modules happen outside React; render errors reach the boundary
+  const loaded = useMemo<{ Component: React.ComponentType<PreviewProps> } | { failure: PreviewFailure } | null>(() => {
+    if (!registry) return null
+    const compileError = moduleErrors[entry.id]
+    if (compileError) {
+      return { failure: { phase: 'compile', message: compileError, location: compileErrorLocation(entry.id, compileError) } }
+    }
+    try {
+      return { Component: registry.component(entry.id) }
+    } catch (err) {
+      return { failure: { phase: 'module', message: errorMessage(err), location: locate(err) } }
+    }
+  }, [registry, moduleErrors, entry.id, locate])
+
+  const failure = loaded && 'failure' in loaded ? loaded.failure : null
+  useEffect(() => {
+    if (failure) onError(describeFailure(failure, sources))
+  }, [failure, sources, onError])
+
+  const handleRenderError = useCallback((err: unknown, componentStack?: string) => {
+    onError(describeFailure({ phase: 'render', message: errorMessage(err), location: locate(err), componentStack }, sources))
+  }, [locate, sources, onError])
+
+  if (!component.generatedCode) {
     return (
       <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
         <div className="flex items-center gap-2 text-gray-500">
@@ -109,23 +234,64 @@ function ComponentWrapper({
     )
   }
 
+  if (error) {
+    return (
+      <PreviewFailureDetails
+        failure={{ phase: 'compile', message: `Failed to compile preview: ${error}`, location: null }}
+        sources={sources}
+      />
+    )
+  }
+
+  if (!loaded) {
+    return (
+      <div className="flex items-center justify-center gap-2 p-4 text-sm text-muted-foreground">
+        <RefreshCw className={`h-4 w-4 ${isBuilding ? 'animate-spin' : ''}`} />
+        Compiling preview...
+      </div>
+    )
+  }
+
+  if ('failure' in loaded) {
+    return <PreviewFailureDetails failure={loaded.failure} sources={sources} />
+  }
+
+  const { Component } = loaded
   return (
-    <div className="relative">
-      <ComponentToRender />
-    </div>
+    <PreviewErrorBoundary
+      key={entry.id}
+      onError={handleRenderError}
+      fallback={(err, componentStack) => (
+        <PreviewFailureDetails
+          failure={{ phase: 'render', message: errorMessage(err), location: locate(err), componentStack }}
+          sources={sources}
+        />
+      )}
+    >
+      <ShadowContainer css={shadowCss}>
+        <Component {...props} />
+      </ShadowContainer>
+    </PreviewErrorBoundary>
   )
 }
 
 export function StaticComponentPreview({ project, componentId, className }: StaticComponentPreviewProps) {
   const [showCode, setShowCode] = useState(false)
   const [errors, setErrors] = useState<string[]>([])
+  const [reloadKey, setReloadKey] = useState(0)
 
   const selectedComponent = useMemo(() => {
     return componentId ? project.components.find(c => c.id === componentId) : null
   }, [componentId, project.components])
 
-  const handleError = (error: Error) => {
-    setErrors(prev => [...prev, error.message])
+  const handleError = useCallback((message: string) => {
+    setErrors(prev => prev.includes(message) ? prev : [...prev, message])
+  }, [])
+
+  // Remounting re-evaluates the modules, resetting component state and the error boundary
+  const reload = () => {
+    setErrors([])
+    setReloadKey(key => key + 1)
   }
 
   const clearErrors = () => {
@@ -179,8 +345,9 @@ export function StaticComponentPreview({ project, componentId, className }: Stat
           <Button 
             variant="ghost" 
             size="sm"
-            onClick={() => window.location.reload()}
+            onClick={reload}
             className="h-6 px-2 text-xs"
+            title="Reload preview"
           >
             <RefreshCw className="h-3 w-3" />
           </Button>
@@ -203,7 +370,9 @@ export function StaticComponentPreview({ project, componentId, className }: Stat
           <div className="p-4">
             <Card>
               <CardContent className="p-4">
-                <ComponentWrapper 
+                <ComponentWrapper
+                  key={`${selectedComponent.id}-${reloadKey}`}
+                  project={project}
                   component={selectedComponent}
                   onError={handleError}
                 />
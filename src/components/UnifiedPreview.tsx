@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback, useMemo } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
@@ -6,12 +6,18 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Eye, Play, Square, Layers, Component } from 'lucide-react'
 import { SceneInstanceManager } from './SceneInstanceManager'
-import { useSceneLiveView } from './SceneLiveView'
+import { SceneLiveView, useSceneLiveView } from './SceneLiveView'
 import { SceneCreationModal } from './SceneCreationModal'
 import { EmbeddedPreview } from './EmbeddedPreview'
 import { EmbeddedScenePreview } from './EmbeddedScenePreview'
+import { PropsPlayground } from './PropsPlayground'
+import { DeviceToolbar } from './DeviceToolbar'
 import { useSceneManager } from '../hooks/useSceneManager'
-import { ProjectSchema, ComponentSchema, ComponentInstance } from '../types/schema'
+import { projectHistory } from '../services/projectHistory'
+import { DEFAULT_VIEWPORT, previewFrames, designBreakpoints, type PreviewViewport } from '../services/previewDevices'
+import { withRuntimeError, withoutRuntimeErrors, samplePreviewProps, type PreviewEvent, type PreviewProps } from '../services/previewBridge'
+import { withAccessibilityAudits } from '../services/accessibilityAudit'
+import { ProjectSchema, ComponentSchema, ComponentInstance, PropPreset } from '../types/schema'
 import type { UIActions } from '../services/agentTools'
 
 interface UnifiedPreviewProps {
@@ -24,6 +30,13 @@ export function UnifiedPreview({ project, onUpdateProject, uiActions }: UnifiedP
   const [selectedComponentId, setSelectedComponentId] = useState<string>('')
   const [selectedInstanceId, setSelectedInstanceId] = useState<string>('')
   const [previewMode, setPreviewMode] = useState<'component' | 'scene'>('component')
+  // Scenes are arranged in the editor and checked in the rendered preview
+  const [sceneView, setSceneView] = useState<'edit' | 'preview'>('edit')
+  const [viewport, setViewport] = useState<PreviewViewport>(DEFAULT_VIEWPORT)
+
+  const designedBreakpoints = project.plan?.designSystem?.breakpoints
+  const breakpoints = useMemo(() => designBreakpoints(designedBreakpoints), [designedBreakpoints])
+  const frames = useMemo(() => previewFrames(viewport, breakpoints), [viewport, breakpoints])
   
   // Auto-select first component when project loads or components change
   useEffect(() => {
@@ -63,6 +76,26 @@ export function UnifiedPreview({ project, onUpdateProject, uiActions }: UnifiedP
     }
   }, [project.components.length, sceneManager]) // Only re-run when component count changes
 
+  // Record what the preview reports on the component, where the agent can see it. These are
+  // observations rather than edits, so they stay out of the undo history.
+  const handlePreviewEvent = useCallback((event: PreviewEvent) => {
+    if (event.type === 'render-error' && event.componentId) {
+      const { componentId, error } = event
+      projectHistory.runWithSource({ type: 'preview' }, () => {
+        onUpdateProject(prev => withRuntimeError(prev, componentId, error))
+      })
+    } else if (event.type === 'rendered') {
+      projectHistory.runWithSource({ type: 'preview' }, () => {
+        onUpdateProject(prev => withoutRuntimeErrors(prev, event.componentId))
+      })
+    } else if (event.type === 'accessibility-audit' && 'audits' in event) {
+      const { audits } = event
+      projectHistory.runWithSource({ type: 'preview' }, () => {
+        onUpdateProject(prev => withAccessibilityAudits(prev, audits))
+      })
+    }
+  }, [onUpdateProject])
+
   const handleComponentSelect = (componentId: string) => {
     setSelectedComponentId(componentId)
     // Highlight instances in scene
@@ -99,7 +132,39 @@ export function UnifiedPreview({ project, onUpdateProject, uiActions }: UnifiedP
   const availableComponents = project.components || []
   const selectedComponent = availableComponents.find(c => c.id === selectedComponentId)
 
-  const ComponentTestingArea = () => (
+  // Playground values per component, kept while switching between components
+  const [propValues, setPropValues] = useState<Record<string, PreviewProps>>({})
+  const selectedProps = selectedComponent?.props
+  const selectedPropValues = useMemo(
+    () => (selectedProps ? propValues[selectedComponentId] || samplePreviewProps(selectedProps) : undefined),
+    [propValues, selectedComponentId, selectedProps]
+  )
+
+  const handlePropValuesChange = (values: PreviewProps) => {
+    setPropValues(prev => ({ ...prev, [selectedComponentId]: values }))
+  }
+
+  const updatePropPresets = (componentId: string, update: (presets: PropPreset[]) => PropPreset[]) => {
+    onUpdateProject(prev => ({
+      ...prev,
+      components: prev.components.map(c => (c.id === componentId ? { ...c, propPresets: update(c.propPresets || []) } : c)),
+      updatedAt: new Date().toISOString()
+    }))
+  }
+
+  const handleSavePreset = (name: string, values: PreviewProps) => {
+    updatePropPresets(selectedComponentId, presets => [
+      ...presets.filter(preset => preset.name !== name),
+      { id: `preset-${Date.now()}`, name, values, createdAt: new Date().toISOString() }
+    ])
+  }
+
+  const handleDeletePreset = (presetId: string) => {
+    updatePropPresets(selectedComponentId, presets => presets.filter(preset => preset.id !== presetId))
+  }
+
+  // Called as a function rather than rendered as a component, so playground inputs keep focus across renders
+  const renderComponentTestingArea = () => (
     <div className="h-full flex flex-col">
       <CardContent className="flex-1 flex flex-col space-y-3 p-4">
         {/* Component Selector */}
@@ -110,7 +175,12 @@ export function UnifiedPreview({ project, onUpdateProject, uiActions }: UnifiedP
           <SelectContent>
             {availableComponents.map(component => (
               <SelectItem key={component.id} value={component.id}>
-                {component.name}
+                <span className="flex items-center gap-2">
+                  {component.thumbnail && (
+                    <img src={component.thumbnail.dataUrl} alt="" className="h-5 w-8 object-cover object-top rounded-sm border bg-white" />
+                  )}
+                  {component.name}
+                </span>
               </SelectItem>
             ))}
           </SelectContent>
@@ -132,6 +202,18 @@ export function UnifiedPreview({ project, onUpdateProject, uiActions }: UnifiedP
           </div>
         )}
 
+        {/* Props Playground */}
+        {selectedComponent && selectedPropValues && (
+          <div className="flex-1 min-h-0 overflow-auto border-t pt-3">
+            <PropsPlayground
+              component={selectedComponent}
+              values={selectedPropValues}
+              onChange={handlePropValuesChange}
+              onSavePreset={handleSavePreset}
+              onDeletePreset={handleDeletePreset}
+            />
+          </div>
+        )}
       </CardContent>
     </div>
   )
@@ -174,6 +256,15 @@ export function UnifiedPreview({ project, onUpdateProject, uiActions }: UnifiedP
           </TabsList>
         </Tabs>
 
+        {previewMode === 'scene' && (
+          <Tabs value={sceneView} onValueChange={(value) => setSceneView(value as 'edit' | 'preview')}>
+            <TabsList className="h-8">
+              <TabsTrigger value="edit" className="text-xs">Edit</TabsTrigger>
+              <TabsTrigger value="preview" className="text-xs">Preview</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
+
         {project.scenes?.length > 0 && (
           <Select 
             value={activeScene?.id || ''} 
@@ -191,13 +282,20 @@ export function UnifiedPreview({ project, onUpdateProject, uiActions }: UnifiedP
             </SelectContent>
           </Select>
         )}
+
+        <DeviceToolbar
+          viewport={viewport}
+          breakpoints={breakpoints}
+          onChange={setViewport}
+          className="ml-auto"
+        />
       </div>
 
       {/* Preview Content - Side by side layout */}
       <div className="flex-1 flex gap-4">
         {/* Left Side - Component Testing or Scene Composition */}
         <div className="w-80 flex-shrink-0">
-          {previewMode === 'component' && <ComponentTestingArea />}
+          {previewMode === 'component' && renderComponentTestingArea()}
           {previewMode === 'scene' && <SceneCompositionArea />}
         </div>
         
@@ -208,12 +306,27 @@ export function UnifiedPreview({ project, onUpdateProject, uiActions }: UnifiedP
               project={project}
               focusComponent={selectedComponentId}
               className="h-full"
+              onPreviewEvent={handlePreviewEvent}
+              props={selectedPropValues}
+              frames={frames}
+              zoom={viewport.zoom}
+              onUpdateProject={onUpdateProject}
+            />
+          ) : sceneView === 'edit' ? (
+            <SceneLiveView
+              scene={liveScene}
+              componentLibrary={project.components}
+              onInstanceSelect={handleInstanceSelect}
+              selectedInstanceId={selectedInstanceId}
             />
           ) : (
             <EmbeddedScenePreview 
               project={project}
               scene={activeScene}
               className="h-full"
+              onPreviewEvent={handlePreviewEvent}
+              frames={frames}
+              zoom={viewport.zoom}
             />
           )}
         </div>
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Camera, Check, X } from 'lucide-react'
+import { projectHistory } from '../services/projectHistory'
+import {
+  approveVisualDiff,
+  compareComponentScreenshots,
+  componentScreenshot,
+  describeVisualDiff,
+  diffImages,
+  rejectVisualDiff,
+  withScreenshot,
+  withVisualDiff
+} from '../services/visualDiff'
+import { screenshotImageUrl } from '../services/screenshotImages'
+import type { PreviewScreenshot } from '../services/previewBridge'
+import type { ComponentSchema, ProjectSchema, VisualDiff } from '../types/schema'
+
+interface VisualDiffPanelProps {
+  project: ProjectSchema
+  component: ComponentSchema
+  canCapture: boolean // False while the component has no code to capture
+  onCapture: () => Promise<PreviewScreenshot>
+  onUpdateProject: (updater: (prev: ProjectSchema) => ProjectSchema) => void
+}
+
+const STATUS_STYLES: Record<VisualDiff['status'], string> = {
+  pending: 'bg-amber-100 text-amber-700 border-amber-200',
+  approved: 'bg-green-100 text-green-700 border-green-200',
+  rejected: 'bg-red-100 text-red-700 border-red-200'
+}
+
+function DiffImage({ label, src }: { label: string; src?: string }) {
+  return (
+    <div className="flex-1 min-w-0 space-y-1">
+      <div className="text-muted-foreground">{label}</div>
+      <div className="border rounded bg-white">
+        {src ? <img src={src} alt={label} className="block w-full" /> : <div className="h-20" />}
+      </div>
+    </div>
+  )
+}
+
+// Compares the component's screenshots and lets the user approve the change as the new baseline
+// or reject it
+export function VisualDiffPanel({ project, component, canCapture, onCapture, onUpdateProject }: VisualDiffPanelProps) {
+  const [isCapturing, setIsCapturing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [images, setImages] = useState<{ before: string; after: string; diff?: string } | null>(null)
+
+  const visualDiff = component.visualDiff
+  const screenshots = project.screenshots || []
+  const before = screenshots.find(screenshot => screenshot.id === visualDiff?.beforeScreenshotId)
+  const after = screenshots.find(screenshot => screenshot.id === visualDiff?.afterScreenshotId)
+
+  // The images are stored apart from the project, and the diff image is not stored at all; it is
+  // recomputed from the two screenshots
+  useEffect(() => {
+    setImages(null)
+    if (!before || !after) return
+    let cancelled = false
+    Promise.all([screenshotImageUrl(project.id, before), screenshotImageUrl(project.id, after)])
+      .then(async ([beforeUrl, afterUrl]) => {
+        if (cancelled || !beforeUrl || !afterUrl) return
+        setImages({ before: beforeUrl, after: afterUrl })
+        const diff = await diffImages(beforeUrl, afterUrl)
+        if (!cancelled) setImages({ before: beforeUrl, after: afterUrl, diff: diff.diffDataUrl })
+      })
+      .catch(err => console.warn('Failed to diff screenshots:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [project.id, before, after])
+
+  const capture = async () => {
+    setIsCapturing(true)
+    setError(null)
+    try {
+      const screenshot = await componentScreenshot(project.id, component.id, await onCapture())
+      const next = withScreenshot(project, screenshot)
+      const diff = await compareComponentScreenshots(next, component.id)
+      // Screenshots are observations rather than edits, so they stay out of the undo history
+      projectHistory.runWithSource({ type: 'preview' }, () => {
+        onUpdateProject(prev => {
+          const updated = withScreenshot(prev, screenshot)
+          return diff ? withVisualDiff(updated, component.id, diff) : updated
+        })
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Capture failed')
+    } finally {
+      setIsCapturing(false)
+    }
+  }
+
+  return (
+    <div className="border-t max-h-72 overflow-auto bg-muted/20 text-xs">
+      <div className="flex items-center justify-between px-3 py-1 border-b text-muted-foreground">
+        <span>Visual changes</span>
+        <Button variant="ghost" size="sm" onClick={capture} disabled={!canCapture || isCapturing} className="h-5 px-2 text-xs gap-1">
+          <Camera className="h-3 w-3" />
+          {isCapturing ? 'Capturing...' : 'Capture'}
+        </Button>
+      </div>
+
+      {error && <div className="px-3 py-2 text-red-600">{error}</div>}
+
+      {!visualDiff ? (
+        <div className="px-3 py-2 text-muted-foreground">
+          {component.visualBaselineId ? 'Capture the component to compare it with its baseline' : 'Capture the component twice to compare its screenshots'}
+        </div>
+      ) : (
+        <div className="px-3 py-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className={`text-[10px] px-1.5 py-0 ${STATUS_STYLES[visualDiff.status]}`}>
+              {visualDiff.status}
+            </Badge>
+            <span className="flex-1">{describeVisualDiff(visualDiff)}</span>
+            {visualDiff.status === 'pending' && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 text-xs gap-1"
+                  onClick={() => onUpdateProject(prev => approveVisualDiff(prev, component.id))}
+                  title="Make this screenshot the baseline"
+                >
+                  <Check className="h-3 w-3" />
+                  Approve
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 text-xs gap-1"
+                  onClick={() => onUpdateProject(prev => rejectVisualDiff(prev, component.id))}
+                  title="Keep the current baseline"
+                >
+                  <X className="h-3 w-3" />
+                  Reject
+                </Button>
+              </>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <DiffImage label={visualDiff.against === 'baseline' ? 'Baseline' : 'Before'} src={images?.before} />
+            <DiffImage label="After" src={images?.after} />
+            {/* Changed pixels in red, with the changed regions outlined */}
+            <DiffImage label="Diff" src={images?.diff} />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import React, { useRef, useEffect } from 'react'
 import { EditorView, keymap, highlightActiveLine, lineNumbers } from '@codemirror/view'
 import { EditorState } from '@codemirror/state'
+import { lintGutter, setDiagnostics, type Diagnostic } from '@codemirror/lint'
 import { javascript } from '@codemirror/lang-javascript'
 import { oneDark } from '@codemirror/theme-one-dark'
 import { indentOnInput, bracketMatching, foldGutter, foldKeymap } from '@codemirror/language'
@@ -10,6 +11,7 @@ import { searchKeymap, highlightSelectionMatches } from '@codemirror/search'
 import { autocompletion, completionKeymap, closeBrackets } from '@codemirror/autocomplete'
 import { defaultKeymap, history, historyKeymap } from '@codemirror/commands'
 import { basicSetup } from 'codemirror'
+import type { CodeDiagnostic } from '@/types/schema'
 
 interface CodeEditorProps {
   code: string
@@ -18,6 +20,20 @@ interface CodeEditorProps {
   readOnly?: boolean
   onChange?: (code: string) => void
   className?: string
+  diagnostics?: CodeDiagnostic[] // Shown as inline markers
+}
+
+// Clamp to the document so markers for since-edited code never throw
+function toLintDiagnostics(diagnostics: CodeDiagnostic[], length: number): Diagnostic[] {
+  return diagnostics.map(diagnostic => {
+    const from = Math.min(diagnostic.start, length)
+    return {
+      from,
+      to: Math.min(from + diagnostic.length, length),
+      severity: diagnostic.severity,
+      message: `${diagnostic.message} (TS${diagnostic.code})`
+    }
+  })
 }
 
 export function CodeEditor({
@@ -26,7 +42,8 @@ export function CodeEditor({
   theme = 'dark',
   readOnly = true,
   onChange,
-  className = ''
+  className = '',
+  diagnostics
 }: CodeEditorProps) {
   const editorRef = useRef<HTMLDivElement>(null)
   const viewRef = useRef<EditorView | null>(null)
@@ -45,6 +62,10 @@ export function CodeEditor({
       EditorState.readOnly.of(readOnly)
     ]
 
+    if (diagnostics) {
+      extensions.push(lintGutter())
+    }
+
     if (theme === 'dark') {
       extensions.push(oneDark)
     }
@@ -78,6 +99,12 @@ export function CodeEditor({
     }
   }, [code])
 
+  useEffect(() => {
+    const view = viewRef.current
+    if (!view || !diagnostics) return
+    view.dispatch(setDiagnostics(view.state, toLintDiagnostics(diagnostics, view.state.doc.length)))
+  }, [code, diagnostics])
+
   return (
     <div className={`overflow-hidden rounded-md border ${className}`}>
       <div ref={editorRef} className="min-h-[100px]" />
@@ -0,0 +1,196 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  previewBundler,
+  documentMarkup,
+  type BundledPreviewModule,
+  type PreviewDocumentOptions
+} from '@/services/previewBundler'
+import { hookSignature, type PreviewEvent, type PreviewHotUpdate } from '@/services/previewBridge'
+import { usePreviewBridge } from './usePreviewBridge'
+
+const HOT_UPDATE_TIMEOUT_MS = 5000
+
+// What the running document was last built or updated from
+interface AppliedDocument {
+  shape: string
+  modules: Map<string, BundledPreviewModule>
+  css: string
+  sections: Record<string, string>
+}
+
+// Everything a hot update cannot change; when it differs the document has to be rebuilt
+function documentShape(options: PreviewDocumentOptions): string {
+  const { modules: _modules, library: _library, sections, ...rest } = options
+  return JSON.stringify({ ...rest, sections: Object.keys(sections || {}) })
+}
+
+function sameModule(previous: BundledPreviewModule | undefined, next: BundledPreviewModule): boolean {
+  return !!previous && previous.code === next.code && JSON.stringify(previous.dependencies) === JSON.stringify(next.dependencies)
+}
+
+// Keeps one preview document mounted and sends it only what changed: redefined modules, sections
+// and the stylesheet. A new document is built when the options change shape, when the preview is
+// not running yet, or when it cannot apply an update.
+export function useHotPreview(options: PreviewDocumentOptions | null, onEvent?: (event: PreviewEvent) => void) {
+  const [html, setHtml] = useState<string | null>(null)
+  const [frameKey, setFrameKey] = useState(0) // Changes with every full build, even to identical html
+  const [moduleErrors, setModuleErrors] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [isBuilding, setIsBuilding] = useState(false)
+  const [lastUpdate, setLastUpdate] = useState<'reload' | 'hot' | null>(null)
+
+  const appliedRef = useRef<AppliedDocument | null>(null)
+  const pendingRef = useRef(new Map<string, ReturnType<typeof setTimeout>>())
+  const buildIdRef = useRef(0) // Only the latest build or update may land
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+  const onEventRef = useRef(onEvent)
+  onEventRef.current = onEvent
+
+  const clearPending = useCallback(() => {
+    pendingRef.current.forEach(timer => clearTimeout(timer))
+    pendingRef.current.clear()
+  }, [])
+
+  const rebuild = useCallback((buildOptions: PreviewDocumentOptions) => {
+    const buildId = ++buildIdRef.current
+    clearPending()
+    setIsBuilding(true)
+    previewBundler.buildDocument(buildOptions)
+      .then(document => {
+        if (buildId !== buildIdRef.current) return
+        appliedRef.current = {
+          shape: documentShape(buildOptions),
+          modules: new Map(document.modules.map(module => [module.id, module])),
+          css: document.css,
+          sections: buildOptions.sections || {}
+        }
+        setHtml(document.html)
+        setFrameKey(key => key + 1)
+        setModuleErrors(document.moduleErrors)
+        setError(null)
+        setLastUpdate('reload')
+      })
+      .catch(err => {
+        if (buildId !== buildIdRef.current) return
+        console.warn('Failed to build preview document:', err)
+        setError(err instanceof Error ? err.message : 'Failed to build preview')
+      })
+      .finally(() => {
+        if (buildId === buildIdRef.current) setIsBuilding(false)
+      })
+  }, [clearPending])
+
+  const handleEvent = useCallback((event: PreviewEvent) => {
+    if (event.type === 'hot-update') {
+      const timer = pendingRef.current.get(event.updateId)
+      if (timer !== undefined) {
+        clearTimeout(timer)
+        pendingRef.current.delete(event.updateId)
+        if (event.status === 'applied') {
+          setLastUpdate('hot')
+        } else if (optionsRef.current) {
+          console.warn('Preview hot update failed, reloading:', event.reason)
+          rebuild(optionsRef.current)
+        }
+      }
+    }
+    onEventRef.current?.(event)
+  }, [rebuild])
+
+  const bridge = usePreviewBridge(html, handleEvent)
+  const isReadyRef = useRef(bridge.isReady)
+  isReadyRef.current = bridge.isReady
+  const { send } = bridge
+
+  useEffect(() => {
+    if (!options) {
+      buildIdRef.current++
+      clearPending()
+      appliedRef.current = null
+      setHtml(null)
+      setModuleErrors({})
+      setIsBuilding(false)
+      return
+    }
+
+    const applied = appliedRef.current
+    if (!applied || applied.shape !== documentShape(options) || !isReadyRef.current) {
+      rebuild(options)
+      return
+    }
+
+    const buildId = ++buildIdRef.current
+    setIsBuilding(true)
+    previewBundler.bundleModules({
+      modules: options.modules || [],
+      library: options.library,
+      markup: documentMarkup(options),
+      breakpoints: options.breakpoints
+    })
+      .then(bundle => {
+        if (buildId !== buildIdRef.current) return
+        const changed = bundle.modules.filter(module => !sameModule(applied.modules.get(module.id), module))
+        const remount = changed
+          .filter(module => {
+            const previous = applied.modules.get(module.id)
+            return previous && hookSignature(previous.code) !== hookSignature(module.code)
+          })
+          .map(module => module.id)
+        const sections = Object.fromEntries(
+          Object.entries(options.sections || {}).filter(([id, markup]) => applied.sections[id] !== markup)
+        )
+        const css = bundle.css !== applied.css ? bundle.css : undefined
+
+        appliedRef.current = {
+          shape: applied.shape,
+          modules: new Map(bundle.modules.map(module => [module.id, module])),
+          css: bundle.css,
+          sections: options.sections || {}
+        }
+        setModuleErrors(bundle.moduleErrors)
+        setError(null)
+        if (changed.length === 0 && css === undefined && Object.keys(sections).length === 0) return
+
+        const update: PreviewHotUpdate = {
+          type: 'hot-update',
+          updateId: `hot-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          modules: changed,
+          remount,
+          css,
+          sections
+        }
+        // A document that never answers is replaced
+        pendingRef.current.set(update.updateId, setTimeout(() => {
+          pendingRef.current.delete(update.updateId)
+          if (optionsRef.current) rebuild(optionsRef.current)
+        }, HOT_UPDATE_TIMEOUT_MS))
+        send(update)
+      })
+      .catch(err => {
+        if (buildId !== buildIdRef.current) return
+        console.warn('Failed to compile preview update:', err)
+        setError(err instanceof Error ? err.message : 'Failed to compile preview')
+      })
+      .finally(() => {
+        if (buildId === buildIdRef.current) setIsBuilding(false)
+      })
+  }, [options, rebuild, clearPending, send])
+
+  useEffect(() => clearPending, [clearPending])
+
+  const reload = useCallback(() => {
+    if (optionsRef.current) rebuild(optionsRef.current)
+  }, [rebuild])
+
+  return {
+    ...bridge,
+    html,
+    frameKey,
+    moduleErrors,
+    error,
+    isBuilding,
+    lastUpdate,
+    reload
+  }
+}
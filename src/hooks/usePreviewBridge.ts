@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  isPreviewEvent,
+  PREVIEW_COMMAND_SOURCE,
+  type PreviewCommand,
+  type PreviewConsoleEntry,
+  type PreviewEvent,
+  type PreviewReply,
+  type PreviewScreenshot
+} from '@/services/previewBridge'
+import { loadAxeSource } from '@/services/accessibilityAudit'
+import type { AccessibilityAudit } from '@/types/schema'
+
+const MAX_CONSOLE_ENTRIES = 200
+const SCREENSHOT_TIMEOUT_MS = 10000
+const AUDIT_TIMEOUT_MS = 30000
+
+interface PendingRequest {
+  resolve: (reply: PreviewReply) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+type PreviewTarget = { instanceId?: string; componentId?: string }
+
+// Talks to the preview document in the iframe given frameRef. Commands sent before the document
+// reports ready are queued; a new html string or a new iframe means a document that must report
+// ready again. A new html string drops the commands queued for the old document, and either fails
+// the requests the old document has not answered.
+export function usePreviewBridge(html: string | null, onEvent?: (event: PreviewEvent) => void) {
+  const frameElementRef = useRef<HTMLIFrameElement | null>(null)
+  const [isReady, setIsReady] = useState(false)
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null)
+  const [consoleEntries, setConsoleEntries] = useState<PreviewConsoleEntry[]>([])
+
+  const readyRef = useRef(false)
+  const queueRef = useRef<PreviewCommand[]>([])
+  const requestsRef = useRef(new Map<string, PendingRequest>())
+  const onEventRef = useRef(onEvent)
+  onEventRef.current = onEvent
+
+  const rejectRequests = useCallback((message: string) => {
+    requestsRef.current.forEach(pending => {
+      clearTimeout(pending.timer)
+      pending.reject(new Error(message))
+    })
+    requestsRef.current.clear()
+  }, [])
+
+  const frameRef = useCallback((element: HTMLIFrameElement | null) => {
+    if (element === frameElementRef.current) return
+    if (frameElementRef.current) rejectRequests('Preview was replaced before it answered')
+    frameElementRef.current = element
+    readyRef.current = false
+    setIsReady(false)
+  }, [rejectRequests])
+
+  const post = useCallback((command: PreviewCommand) => {
+    frameElementRef.current?.contentWindow?.postMessage({ ...command, source: PREVIEW_COMMAND_SOURCE }, '*')
+  }, [])
+
+  useEffect(() => {
+    readyRef.current = false
+    setIsReady(false)
+    queueRef.current = []
+    rejectRequests('Preview was replaced before it answered')
+    setConsoleEntries([])
+  }, [html, rejectRequests])
+
+  useEffect(() => {
+    const handleMessage = (message: MessageEvent) => {
+      const frame = frameElementRef.current
+      if (!frame || message.source !== frame.contentWindow || !isPreviewEvent(message.data)) return
+      const event = message.data
+
+      switch (event.type) {
+        case 'ready': {
+          readyRef.current = true
+          setIsReady(true)
+          const queued = queueRef.current
+          queueRef.current = []
+          queued.forEach(post)
+          break
+        }
+        case 'resize':
+          setSize({ width: event.width, height: event.height })
+          break
+        case 'console':
+          setConsoleEntries(entries => [...entries, event.entry].slice(-MAX_CONSOLE_ENTRIES))
+          break
+        case 'screenshot':
+        case 'accessibility-audit': {
+          const pending = requestsRef.current.get(event.requestId)
+          if (!pending) break
+          requestsRef.current.delete(event.requestId)
+          clearTimeout(pending.timer)
+          if ('error' in event) pending.reject(new Error(event.error))
+          else pending.resolve(event)
+          break
+        }
+      }
+
+      onEventRef.current?.(event)
+    }
+
+    window.addEventListener('message', handleMessage)
+    return () => window.removeEventListener('message', handleMessage)
+  }, [post])
+
+  // Fail outstanding requests once nobody can answer them
+  useEffect(() => () => rejectRequests('Preview closed before it answered'), [rejectRequests])
+
+  const send = useCallback((command: PreviewCommand) => {
+    if (readyRef.current) {
+      post(command)
+    } else {
+      queueRef.current.push(command)
+    }
+  }, [post])
+
+  const request = useCallback((command: (requestId: string) => PreviewCommand, timeoutMs: number, timeoutMessage: string) => {
+    const requestId = `request-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    return new Promise<PreviewReply>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        requestsRef.current.delete(requestId)
+        reject(new Error(timeoutMessage))
+      }, timeoutMs)
+      requestsRef.current.set(requestId, { resolve, reject, timer })
+      send(command(requestId))
+    })
+  }, [send])
+
+  const captureScreenshot = useCallback(async (target: PreviewTarget = {}): Promise<PreviewScreenshot> => {
+    const reply = await request(
+      requestId => ({ type: 'capture-screenshot', requestId, ...target }),
+      SCREENSHOT_TIMEOUT_MS,
+      'Preview did not answer the screenshot request'
+    )
+    if (reply.type !== 'screenshot' || !('screenshot' in reply)) throw new Error('Preview sent no screenshot')
+    return reply.screenshot
+  }, [request])
+
+  // Audits per component id for every component rendered in the target, or in the whole document
+  const auditAccessibility = useCallback(async (target: PreviewTarget = {}): Promise<Record<string, AccessibilityAudit>> => {
+    const axeSource = await loadAxeSource()
+    const reply = await request(
+      requestId => ({ type: 'audit-accessibility', requestId, axeSource, ...target }),
+      AUDIT_TIMEOUT_MS,
+      'Preview did not answer the accessibility audit'
+    )
+    if (reply.type !== 'accessibility-audit' || !('audits' in reply)) throw new Error('Preview sent no audit')
+    return reply.audits
+  }, [request])
+
+  const clearConsole = useCallback(() => {
+    setConsoleEntries([])
+  }, [])
+
+  return {
+    frameRef,
+    isReady,
+    size,
+    consoleEntries,
+    send,
+    captureScreenshot,
+    auditAccessibility,
+    clearConsole
+  }
+}
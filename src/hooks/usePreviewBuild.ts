@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react'
+
+// Run a preview build whenever the (memoized) options change. Clearing the options drops the
+// result and stops waiting on a build in flight.
+export function usePreviewBuild<Options, Result>(
+  options: Options | null,
+  build: (options: Options) => Promise<Result>, // Stable, e.g. defined at module level
+  description: string // What the build does, for errors: 'build preview'
+) {
+  const [result, setResult] = useState<Result | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isBuilding, setIsBuilding] = useState(false)
+
+  useEffect(() => {
+    if (!options) {
+      setResult(null)
+      setIsBuilding(false)
+      return
+    }
+
+    // A slower earlier build must not overwrite a newer one
+    let cancelled = false
+    setIsBuilding(true)
+    build(options)
+      .then(next => {
+        if (cancelled) return
+        setResult(next)
+        setError(null)
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.warn(`Failed to ${description}:`, err)
+        setError(err instanceof Error ? err.message : `Failed to ${description}`)
+      })
+      .finally(() => {
+        if (!cancelled) setIsBuilding(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [options, build, description])
+
+  return { result, error, isBuilding }
+}
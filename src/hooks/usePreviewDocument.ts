@@ -0,0 +1,18 @@
+import { previewBundler, type PreviewDocumentOptions } from '@/services/previewBundler'
+import { usePreviewBuild } from './usePreviewBuild'
+
+const NO_MODULE_ERRORS: Record<string, string> = {}
+
+const buildDocument = (options: PreviewDocumentOptions) => previewBundler.buildDocument(options)
+
+// Build a self-contained preview document whenever the (memoized) options change
+export function usePreviewDocument(options: PreviewDocumentOptions | null) {
+  const { result, error, isBuilding } = usePreviewBuild(options, buildDocument, 'build preview')
+
+  return {
+    html: result?.html ?? null,
+    moduleErrors: result?.moduleErrors ?? NO_MODULE_ERRORS,
+    error,
+    isBuilding
+  }
+}
@@ -0,0 +1,22 @@
+import { useMemo } from 'react'
+import { previewBundler, type PreviewBundleOptions } from '@/services/previewBundler'
+import { PreviewModuleRegistry } from '@/services/previewRuntime'
+import { usePreviewBuild } from './usePreviewBuild'
+
+const NO_MODULE_ERRORS: Record<string, string> = {}
+
+const bundleModules = (options: PreviewBundleOptions) => previewBundler.bundleModules(options)
+
+// Bundle preview modules for rendering inside the app whenever the (memoized) options change
+export function usePreviewModules(options: PreviewBundleOptions | null) {
+  const { result, error, isBuilding } = usePreviewBuild(options, bundleModules, 'bundle preview')
+  const registry = useMemo(() => (result ? new PreviewModuleRegistry(result.modules) : null), [result])
+
+  return {
+    registry,
+    moduleErrors: result?.moduleErrors ?? NO_MODULE_ERRORS,
+    css: result?.css ?? '',
+    error,
+    isBuilding
+  }
+}
@@ -1,23 +1,106 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import type { ProjectSchema, ProjectMetadata } from '@/types/schema'
+import { projectStorage, toProjectMetadata } from '@/services/projectStorage'
+import { ProjectBundleService } from '@/services/projectBundle'
+import { ProjectExportService } from '@/services/projectExport'
+import { ProjectMigrationService, CURRENT_SCHEMA_VERSION, type ProjectValidationIssue } from '@/services/projectMigrations'
+import { projectHistory, withUntrackedFields, type HistoryState } from '@/services/projectHistory'
+import { sceneManager } from '@/services/sceneManager'
+import { projectSync, ProjectSyncService, type ProjectSyncMessage, type SyncConflict } from '@/services/projectSync'
 
-const PROJECTS_STORAGE_KEY = 'hedgekit-projects'
-const CURRENT_PROJECT_KEY = 'hedgekit-current-project'
+export interface ProjectLoadReport {
+  projectId?: string
+  projectName?: string
+  issues: ProjectValidationIssue[]
+}
+
+// A .hedgekit bundle re-imports into HedgeKit; a repository is a runnable Vite app
+export type ProjectExportFormat = 'bundle' | 'repository'
+
+export interface ProjectSyncNotice extends SyncConflict {
+  projectName: string
+  remote: ProjectSchema // The other tab's version, used when the user takes their edits instead
+}
 
 export function useProjectManager() {
   const [projects, setProjects] = useState<ProjectMetadata[]>([])
   const [currentProject, setCurrentProject] = useState<ProjectSchema | null>(null)
+  // Mirrors currentProject synchronously so chained updates and history see the latest state
+  const currentProjectRef = useRef<ProjectSchema | null>(null)
+  const [history, setHistory] = useState<HistoryState>(() => projectHistory.getState())
+  const [isLoading, setIsLoading] = useState(true)
+  const [loadReport, setLoadReport] = useState<ProjectLoadReport | null>(null)
+  // Last state this tab and the other tabs agreed on; the base for merging their changes
+  const syncBaseRef = useRef<ProjectSchema | null>(null)
+  // Latest change to tell other tabs about once it has been saved
+  const unpublishedRef = useRef<ProjectSchema | null>(null)
+  const [syncConflict, setSyncConflict] = useState<ProjectSyncNotice | null>(null)
+
+  const applyProject = useCallback((project: ProjectSchema | null) => {
+    currentProjectRef.current = project
+    setCurrentProject(project)
+  }, [])
+
+  // Run schema migrations and validation on anything read from storage or a bundle
+  const prepareLoadedProject = useCallback((raw: unknown): ProjectSchema | null => {
+    const result = ProjectMigrationService.migrate(raw)
+
+    if (result.appliedMigrations.length > 0) {
+      console.info(`Migrated project from schema v${result.fromVersion} to v${CURRENT_SCHEMA_VERSION}`)
+    }
+    if (result.issues.length > 0) {
+      console.warn(`Project data had ${result.issues.length} issue(s):\n${ProjectMigrationService.formatIssues(result.issues)}`)
+      setLoadReport({
+        projectId: result.project?.id,
+        projectName: result.project?.name,
+        issues: result.issues
+      })
+    }
+
+    return result.project
+  }, [])
 
   // Load projects on mount
   useEffect(() => {
-    loadProjects()
-    loadCurrentProject()
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const [savedProjects, currentProjectId] = await Promise.all([
+          projectStorage.listProjects(),
+          projectStorage.getCurrentProjectId()
+        ])
+        const savedCurrent = currentProjectId ? await projectStorage.loadProject(currentProjectId) : null
+
+        if (!cancelled) {
+          setProjects(savedProjects)
+          applyProject(savedCurrent ? prepareLoadedProject(savedCurrent) : null)
+        }
+      } catch (error) {
+        console.warn('Failed to load projects:', error)
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [prepareLoadedProject, applyProject])
+
+  // Keep the history panel in sync with the shared history stack
+  useEffect(() => {
+    projectHistory.addChangeListener(setHistory)
+    return () => projectHistory.removeChangeListener(setHistory)
   }, [])
 
-  // Save projects whenever they change
+  // Undo history and sync state never cross project boundaries
   useEffect(() => {
-    saveProjects(projects)
-  }, [projects])
+    projectHistory.clear()
+    syncBaseRef.current = currentProjectRef.current
+    setSyncConflict(null)
+  }, [currentProject?.id])
 
   // Save current project whenever it changes
   useEffect(() => {
@@ -27,77 +110,26 @@ export function useProjectManager() {
     }
   }, [currentProject])
 
-  const loadProjects = useCallback(() => {
-    try {
-      const saved = localStorage.getItem(PROJECTS_STORAGE_KEY)
-      if (saved) {
-        const parsed = JSON.parse(saved)
-        setProjects(parsed)
-      }
-    } catch (error) {
-      console.warn('Failed to load projects:', error)
-    }
-  }, [])
-
-  const loadCurrentProject = useCallback(() => {
-    try {
-      const saved = localStorage.getItem(CURRENT_PROJECT_KEY)
-      if (saved) {
-        const parsed = JSON.parse(saved)
-        setCurrentProject(parsed)
-      }
-    } catch (error) {
-      console.warn('Failed to load current project:', error)
-    }
-  }, [])
-
-  const saveProjects = useCallback((projectList: ProjectMetadata[]) => {
-    try {
-      localStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(projectList))
-    } catch (error) {
-      console.warn('Failed to save projects:', error)
-    }
-  }, [])
-
   const saveCurrentProject = useCallback((project: ProjectSchema) => {
-    try {
-      // Try to save the full project first
-      localStorage.setItem(CURRENT_PROJECT_KEY, JSON.stringify(project))
-    } catch (error) {
-      if (error instanceof DOMException && error.code === 22) {
-        // QuotaExceededError - try to save without base64 data as fallback
-        console.warn('Storage quota exceeded, saving project without asset data')
-        try {
-          const lightweightProject = {
-            ...project,
-            assets: project.assets?.map(asset => ({
-              ...asset,
-              base64: `[Base64 data removed due to storage limits - Asset ID: ${asset.id}]`
-            }))
-          }
-          localStorage.setItem(CURRENT_PROJECT_KEY, JSON.stringify(lightweightProject))
-        } catch (fallbackError) {
-          console.warn('Failed to save even lightweight project:', fallbackError)
-        }
-      } else {
-        console.warn('Failed to save current project:', error)
+    projectStorage.saveProject(project).then(() => {
+      // Other tabs read the project back from storage, so they only hear about it once it is saved
+      if (unpublishedRef.current === project) {
+        unpublishedRef.current = null
+        syncBaseRef.current = project
+        projectSync.publishProject(project)
       }
-    }
+    }).catch(error => {
+      console.warn('Failed to save current project:', error)
+    })
+    projectStorage.setCurrentProjectId(project.id).catch(error => {
+      console.warn('Failed to save current project id:', error)
+    })
   }, [])
 
   const updateProjectMetadata = useCallback((project: ProjectSchema) => {
     setProjects(prev => {
       const existing = prev.find(p => p.id === project.id)
-      const metadata: ProjectMetadata = {
-        id: project.id,
-        name: project.name,
-        description: project.description,
-        framework: project.framework,
-        componentCount: project.components.length,
-        assetCount: project.assets?.length || 0,
-        createdAt: existing?.createdAt || project.createdAt,
-        updatedAt: project.updatedAt
-      }
+      const metadata = toProjectMetadata(project, existing?.createdAt)
 
       if (existing) {
         return prev.map(p => p.id === project.id ? metadata : p)
@@ -107,26 +139,86 @@ export function useProjectManager() {
     })
   }, [])
 
+  // Tell other tabs about a change made in this one after the save effect has written it
+  const publishProject = useCallback((project: ProjectSchema) => {
+    unpublishedRef.current = project
+  }, [])
+
+  // Merge changes made to the same projects in other tabs
+  useEffect(() => {
+    const handleSyncMessage = async (message: ProjectSyncMessage) => {
+      if (message.type === 'project-deleted') {
+        setProjects(prev => prev.filter(p => p.id !== message.projectId))
+        if (currentProjectRef.current?.id === message.projectId) {
+          applyProject(null)
+        }
+        return
+      }
+
+      let remote: ProjectSchema | null
+      try {
+        // The other tab may run an older build, so its data goes through the migrations too
+        const saved = await projectStorage.loadProject(message.projectId)
+        remote = saved && ProjectMigrationService.migrate(saved).project
+      } catch (error) {
+        console.warn('Failed to load project changed in another tab:', error)
+        return
+      }
+      if (!remote) return
+      updateProjectMetadata(remote)
+
+      const local = currentProjectRef.current
+      if (!local || local.id !== remote.id) return
+
+      const base = syncBaseRef.current?.id === local.id ? syncBaseRef.current : local
+      const { project, conflicts, keptLocalChanges } = ProjectSyncService.mergeProjects(base, local, remote)
+
+      syncBaseRef.current = remote
+      // Undo and redo step over the other tab's changes instead of reverting them
+      projectHistory.rebase(local, project)
+      applyProject(project)
+      if (JSON.stringify([local.scenes, local.activeSceneId]) !== JSON.stringify([project.scenes, project.activeSceneId])) {
+        sceneManager.loadFromProject(project)
+      }
+
+      if (conflicts.components.length > 0 || conflicts.scenes.length > 0) {
+        console.warn(`Project "${project.name}" was edited in another tab at the same time`, conflicts)
+        setSyncConflict({ ...conflicts, projectName: project.name, remote })
+      }
+
+      // Our unsynced edits survived the merge, so the other tabs still need them
+      if (keptLocalChanges) {
+        publishProject(project)
+      } else {
+        unpublishedRef.current = null
+      }
+    }
+
+    projectSync.addListener(handleSyncMessage)
+    return () => projectSync.removeListener(handleSyncMessage)
+  }, [applyProject, updateProjectMetadata, publishProject])
+
   const createProject = useCallback((projectData: Omit<ProjectSchema, 'components' | 'assets' | 'scenes' | 'updatedAt'>) => {
     const newProject: ProjectSchema = {
       ...projectData,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       components: [],
       assets: [],
       scenes: [],
       updatedAt: new Date().toISOString()
     }
 
-    setCurrentProject(newProject)
+    applyProject(newProject)
     updateProjectMetadata(newProject)
-  }, [updateProjectMetadata])
+    publishProject(newProject)
+  }, [updateProjectMetadata, applyProject, publishProject])
 
-  const selectProject = useCallback((projectId: string) => {
-    const projectKey = `hedgekit-project-${projectId}`
+  const selectProject = useCallback(async (projectId: string) => {
     try {
-      const saved = localStorage.getItem(projectKey)
+      const saved = await projectStorage.loadProject(projectId)
       if (saved) {
-        const project = JSON.parse(saved)
-        setCurrentProject(project)
+        const project = prepareLoadedProject(saved)
+        if (project) applyProject(project)
       } else {
         // Project metadata exists but no full project data
         // Create a basic project from metadata
@@ -134,6 +226,7 @@ export function useProjectManager() {
         if (metadata) {
           const basicProject: ProjectSchema = {
             id: metadata.id,
+            schemaVersion: CURRENT_SCHEMA_VERSION,
             name: metadata.name,
             description: metadata.description,
             framework: metadata.framework,
@@ -144,52 +237,165 @@ export function useProjectManager() {
             createdAt: metadata.createdAt,
             updatedAt: metadata.updatedAt
           }
-          setCurrentProject(basicProject)
+          applyProject(basicProject)
         }
       }
     } catch (error) {
       console.warn('Failed to load project:', error)
     }
-  }, [projects])
+  }, [projects, prepareLoadedProject, applyProject])
 
   const deleteProject = useCallback((projectId: string) => {
     // Remove from projects list
     setProjects(prev => prev.filter(p => p.id !== projectId))
     
-    // Remove project data from localStorage
-    const projectKey = `hedgekit-project-${projectId}`
-    localStorage.removeItem(projectKey)
+    // Remove project data, assets, screenshots and chat history from storage
+    projectStorage.deleteProject(projectId).catch(error => {
+      console.warn('Failed to delete project:', error)
+    })
+    projectSync.publishDeletion(projectId)
     
     // If this was the current project, clear it
     if (currentProject?.id === projectId) {
-      setCurrentProject(null)
-      localStorage.removeItem(CURRENT_PROJECT_KEY)
+      applyProject(null)
+    }
+  }, [currentProject, applyProject])
+
+  const importProject = useCallback((imported: ProjectSchema): boolean => {
+    // Replaces any stored project with the same id; callers resolve collisions first
+    const project = prepareLoadedProject(imported)
+    if (!project) return false
+
+    applyProject(project)
+    updateProjectMetadata(project)
+    publishProject(project)
+    return true
+  }, [updateProjectMetadata, prepareLoadedProject, applyProject, publishProject])
+
+  const exportProject = useCallback(async (projectId: string, format: ProjectExportFormat = 'bundle') => {
+    const project = currentProject?.id === projectId
+      ? currentProject
+      : await projectStorage.loadProject(projectId)
+
+    if (!project) {
+      throw new Error(`Project ${projectId} has no saved data to export`)
+    }
+
+    if (format === 'repository') {
+      await ProjectExportService.downloadRepository(project)
+    } else {
+      await ProjectBundleService.downloadProject(project)
     }
   }, [currentProject])
 
+  const dismissLoadReport = useCallback(() => {
+    setLoadReport(null)
+  }, [])
+
   const updateCurrentProject = useCallback((updater: (prev: ProjectSchema) => ProjectSchema) => {
-    setCurrentProject(prev => {
-      if (!prev) return null
-      const updated = updater(prev)
-      
-      // Save individual project data
-      const projectKey = `hedgekit-project-${updated.id}`
-      try {
-        localStorage.setItem(projectKey, JSON.stringify(updated))
-      } catch (error) {
-        console.warn('Failed to save project data:', error)
+    const prev = currentProjectRef.current
+    if (!prev) return
+
+    const updated = updater(prev)
+    if (updated === prev) return
+
+    projectHistory.record(prev, updated)
+    applyProject(updated)
+    publishProject(updated)
+  }, [applyProject, publishProject])
+
+  const restoreFromHistory = useCallback((restored: ProjectSchema | null) => {
+    const current = currentProjectRef.current
+    if (!restored || !current) return
+
+    // Chat, screenshots and what the preview observed are a log of what happened, so they are
+    // kept as-is across undo and redo
+    const project: ProjectSchema = {
+      ...withUntrackedFields(restored, current),
+      updatedAt: new Date().toISOString()
+    }
+    applyProject(project)
+    publishProject(project)
+    sceneManager.loadFromProject(project)
+  }, [applyProject, publishProject])
+
+  const undo = useCallback(() => {
+    restoreFromHistory(projectHistory.undo())
+  }, [restoreFromHistory])
+
+  const redo = useCallback(() => {
+    restoreFromHistory(projectHistory.redo())
+  }, [restoreFromHistory])
+
+  // Undo or redo as many steps as needed so the given entry is the latest applied one
+  const jumpToHistoryEntry = useCallback((entryId: string) => {
+    const state = projectHistory.getState()
+    let restored: ProjectSchema | null = null
+
+    const pastIndex = state.past.findIndex(entry => entry.id === entryId)
+    if (pastIndex !== -1) {
+      for (let i = state.past.length - 1; i > pastIndex; i--) {
+        restored = projectHistory.undo() || restored
       }
-      
-      return updated
-    })
-  }, [])
+    } else {
+      const futureIndex = state.future.findIndex(entry => entry.id === entryId)
+      for (let i = 0; i <= futureIndex; i++) {
+        restored = projectHistory.redo() || restored
+      }
+    }
+
+    restoreFromHistory(restored)
+  }, [restoreFromHistory])
+
+  // Keep this tab's versions of the conflicting items, or take the other tab's instead
+  const resolveSyncConflict = useCallback((useRemote: boolean) => {
+    const conflict = syncConflict
+    setSyncConflict(null)
+    if (!conflict || !useRemote) return
+
+    const componentIds = new Set(conflict.components.map(c => c.id))
+    const sceneIds = new Set(conflict.scenes.map(s => s.id))
+    const takeRemote = <T extends { id: string }>(items: T[], remoteItems: T[], ids: Set<string>): T[] => {
+      const kept = items.flatMap(item => {
+        if (!ids.has(item.id)) return [item]
+        const remoteItem = remoteItems.find(r => r.id === item.id)
+        return remoteItem ? [remoteItem] : []
+      })
+      // Items the other tab still has but this tab deleted
+      remoteItems
+        .filter(r => ids.has(r.id) && !items.some(item => item.id === r.id))
+        .forEach(r => kept.push(r))
+      return kept
+    }
+
+    updateCurrentProject(prev => ({
+      ...prev,
+      components: takeRemote(prev.components, conflict.remote.components, componentIds),
+      scenes: takeRemote(prev.scenes, conflict.remote.scenes, sceneIds),
+      updatedAt: new Date().toISOString()
+    }))
+    if (currentProjectRef.current) {
+      sceneManager.loadFromProject(currentProjectRef.current)
+    }
+  }, [syncConflict, updateCurrentProject])
 
   return {
     projects,
     currentProject,
+    isLoading,
+    loadReport,
+    dismissLoadReport,
+    syncConflict,
+    resolveSyncConflict,
     createProject,
     selectProject,
     deleteProject,
-    updateCurrentProject
+    importProject,
+    exportProject,
+    updateCurrentProject,
+    history,
+    undo,
+    redo,
+    jumpToHistoryEntry
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { ProjectSchema } from '@/types/schema'
+import { ProjectSnapshotService, type ProjectSnapshot, type SnapshotRestoreOptions } from '@/services/projectSnapshots'
+import { sceneManager } from '@/services/sceneManager'
+
+export function useProjectSnapshots(
+  project: ProjectSchema | null,
+  onUpdateProject: (updater: (prev: ProjectSchema) => ProjectSchema) => void
+) {
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([])
+  const projectId = project?.id
+
+  const refresh = useCallback(async () => {
+    if (!projectId) {
+      setSnapshots([])
+      return
+    }
+    try {
+      setSnapshots(await ProjectSnapshotService.listSnapshots(projectId))
+    } catch (error) {
+      console.warn('Failed to load snapshots:', error)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const createSnapshot = useCallback(async (name: string) => {
+    if (!project) return
+    await ProjectSnapshotService.createSnapshot(project, name, 'manual')
+    await refresh()
+  }, [project, refresh])
+
+  const deleteSnapshot = useCallback(async (snapshotId: string) => {
+    if (!projectId) return
+    await ProjectSnapshotService.deleteSnapshot(projectId, snapshotId)
+    await refresh()
+  }, [projectId, refresh])
+
+  const restoreSnapshot = useCallback((snapshot: ProjectSnapshot, options?: SnapshotRestoreOptions) => {
+    // Restored over the latest project, so changes made since this render are not lost
+    let restored: ProjectSchema | null = null
+    onUpdateProject(prev => {
+      restored = ProjectSnapshotService.restoreSnapshot(prev, snapshot, options)
+      return restored
+    })
+    // The scene manager keeps its own copy of the scenes
+    if (restored) sceneManager.loadFromProject(restored)
+  }, [onUpdateProject])
+
+  return {
+    snapshots,
+    refresh,
+    createSnapshot,
+    deleteSnapshot,
+    restoreSnapshot
+  }
+}
@@ -68,6 +68,10 @@ export function useSceneManager(project: ProjectSchema | null) {
     return sceneManager.updateComponentInstance(sceneId, instanceId, updates)
   }, [])
 
+  const reorderComponentInstance = useCallback((sceneId: string, instanceId: string, toIndex: number) => {
+    return sceneManager.reorderComponentInstance(sceneId, instanceId, toIndex)
+  }, [])
+
   const removeComponentInstance = useCallback((sceneId: string, instanceId: string) => {
     return sceneManager.removeComponentInstance(sceneId, instanceId)
   }, [])
@@ -95,6 +99,7 @@ export function useSceneManager(project: ProjectSchema | null) {
     // Component instance management
     addComponentToScene,
     updateComponentInstance,
+    reorderComponentInstance,
     removeComponentInstance,
 
     // Reactive updates
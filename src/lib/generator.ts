@@ -1,4 +1,5 @@
 import type { ComponentSchema, ProjectSchema, GenerationRequest } from '../types/schema'
+import { applyInferredProps } from './propInference'
 
 export class ComponentGenerator {
   private openaiApiKey: string | null = null
@@ -45,7 +46,8 @@ export class ComponentGenerator {
       const data = await response.json()
       const generatedContent = data.choices[0].message.content
 
-      return this.parseGeneratedComponent(generatedContent, request)
+      // The code is the source of truth for props, not the schema the model described
+      return applyInferredProps(this.parseGeneratedComponent(generatedContent, request))
     } catch (error) {
       console.error('Error generating component:', error)
       throw error
@@ -94,7 +96,7 @@ export class ComponentGenerator {
       const data = await response.json()
       const modifiedContent = data.choices[0].message.content
 
-      return this.parseModifiedComponent(modifiedContent, component)
+      return applyInferredProps(this.parseModifiedComponent(modifiedContent, component))
     } catch (error) {
       console.error('Error modifying component:', error)
       throw error
@@ -0,0 +1,406 @@
+import type ts from 'typescript'
+import type { ComponentSchema, PropDefinition } from '../types/schema'
+
+type TypeScript = typeof ts
+type PropType = PropDefinition['type']
+
+interface ComponentFunction {
+  name?: string
+  node: ts.FunctionLikeDeclaration
+  isDefaultExport: boolean
+  propsType?: ts.TypeNode // From React.FC<Props> annotations or forwardRef<Ref, Props> type arguments
+}
+
+interface ParseContext {
+  ts: TypeScript
+  types: Map<string, ts.InterfaceDeclaration | ts.TypeAliasDeclaration>
+}
+
+const MAX_TYPE_DEPTH = 5
+
+// The compiler is several megabytes, so it is only loaded the first time props are inferred
+let compiler: Promise<TypeScript> | null = null
+function loadCompiler(): Promise<TypeScript> {
+  compiler = compiler || import('typescript').then(module => (module.default || module) as TypeScript)
+  return compiler
+}
+
+function isPascalCase(name: string | undefined): name is string {
+  return !!name && /^[A-Z]/.test(name)
+}
+
+function hasModifier(ts: TypeScript, node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(modifier => modifier.kind === kind)
+}
+
+// Unwrap forwardRef(...), memo(...) and friends down to the function that receives props
+function unwrapComponent(
+  ts: TypeScript,
+  expression: ts.Expression
+): { node: ts.FunctionLikeDeclaration; propsType?: ts.TypeNode } | null {
+  if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) return { node: expression }
+  if (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression)) {
+    return unwrapComponent(ts, expression.expression)
+  }
+  if (ts.isCallExpression(expression) && expression.arguments.length > 0) {
+    const inner = unwrapComponent(ts, expression.arguments[0])
+    // forwardRef<Ref, Props>(...) and memo<Props>(...) carry the props type last
+    const typeArguments = expression.typeArguments
+    return inner && { ...inner, propsType: inner.propsType || typeArguments?.[typeArguments.length - 1] }
+  }
+  return null
+}
+
+function findComponents(ts: TypeScript, source: ts.SourceFile): ComponentFunction[] {
+  const components: ComponentFunction[] = []
+  const defaultExportNames = new Set<string>()
+
+  source.statements.forEach(statement => {
+    if (ts.isFunctionDeclaration(statement)) {
+      const isDefaultExport = hasModifier(ts, statement, ts.SyntaxKind.DefaultKeyword)
+      if (isPascalCase(statement.name?.text) || isDefaultExport) {
+        components.push({ name: statement.name?.text, node: statement, isDefaultExport })
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach(declaration => {
+        if (!ts.isIdentifier(declaration.name) || !isPascalCase(declaration.name.text) || !declaration.initializer) return
+        const unwrapped = unwrapComponent(ts, declaration.initializer)
+        if (!unwrapped) return
+
+        // const Card: React.FC<CardProps> = ...
+        const annotation = declaration.type
+        const annotated = annotation && ts.isTypeReferenceNode(annotation) ? annotation.typeArguments?.[0] : undefined
+        components.push({
+          name: declaration.name.text,
+          node: unwrapped.node,
+          isDefaultExport: false,
+          propsType: annotated || unwrapped.propsType
+        })
+      })
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      if (ts.isIdentifier(statement.expression)) {
+        defaultExportNames.add(statement.expression.text)
+      } else {
+        const unwrapped = unwrapComponent(ts, statement.expression)
+        if (unwrapped) components.push({ ...unwrapped, isDefaultExport: true })
+      }
+    }
+  })
+
+  components.forEach(component => {
+    if (component.name && defaultExportNames.has(component.name)) component.isDefaultExport = true
+  })
+  return components
+}
+
+function pickComponent(components: ComponentFunction[], componentName?: string): ComponentFunction | null {
+  return (
+    components.find(c => componentName && c.name === componentName) ||
+    components.find(c => c.isDefaultExport) ||
+    // Helpers usually come first and the main component last
+    components[components.length - 1] ||
+    null
+  )
+}
+
+function typeName(ts: TypeScript, name: ts.EntityName): string {
+  return ts.isIdentifier(name) ? name.text : name.right.text
+}
+
+function classifyType(context: ParseContext, node: ts.TypeNode | undefined, depth = 0): PropType | null {
+  const { ts } = context
+  if (!node || depth > MAX_TYPE_DEPTH) return null
+
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword:
+    case ts.SyntaxKind.TemplateLiteralType:
+      return 'string'
+    case ts.SyntaxKind.NumberKeyword:
+    case ts.SyntaxKind.BigIntKeyword:
+      return 'number'
+    case ts.SyntaxKind.BooleanKeyword:
+      return 'boolean'
+    case ts.SyntaxKind.ArrayType:
+    case ts.SyntaxKind.TupleType:
+      return 'array'
+    case ts.SyntaxKind.FunctionType:
+    case ts.SyntaxKind.ConstructorType:
+      return 'function'
+    case ts.SyntaxKind.TypeLiteral:
+    case ts.SyntaxKind.MappedType:
+    case ts.SyntaxKind.ObjectKeyword:
+      return 'object'
+  }
+
+  if (ts.isLiteralTypeNode(node)) {
+    if (ts.isStringLiteral(node.literal)) return 'string'
+    if (ts.isNumericLiteral(node.literal) || ts.isPrefixUnaryExpression(node.literal)) return 'number'
+    if (node.literal.kind === ts.SyntaxKind.TrueKeyword || node.literal.kind === ts.SyntaxKind.FalseKeyword) return 'boolean'
+    return null // null literal
+  }
+  if (ts.isParenthesizedTypeNode(node) || ts.isTypeOperatorNode(node)) {
+    return classifyType(context, node.type, depth + 1)
+  }
+  if (ts.isUnionTypeNode(node)) {
+    // `string | undefined` is still a string; mixed unions take their first concrete member
+    const members = node.types.map(member => classifyType(context, member, depth + 1)).filter((t): t is PropType => !!t)
+    return members[0] || null
+  }
+  if (ts.isIntersectionTypeNode(node)) {
+    return 'object'
+  }
+  if (ts.isTypeReferenceNode(node)) {
+    const name = typeName(ts, node.typeName)
+    if (name === 'Array' || name === 'ReadonlyArray') return 'array'
+    if (name === 'Function' || /Handler$|Callback$|^Dispatch$|^SetStateAction$/.test(name)) return 'function'
+    // Rendered content; the props panel edits it as text
+    if (['ReactNode', 'ReactElement', 'Element', 'ReactChild', 'ReactText'].includes(name)) return 'string'
+    if (name === 'Date' || name === 'Record' || name === 'Partial' || name === 'CSSProperties') return 'object'
+
+    const declaration = context.types.get(name)
+    if (declaration && ts.isTypeAliasDeclaration(declaration)) {
+      return classifyType(context, declaration.type, depth + 1)
+    }
+    return 'object'
+  }
+  return null
+}
+
+// The item type of an array type, through aliases and unions
+function classifyItemType(context: ParseContext, node: ts.TypeNode | undefined, depth = 0): PropType | null {
+  const { ts } = context
+  if (!node || depth > MAX_TYPE_DEPTH) return null
+
+  if (ts.isArrayTypeNode(node)) return classifyType(context, node.elementType, depth + 1)
+  if (ts.isParenthesizedTypeNode(node) || ts.isTypeOperatorNode(node)) {
+    return classifyItemType(context, node.type, depth + 1)
+  }
+  if (ts.isUnionTypeNode(node)) {
+    return node.types.map(member => classifyItemType(context, member, depth + 1)).find(Boolean) || null
+  }
+  if (ts.isTypeReferenceNode(node)) {
+    const name = typeName(ts, node.typeName)
+    if (name === 'Array' || name === 'ReadonlyArray') return classifyType(context, node.typeArguments?.[0], depth + 1)
+    const declaration = context.types.get(name)
+    if (declaration && ts.isTypeAliasDeclaration(declaration)) {
+      return classifyItemType(context, declaration.type, depth + 1)
+    }
+  }
+  return null
+}
+
+function jsDocOf(ts: TypeScript, node: ts.Node): { description?: string; defaultValue?: string } {
+  const result: { description?: string; defaultValue?: string } = {}
+  ts.getJSDocCommentsAndTags(node).forEach(doc => {
+    if (ts.isJSDoc(doc)) {
+      const text = ts.getTextOfJSDocComment(doc.comment)?.trim()
+      if (text) result.description = text
+      doc.tags?.forEach(tag => {
+        if (tag.tagName.text === 'default' || tag.tagName.text === 'defaultValue') {
+          result.defaultValue = ts.getTextOfJSDocComment(tag.comment)?.trim()
+        }
+      })
+    }
+  })
+  return result
+}
+
+// Evaluate literal initializers (`'primary'`, `3`, `[]`, `{ a: 1 }`); anything computed is left out
+function evaluateLiteral(ts: TypeScript, node: ts.Expression): { value: any } | null {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return { value: node.text }
+  if (ts.isNumericLiteral(node)) return { value: Number(node.text) }
+  if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)) {
+    return { value: -Number(node.operand.text) }
+  }
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return { value: true }
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return { value: false }
+  if (node.kind === ts.SyntaxKind.NullKeyword) return { value: null }
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node)) return evaluateLiteral(ts, node.expression)
+  if (ts.isArrayLiteralExpression(node)) {
+    const items = node.elements.map(element => evaluateLiteral(ts, element))
+    return items.every(Boolean) ? { value: items.map(item => item!.value) } : null
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    const value: Record<string, any> = {}
+    for (const property of node.properties) {
+      if (!ts.isPropertyAssignment(property)) return null
+      const key = ts.isIdentifier(property.name) || ts.isStringLiteral(property.name) ? property.name.text : null
+      const evaluated = evaluateLiteral(ts, property.initializer)
+      if (!key || !evaluated) return null
+      value[key] = evaluated.value
+    }
+    return { value }
+  }
+  return null
+}
+
+function typeOfValue(value: any): PropType {
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return typeof value as PropType
+  return 'object'
+}
+
+// Untyped props still follow naming conventions
+function typeFromName(name: string): PropType {
+  if (/^on[A-Z]/.test(name) || /^(render|handle)[A-Z]/.test(name)) return 'function'
+  if (/^(is|has|show|can|should|disabled|loading|open|checked)([A-Z]|$)/.test(name)) return 'boolean'
+  if (/^(count|size|max|min|width|height|index|limit|total|value)$/i.test(name)) return 'number'
+  if (/^(items|options|rows|columns|tabs|links|images|tags)$/.test(name)) return 'array'
+  return 'string'
+}
+
+function collectMembers(context: ParseContext, node: ts.TypeNode | undefined, depth = 0): ts.TypeElement[] {
+  const { ts } = context
+  if (!node || depth > MAX_TYPE_DEPTH) return []
+
+  if (ts.isTypeLiteralNode(node)) return [...node.members]
+  if (ts.isParenthesizedTypeNode(node)) return collectMembers(context, node.type, depth + 1)
+  if (ts.isIntersectionTypeNode(node) || ts.isUnionTypeNode(node)) {
+    return node.types.flatMap(member => collectMembers(context, member, depth + 1))
+  }
+  if (ts.isTypeReferenceNode(node)) {
+    const name = typeName(ts, node.typeName)
+    // Readonly<Props>, PropsWithChildren<Props>
+    if (node.typeArguments?.length && !context.types.has(name)) {
+      return collectMembers(context, node.typeArguments[0], depth + 1)
+    }
+    const declaration = context.types.get(name)
+    if (!declaration) return []
+    if (ts.isTypeAliasDeclaration(declaration)) return collectMembers(context, declaration.type, depth + 1)
+
+    // Local base interfaces are merged in; library ones (HTMLAttributes and the like) are not listed
+    const inherited = (declaration.heritageClauses || []).flatMap(clause =>
+      clause.types.flatMap(base =>
+        ts.isIdentifier(base.expression) && context.types.has(base.expression.text)
+          ? collectMembers(context, ts.factory.createTypeReferenceNode(base.expression.text), depth + 1)
+          : []
+      )
+    )
+    return [...inherited, ...declaration.members]
+  }
+  return []
+}
+
+function memberName(ts: TypeScript, member: ts.TypeElement): string | null {
+  if (!member.name) return null
+  if (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)) return member.name.text
+  return null
+}
+
+function propsFromComponent(context: ParseContext, component: ComponentFunction): Record<string, PropDefinition> {
+  const { ts } = context
+  const props: Record<string, PropDefinition> = {}
+  const parameter = component.node.parameters[0]
+  if (!parameter) return props
+
+  const typeNode = parameter.type || component.propsType
+  collectMembers(context, typeNode).forEach(member => {
+    const name = memberName(ts, member)
+    if (!name) return
+
+    const memberType = ts.isPropertySignature(member) ? member.type : undefined
+    const type = ts.isMethodSignature(member) ? 'function' : classifyType(context, memberType) || 'object'
+    const doc = jsDocOf(ts, member)
+    const definition: PropDefinition = { type, required: !member.questionToken }
+    const itemType = type === 'array' ? classifyItemType(context, memberType) : null
+    if (itemType) definition.itemType = itemType
+
+    if (doc.description) definition.description = doc.description
+    if (doc.defaultValue !== undefined) {
+      try {
+        definition.defaultValue = JSON.parse(doc.defaultValue)
+      } catch {
+        definition.defaultValue = doc.defaultValue.replace(/^['"`]|['"`]$/g, '')
+      }
+    }
+    props[name] = definition
+  })
+
+  if (ts.isObjectBindingPattern(parameter.name)) {
+    parameter.name.elements.forEach(element => {
+      if (element.dotDotDotToken) return
+      const nameNode = element.propertyName || element.name
+      const name = ts.isIdentifier(nameNode) || ts.isStringLiteral(nameNode) ? nameNode.text : null
+      if (!name) return
+
+      const evaluated = element.initializer ? evaluateLiteral(ts, element.initializer) : null
+      const existing = props[name]
+      if (existing) {
+        if (element.initializer) existing.required = false
+        if (evaluated) existing.defaultValue = evaluated.value
+        return
+      }
+
+      // Destructured but not declared in any type (or no type at all)
+      const firstItem = Array.isArray(evaluated?.value) ? evaluated.value.find((item: any) => item !== null) : undefined
+      props[name] = {
+        type: evaluated && evaluated.value !== null ? typeOfValue(evaluated.value) : typeFromName(name),
+        required: !element.initializer && !typeNode,
+        ...(firstItem !== undefined ? { itemType: typeOfValue(firstItem) } : {}),
+        ...(evaluated ? { defaultValue: evaluated.value } : {})
+      }
+    })
+  } else if (ts.isIdentifier(parameter.name) && !typeNode && component.node.body) {
+    // function Card(props) { ... props.title ... }
+    const paramName = parameter.name.text
+    const visit = (node: ts.Node) => {
+      if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === paramName) {
+        const name = node.name.text
+        props[name] = props[name] || { type: typeFromName(name), required: false }
+      }
+      ts.forEachChild(node, visit)
+    }
+    visit(component.node.body)
+  }
+
+  return props
+}
+
+/**
+ * Read prop definitions out of a component's source: the props interface or type (including local
+ * base interfaces), destructured defaults and JSDoc descriptions/@default tags.
+ * Returns null when no component function can be found in the code.
+ */
+export async function inferPropDefinitions(
+  code: string,
+  componentName?: string
+): Promise<Record<string, PropDefinition> | null> {
+  const ts = await loadCompiler()
+  const source = ts.createSourceFile('Component.tsx', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX)
+
+  const types: ParseContext['types'] = new Map()
+  source.statements.forEach(statement => {
+    if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) {
+      types.set(statement.name.text, statement)
+    }
+  })
+
+  const component = pickComponent(findComponents(ts, source), componentName)
+  if (!component) return null
+
+  return propsFromComponent({ ts, types }, component)
+}
+
+// Replace a component's props with what its code declares, keeping descriptions the generator wrote
+export async function applyInferredProps(component: ComponentSchema): Promise<ComponentSchema> {
+  if (!component.generatedCode) return component
+
+  try {
+    const inferred = await inferPropDefinitions(component.generatedCode, component.name)
+    if (!inferred) return component
+
+    const props: Record<string, PropDefinition> = {}
+    Object.entries(inferred).forEach(([name, definition]) => {
+      const previous = component.props?.[name]
+      props[name] = {
+        ...definition,
+        ...(definition.description || !previous?.description ? {} : { description: previous.description }),
+        ...(definition.defaultValue !== undefined || previous?.defaultValue === undefined ? {} : { defaultValue: previous.defaultValue })
+      }
+    })
+    return { ...component, props }
+  } catch (error) {
+    console.warn(`Failed to infer props for ${component.name}:`, error)
+    return component
+  }
+}
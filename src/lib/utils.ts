@@ -4,3 +4,28 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  // Give the browser a tick to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'project'
+}
+
+// Hooks generated code commonly calls without importing them from 'react'
+export const REACT_HOOKS = [
+  'useState', 'useEffect', 'useMemo', 'useCallback', 'useRef', 'useReducer', 'useContext',
+  'useLayoutEffect', 'useId', 'useTransition', 'useDeferredValue'
+]
@@ -0,0 +1,52 @@
+type WorkerResponse<TResult> = ({ id: number } & TResult) | { id: number; error: string }
+
+interface PendingRequest<TResult> {
+  resolve: (result: TResult) => void
+  reject: (error: Error) => void
+}
+
+// Promise-based request/response over a lazily started worker. Requests carry an id and
+// the worker answers with the same id plus either its result fields or an error message.
+export class WorkerClient<TRequest extends object, TResult extends object> {
+  private worker: Worker | null = null
+  private pending = new Map<number, PendingRequest<TResult>>()
+  private nextId = 1
+
+  constructor(private createWorker: () => Worker, private name: string) {}
+
+  request(payload: TRequest): Promise<TResult> {
+    const worker = this.getWorker()
+    const id = this.nextId++
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject })
+      worker.postMessage({ ...payload, id })
+    })
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker
+
+    const worker = this.createWorker()
+    worker.addEventListener('message', (event: MessageEvent<WorkerResponse<TResult>>) => {
+      const { id, ...response } = event.data
+      const pending = this.pending.get(id)
+      if (!pending) return
+      this.pending.delete(id)
+      if ('error' in response && typeof response.error === 'string') {
+        pending.reject(new Error(response.error))
+      } else {
+        pending.resolve(response as unknown as TResult)
+      }
+    })
+    // A worker that failed to load cannot recover; fail outstanding requests and start fresh next time
+    worker.addEventListener('error', event => {
+      this.pending.forEach(pending => pending.reject(new Error(event.message || `${this.name} worker failed`)))
+      this.pending.clear()
+      worker.terminate()
+      this.worker = null
+    })
+
+    this.worker = worker
+    return worker
+  }
+}
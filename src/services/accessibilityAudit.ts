@@ -0,0 +1,64 @@
+import { withHiddenPreview } from './hiddenPreview'
+import type { ProjectSchema, AccessibilityAudit, AccessibilityViolation } from '../types/schema'
+
+const AUDIT_TIMEOUT_MS = 30000
+
+export const IMPACT_ORDER: AccessibilityViolation['impact'][] = ['critical', 'serious', 'moderate', 'minor']
+
+let axeSource: Promise<string> | null = null
+
+// axe-core is only fetched once something is audited, then handed to each preview that runs it
+export function loadAxeSource(): Promise<string> {
+  if (!axeSource) {
+    axeSource = import('axe-core/axe.min.js?raw').then(module => module.default)
+    axeSource.catch(() => {
+      axeSource = null
+    })
+  }
+  return axeSource
+}
+
+// Store audits from the preview on their components
+export function withAccessibilityAudits(project: ProjectSchema, audits: Record<string, AccessibilityAudit>): ProjectSchema {
+  if (!project.components.some(c => audits[c.id])) return project
+  return {
+    ...project,
+    components: project.components.map(c => (audits[c.id] ? { ...c, accessibility: audits[c.id] } : c))
+  }
+}
+
+export function countViolationNodes(violations: AccessibilityViolation[] = []): number {
+  return violations.reduce((total, violation) => total + violation.nodes.length, 0)
+}
+
+// Most severe first, one line per failing node, e.g.
+// "[serious] color-contrast at #preview-comp-1 > button: Fix any of the following: ..."
+export function formatAccessibilityViolations(violations: AccessibilityViolation[], limit = 15): string[] {
+  const lines = [...violations]
+    .sort((a, b) => IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact))
+    .flatMap(violation => violation.nodes.map(node =>
+      `[${violation.impact}] ${violation.rule} at ${node.selector}: ${violation.help}. ${node.fix.replace(/\s*\n\s*/g, ' ')} (${violation.helpUrl})`
+    ))
+  if (lines.length > limit) {
+    return [...lines.slice(0, limit), `...and ${lines.length - limit} more`]
+  }
+  return lines
+}
+
+// Renders the components in a hidden preview and audits it. For callers without a preview on
+// screen, such as agent tools.
+export async function auditComponents(project: ProjectSchema, componentIds?: string[]): Promise<Record<string, AccessibilityAudit>> {
+  const components = project.components.filter(c => c.generatedCode && (!componentIds || componentIds.includes(c.id)))
+  if (components.length === 0) return {}
+
+  const source = await loadAxeSource()
+  return withHiddenPreview(project, components, async preview => {
+    const reply = await preview.request(
+      requestId => ({ type: 'audit-accessibility', requestId, axeSource: source }),
+      AUDIT_TIMEOUT_MS,
+      'The audit preview did not answer'
+    )
+    if (reply.type !== 'accessibility-audit' || !('audits' in reply)) throw new Error('The audit preview sent no audit')
+    return reply.audits
+  })
+}
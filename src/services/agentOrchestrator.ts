@@ -9,6 +9,7 @@ import { ClaudeAgentProvider, ClaudeOpusProvider } from './providers/claudeProvi
 import type { ProjectSchema } from '../types/schema'
 import type { UIActions } from './agentTools'
 import { agentTools } from './agentTools'
+import { projectHistory } from './projectHistory'
 
 export class AgentOrchestrator {
   private providers: Map<AgentProvider, IAgentProvider> = new Map()
@@ -123,7 +124,13 @@ export class AgentOrchestrator {
     updateProject: (updater: (prev: ProjectSchema) => ProjectSchema) => void,
     uiActions?: UIActions
   ): Promise<AgentChatResponse> {
-    return await this.chatWithWorkflow(request, updateProject, uiActions, request.message)
+    // Everything the agent changes during one run is undone as a single step
+    projectHistory.beginTransaction(`Agent: ${request.message.length > 60 ? `${request.message.substring(0, 60)}...` : request.message}`)
+    try {
+      return await this.chatWithWorkflow(request, updateProject, uiActions, request.message)
+    } finally {
+      projectHistory.commitTransaction()
+    }
   }
 
 
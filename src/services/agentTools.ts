@@ -1,9 +1,20 @@
 import { ComponentGenerator } from '../lib/generator'
+import { applyInferredProps } from '../lib/propInference'
+import { applyDiagnostics, countErrors, describeDiagnostics, formatDiagnostics } from './typeCheck'
+import { formatRuntimeErrors } from './previewBridge'
+import { auditComponents, countViolationNodes, formatAccessibilityViolations, withAccessibilityAudits } from './accessibilityAudit'
+import { ScreenshotService, storedAnalysis, type Screenshot, type ScreenshotReview } from './screenshotService'
+import { devicePresets, projectBreakpoints } from './previewDevices'
+import { compareComponentScreenshots, componentScreenshot, describeVisualDiff, withScreenshot, withVisualDiff, type ProjectScreenshot } from './visualDiff'
+import { withStoredImage } from './screenshotImages'
 import { V0GenerationService } from './v0Generation'
 import { ImageGenerationService } from './imageGeneration'
 import { BunnyCDNService } from './bunnycdnService'
 import { ProjectPlanningService } from './projectPlanningService'
-import type { ProjectSchema, ComponentSchema, ImageAsset, ProjectPlan } from '../types/schema'
+import { projectHistory } from './projectHistory'
+import { ProjectSnapshotService } from './projectSnapshots'
+import { SceneCodegenService } from './sceneCodegen'
+import type { ProjectSchema, ComponentSchema, ImageAsset, ProjectPlan, VisualDiff, ScreenshotAnalysis } from '../types/schema'
 
 // Tool workflow configuration
 interface ToolWorkflow {
@@ -166,7 +177,7 @@ export const agentTools: EnhancedTool[] = [
     type: "function" as const,
     function: {
       name: "get_embedded_preview",
-      description: "Get information about the current embedded preview state and sample components",
+      description: "Get the state of the live preview, including compile, render and runtime errors the preview reported for each component",
       parameters: {
         type: "object",
         properties: {},
@@ -174,6 +185,23 @@ export const agentTools: EnhancedTool[] = [
       }
     }
   },
+  {
+    type: "function" as const,
+    function: {
+      name: "audit_accessibility",
+      description: "Render components and audit them with axe-core. Returns each violation with its severity, the selector of the failing element and how to fix it; fix them with edit_component.",
+      parameters: {
+        type: "object",
+        properties: {
+          componentId: {
+            type: "string",
+            description: "Optional: the component to audit. Every component with code is audited without it."
+          }
+        },
+        required: []
+      }
+    }
+  },
   {
     type: "function" as const,
     function: {
@@ -319,6 +347,23 @@ export const agentTools: EnhancedTool[] = [
       }
     }
   },
+  {
+    type: "function" as const,
+    function: {
+      name: "generate_scene_code",
+      description: "Generate a standalone React page component (JSX + Tailwind) that renders a scene with its component instances",
+      parameters: {
+        type: "object",
+        properties: {
+          sceneId: {
+            type: "string",
+            description: "ID of the scene to generate code for. Defaults to the active scene."
+          }
+        },
+        required: []
+      }
+    }
+  },
   {
     type: "function" as const,
     function: {
@@ -515,7 +560,7 @@ export const agentTools: EnhancedTool[] = [
     type: "function" as const,
     function: {
       name: "reflect_on_artifact",
-      description: "Reflect on and critique a recently created artifact (component, image, or plan) to identify improvements",
+      description: "Reflect on and critique a recently created artifact (component, image, or plan) to identify improvements. Components are screenshotted and the image checked for blank output, clipping, off-palette colors, low text contrast and unbalanced whitespace",
       parameters: {
         type: "object",
         properties: {
@@ -542,18 +587,23 @@ export const agentTools: EnhancedTool[] = [
     type: "function" as const,
     function: {
       name: "capture_preview_screenshot",
-      description: "Capture a screenshot of the current preview to visually review the created components",
+      description: "Render the components in a preview and capture screenshots of them to visually review them, optionally at several device sizes. Screenshots are saved to the project",
       parameters: {
         type: "object",
         properties: {
           componentId: {
             type: "string",
-            description: "Optional: specific component to focus on in the preview"
+            description: "Optional: render only this component; without it every component is rendered"
           },
           captureMode: {
             type: "string",
             enum: ["full", "component", "viewport"],
-            description: "What to capture: full preview, specific component, or current viewport"
+            description: "What to capture: the full preview, the component's element, or the viewport. Defaults to component with a componentId, viewport otherwise"
+          },
+          devices: {
+            type: "array",
+            items: { type: "string", enum: ["mobile", "tablet", "laptop", "desktop"] },
+            description: "Optional: device sizes to capture at, one screenshot each; defaults to a single 1280x800 capture"
           }
         },
         required: []
@@ -582,13 +632,22 @@ export interface UIActions {
 export class AgentToolExecutor {
   private originalUserIntent: string = ''
   private chainLength: number = 0
+  private activeTool: string | null = null
   
   constructor(
     private project: ProjectSchema,
-    private updateProject: (updater: (prev: ProjectSchema) => ProjectSchema) => void,
+    private applyProjectUpdate: (updater: (prev: ProjectSchema) => ProjectSchema) => void,
     private uiActions?: UIActions
   ) {}
 
+  // Attribute project updates to the tool that made them in the undo history
+  private updateProject = (updater: (prev: ProjectSchema) => ProjectSchema) => {
+    projectHistory.runWithSource(
+      { type: 'tool', tool: this.activeTool || 'agent' },
+      () => this.applyProjectUpdate(updater)
+    )
+  }
+
   setUserIntent(userMessage: string) {
     this.originalUserIntent = userMessage.toLowerCase()
     this.chainLength = 0
@@ -634,7 +693,17 @@ export class AgentToolExecutor {
 
   async executeFunction(functionName: string, args: any): Promise<any> {
     this.chainLength++
-    
+
+    const previousTool = this.activeTool
+    this.activeTool = functionName
+    try {
+      return await this.dispatchFunction(functionName, args)
+    } finally {
+      this.activeTool = previousTool
+    }
+  }
+
+  private async dispatchFunction(functionName: string, args: any): Promise<any> {
     switch (functionName) {
       case "analyze_project_state":
         return this.analyzeProjectState()
@@ -654,6 +723,9 @@ export class AgentToolExecutor {
       case "get_embedded_preview":
         return this.getEmbeddedPreview()
       
+      case "audit_accessibility":
+        return this.auditAccessibility(args)
+      
       case "switch_ui_tab":
         return this.switchUITab(args)
       
@@ -669,6 +741,9 @@ export class AgentToolExecutor {
       case "add_component_to_scene":
         return this.addComponentToScene(args)
       
+      case "generate_scene_code":
+        return this.generateSceneCode(args)
+      
       case "generate_project_plan":
         return this.generateProjectPlan(args)
       
@@ -710,7 +785,10 @@ export class AgentToolExecutor {
         name: c.name,
         has_generated_code: !!c.generatedCode,
         generation_method: c.generationMethod,
-        source: c.source
+        source: c.source,
+        type_errors: c.diagnostics ? countErrors(c.diagnostics) : undefined,
+        runtime_errors: c.runtimeErrors?.length || undefined,
+        accessibility_violations: c.accessibility ? countViolationNodes(c.accessibility.violations) : undefined
       })),
       total_assets: this.project.assets?.length || 0,
       assets: (this.project.assets || []).map(a => ({
@@ -752,7 +830,7 @@ export class AgentToolExecutor {
         }
       })
       
-      const component: ComponentSchema = {
+      const component: ComponentSchema = await applyDiagnostics(await applyInferredProps({
         id: `comp-${Date.now()}`,
         name: result.componentName || name,
         type: 'component',
@@ -761,7 +839,7 @@ export class AgentToolExecutor {
         source: 'custom',
         generatedCode: result.code,
         generationMethod: 'v0'
-      }
+      }))
 
       // Update project with new component
       this.updateProject(prev => ({
@@ -772,8 +850,11 @@ export class AgentToolExecutor {
 
       return {
         success: true,
-        data: { component },
-        summary: `Generated component "${component.name}" using v0. Added to project.`
+        data: {
+          component,
+          diagnostics: component.diagnostics && formatDiagnostics(component.diagnostics)
+        },
+        summary: `Generated component "${component.name}" using v0. Added to project. ${describeDiagnostics(component.diagnostics)}`
       }
     } catch (error) {
       return {
@@ -788,8 +869,9 @@ export class AgentToolExecutor {
     try {
       const { componentId, editInstructions, reflectionInsights } = args
       
-      // Find the component to edit
-      const component = this.project.components.find(c => c.id === componentId)
+      // Find the component to edit, as earlier tool calls left it
+      const project = this.latestProject()
+      const component = project.components.find(c => c.id === componentId)
       if (!component) {
         throw new Error(`Component with ID ${componentId} not found`)
       }
@@ -811,12 +893,20 @@ export class AgentToolExecutor {
       const result = await V0GenerationService.generateComponent({
         prompt: `Edit this existing React component:\n\n${component.generatedCode}\n\nModifications requested: ${fullPrompt}`,
         projectContext: {
-          framework: this.project.framework,
-          components: this.project.components.map(c => c.name),
-          dependencies: this.project.dependencies || {}
+          framework: project.framework,
+          components: project.components.map(c => c.name),
+          dependencies: project.dependencies || {}
         }
       })
 
+      // Edits can add, remove or retype props, so read them again from the new code
+      const { props, diagnostics } = await applyDiagnostics(
+        await applyInferredProps({ ...component, generatedCode: result.code })
+      )
+
+      // Without a baseline the edit is compared with the component as it rendered just before it
+      const before = component.visualBaselineId ? null : await this.captureScreenshot(project, component)
+
       // Update the component with edited code
       this.updateProject(prev => ({
         ...prev,
@@ -825,6 +915,9 @@ export class AgentToolExecutor {
             ? {
                 ...c,
                 generatedCode: result.code,
+                props,
+                diagnostics,
+                accessibility: undefined, // Audited the old code
                 updatedAt: new Date().toISOString()
               }
             : c
@@ -832,14 +925,23 @@ export class AgentToolExecutor {
         updatedAt: new Date().toISOString()
       }))
 
+      const visualDiff = await this.recordVisualChange(
+        { ...component, generatedCode: result.code, props, accessibility: undefined },
+        before
+      )
+
       return {
         success: true,
         data: { 
           componentId,
           componentName: component.name,
-          edited: true
+          edited: true,
+          diagnostics: diagnostics && formatDiagnostics(diagnostics),
+          visual_change: visualDiff ? describeVisualDiff(visualDiff) : undefined
         },
-        summary: `Edited component "${component.name}" based on: ${editInstructions.substring(0, 100)}...`
+        summary: `Edited component "${component.name}" based on: ${editInstructions.substring(0, 100)}... ${describeDiagnostics(diagnostics)}${
+          visualDiff ? ` ${describeVisualDiff(visualDiff)}` : ''
+        }`
       }
     } catch (error) {
       return {
@@ -850,6 +952,43 @@ export class AgentToolExecutor {
     }
   }
 
+  // Screenshot the component as the project renders it and store the screenshot. A failed capture
+  // only costs the visual comparison, so it is logged rather than failing the tool.
+  private async captureScreenshot(project: ProjectSchema, component: ComponentSchema): Promise<ProjectScreenshot | null> {
+    try {
+      const screenshot = await componentScreenshot(project.id, component.id, await ScreenshotService.captureComponent(project, component.id))
+      this.updateProject(prev => withScreenshot(prev, screenshot))
+      return screenshot
+    } catch (error) {
+      console.warn(`Failed to capture ${component.name}:`, error)
+      return null
+    }
+  }
+
+  // Screenshot the edited component and compare it with its baseline, or with the screenshot taken
+  // before the edit. The comparison waits on the component for review.
+  private async recordVisualChange(edited: ComponentSchema, before: ProjectScreenshot | null): Promise<VisualDiff | null> {
+    const latest = this.latestProject()
+    let project: ProjectSchema = {
+      ...latest,
+      components: latest.components.map(c => (c.id === edited.id ? edited : c))
+    }
+    if (before) project = withScreenshot(project, before)
+
+    const after = await this.captureScreenshot(project, edited)
+    if (!after) return null
+    project = withScreenshot(project, after)
+
+    try {
+      const diff = await compareComponentScreenshots(project, edited.id)
+      if (diff) this.updateProject(prev => withVisualDiff(prev, edited.id, diff))
+      return diff
+    } catch (error) {
+      console.warn(`Failed to compare screenshots of ${edited.name}:`, error)
+      return null
+    }
+  }
+
   private async generateImageAsset(args: { name: string, prompt: string, background?: string, size?: string }) {
     try {
       const { name, prompt, background = 'transparent', size = '1024x1024' } = args
@@ -982,7 +1121,7 @@ export class AgentToolExecutor {
   }
 
   private getEmbeddedPreview() {
-    // Return information about the embedded preview system
+    const failing = this.project.components.filter(c => c.runtimeErrors && c.runtimeErrors.length > 0)
     return {
       success: true,
       data: {
@@ -992,9 +1131,56 @@ export class AgentToolExecutor {
         has_assets: (this.project.assets?.length || 0) > 0,
         framework: this.project.framework,
         last_updated: this.project.updatedAt,
-        sample_components: ['CharacterCard']
+        components_with_errors: failing.map(c => ({
+          id: c.id,
+          name: c.name,
+          errors: formatRuntimeErrors(c.runtimeErrors!)
+        }))
       },
-      summary: `Embedded preview is ready with ${this.project.components.length} components. Supports live rendering of sample components.`
+      summary: `Embedded preview renders ${this.project.components.length} components. ${
+        failing.length > 0
+          ? `${failing.length} reported errors when rendered: ${failing.map(c => c.name).join(', ')}. Fix them with edit_component.`
+          : 'No component reported errors when rendered.'
+      }`
+    }
+  }
+
+  private async auditAccessibility(args: { componentId?: string }) {
+    try {
+      const { componentId } = args
+      if (componentId && !this.project.components.some(c => c.id === componentId)) {
+        throw new Error(`Component with ID ${componentId} not found`)
+      }
+
+      const audits = await auditComponents(this.project, componentId ? [componentId] : undefined)
+      const audited = this.project.components.filter(c => audits[c.id])
+      if (audited.length === 0) {
+        throw new Error(componentId ? 'The component has no code to audit' : 'No component has code to audit')
+      }
+      this.updateProject(prev => withAccessibilityAudits(prev, audits))
+
+      const failing = audited.filter(c => audits[c.id].violations.length > 0)
+      return {
+        success: true,
+        data: {
+          components: audited.map(c => ({
+            id: c.id,
+            name: c.name,
+            violations: formatAccessibilityViolations(audits[c.id].violations)
+          }))
+        },
+        summary: `Audited ${audited.length} component${audited.length === 1 ? '' : 's'} with axe-core. ${
+          failing.length > 0
+            ? `Violations in ${failing.map(c => `${c.name} (${countViolationNodes(audits[c.id].violations)})`).join(', ')}. Fix them with edit_component.`
+            : 'No accessibility violations found.'
+        }`
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Accessibility audit failed',
+        summary: `Failed to audit accessibility: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }
     }
   }
 
@@ -1204,6 +1390,32 @@ export class AgentToolExecutor {
     }
   }
 
+  private generateSceneCode(args: { sceneId?: string }) {
+    const sceneId = args.sceneId || this.project.activeSceneId
+    const scene = this.project.scenes.find(s => s.id === sceneId)
+    if (!scene) {
+      return {
+        success: false,
+        error: sceneId ? `Scene with ID ${sceneId} not found` : 'No scene specified and no active scene',
+        summary: 'Could not generate scene code: scene not found'
+      }
+    }
+
+    const page = SceneCodegenService.generatePage(scene, this.project.components)
+    return {
+      success: true,
+      data: {
+        sceneId: scene.id,
+        componentName: page.componentName,
+        code: page.code,
+        importedComponents: page.components.map(c => c.name),
+        skippedInstances: page.skippedInstances
+      },
+      summary: `Generated ${page.componentName} for scene "${scene.name}" using ${page.components.length} component(s)` +
+        (page.skippedInstances.length > 0 ? `, skipped ${page.skippedInstances.length} hidden or broken instance(s)` : '')
+    }
+  }
+
   private async uploadImageToBunnyCDN(
     base64Data: string, 
     fileName: string, 
@@ -1397,6 +1609,8 @@ export class AgentToolExecutor {
         throw new Error(`Task with ID ${args.taskId} not found in the project plan`)
       }
 
+      await this.takeAutoSnapshot(`Before task "${task.title}"`)
+
              // Check if task can be executed automatically
        let taskStatus: 'todo' | 'in-progress' | 'review' | 'done' = 'in-progress'
        let executionNotes = args.executionNotes || `Started execution of ${task.type} task`
@@ -1505,6 +1719,8 @@ export class AgentToolExecutor {
       }
     }
 
+    await this.takeAutoSnapshot('Before development session')
+
     try {
       // Implement development session logic here
       // This is a placeholder and should be replaced with actual implementation
@@ -1540,6 +1756,26 @@ export class AgentToolExecutor {
     }
   }
 
+  // this.project is the state the executor started with; earlier tool calls in the run may have
+  // changed the project since. Returning prev leaves it as it is.
+  private latestProject(): ProjectSchema {
+    let latest = this.project
+    this.applyProjectUpdate(prev => {
+      latest = prev
+      return prev
+    })
+    return latest
+  }
+
+  // Checkpoint the latest project before tools that make many changes at once
+  private async takeAutoSnapshot(name: string) {
+    try {
+      await ProjectSnapshotService.createSnapshot(this.latestProject(), name, 'auto')
+    } catch (error) {
+      console.warn('Failed to take automatic snapshot:', error)
+    }
+  }
+
   private async reflectOnArtifact(args: { artifactType: string, artifactId: string, aspectsToReview?: string[] }) {
     const { artifactType, artifactId, aspectsToReview = [] } = args
     
@@ -1611,6 +1847,7 @@ export class AgentToolExecutor {
       aspectsReviewed: aspectsToCheck,
       timestamp: new Date().toISOString(),
       recommendations: [] as string[],
+      visualAnalysis: undefined as ScreenshotAnalysis | undefined, // Of a fresh screenshot of a component
       projectAlignment: {
         fitsProjectVision: true,
         maintainsConsistency: true,
@@ -1667,9 +1904,33 @@ export class AgentToolExecutor {
     }
     
     // Add artifact-specific recommendations
+    if (artifactType === 'component' && artifact.runtimeErrors?.length) {
+      formatRuntimeErrors(artifact.runtimeErrors).forEach(error => {
+        insights.recommendations.push(`Fix the error the preview reported: ${error}`)
+      })
+    }
+    if (artifactType === 'component' && artifact.visualDiff?.status === 'rejected') {
+      insights.recommendations.push(`The user rejected the last visual change (${describeVisualDiff(artifact.visualDiff)}) Revert or rework it with edit_component`)
+    } else if (artifactType === 'component' && artifact.visualDiff?.status === 'pending') {
+      insights.recommendations.push(`A visual change is waiting for the user's review: ${describeVisualDiff(artifact.visualDiff)}`)
+    }
     if (artifactType === 'component' && artifact.generatedCode) {
-      if (!artifact.generatedCode.includes('aria-')) {
-        insights.recommendations.push('Consider adding ARIA labels for better accessibility')
+      const rendering = await this.analyzeRendering(artifact)
+      if (rendering) {
+        insights.visualAnalysis = storedAnalysis(rendering)
+        rendering.suggestions?.forEach(suggestion => {
+          insights.recommendations.push(`From the screenshot: ${suggestion}`)
+        })
+      }
+    }
+    if (artifactType === 'component' && artifact.accessibility) {
+      formatAccessibilityViolations(artifact.accessibility.violations).forEach(violation => {
+        insights.recommendations.push(`Fix the accessibility violation: ${violation}`)
+      })
+    }
+    if (artifactType === 'component' && artifact.generatedCode) {
+      if (!artifact.accessibility) {
+        insights.recommendations.push('Not audited for accessibility yet: run audit_accessibility on the component')
       }
       if (!artifact.generatedCode.includes('useState') && artifact.generatedCode.includes('onClick')) {
         insights.recommendations.push('Component has interactions but no state management')
@@ -1715,65 +1976,100 @@ export class AgentToolExecutor {
     }
   }
 
-  private async capturePreviewScreenshot(args: { componentId?: string, captureMode?: string }) {
+  // Screenshot the component and analyze the image, so a critique rests on what actually renders.
+  // The analyzed screenshot joins the component's history.
+  private async analyzeRendering(component: ComponentSchema): Promise<ScreenshotReview | null> {
     try {
-      // Import screenshot service
-      const { ScreenshotService } = await import('./screenshotService')
-      
-      // Capture the screenshot
-      const screenshot = await ScreenshotService.capturePreview({
-        componentId: args.componentId,
-        captureMode: args.captureMode as 'full' | 'component' | 'viewport' || 'viewport'
+      const captured = await ScreenshotService.captureComponent(this.project, component.id)
+      const analysis = await ScreenshotService.analyzeScreenshot(captured, this.project.plan?.designSystem?.colorPalette)
+      const screenshot = { ...(await componentScreenshot(this.project.id, component.id, captured)), analysis: storedAnalysis(analysis) }
+      this.updateProject(prev => withScreenshot(prev, screenshot))
+      return analysis
+    } catch (error) {
+      console.warn(`Failed to analyze a screenshot of ${component.name}:`, error)
+      return null
+    }
+  }
+
+  private async capturePreviewScreenshot(args: { componentId?: string, captureMode?: string, devices?: string[] }) {
+    try {
+      const { componentId, devices = [] } = args
+      const captureMode = (args.captureMode || (componentId ? 'component' : 'viewport')) as Screenshot['captureMode']
+      if (componentId && !this.project.components.some(c => c.id === componentId)) {
+        throw new Error(`Component with ID ${componentId} not found`)
+      }
+      const projectPresets = devicePresets(projectBreakpoints(this.project))
+      const presets = devices.map(id => {
+        const preset = projectPresets.find(candidate => candidate.id === id && candidate.width > 0)
+        if (!preset) throw new Error(`Unknown device "${id}"`)
+        return preset
       })
-      
-      // Analyze the screenshot for quality
-      const analysis = await ScreenshotService.analyzeScreenshot(screenshot)
-      
-      // Try to upload to CDN if available
-      let cdnUrl: string | undefined
-      if (BunnyCDNService.isConfigured()) {
-        const bunnycdn = new BunnyCDNService()
-        const uploadResult = await ScreenshotService.captureAndUploadToCDN(screenshot, bunnycdn)
-        if (uploadResult.success && uploadResult.cdnUrl) {
-          cdnUrl = uploadResult.cdnUrl
+
+      // Rendered and captured inside preview iframes, so the screenshots show the components as they run
+      const screenshots = await ScreenshotService.capturePreview(this.project, {
+        componentId,
+        captureMode,
+        devices: presets
+      })
+
+      const palette = this.project.plan?.designSystem?.colorPalette
+      const bunnycdn = BunnyCDNService.isConfigured() ? new BunnyCDNService() : null
+      const captured = await Promise.all(screenshots.map(async screenshot => {
+        const analysis = await ScreenshotService.analyzeScreenshot(screenshot, palette)
+
+        // Try to upload to CDN if available
+        let cdnUrl: string | undefined
+        if (bunnycdn) {
+          const uploadResult = await ScreenshotService.captureAndUploadToCDN(screenshot, bunnycdn)
+          if (uploadResult.success && uploadResult.cdnUrl) {
+            cdnUrl = uploadResult.cdnUrl
+          }
         }
-      }
-      
-      // Store screenshot reference in project
+        const stored = await withStoredImage(this.project.id, {
+          id: screenshot.id,
+          componentId: screenshot.componentId,
+          timestamp: screenshot.timestamp,
+          cdnUrl,
+          dataUrl: screenshot.dataUrl,
+          captureMode: screenshot.captureMode,
+          device: screenshot.device,
+          analysis: storedAnalysis(analysis)
+        })
+        return { screenshot, analysis, cdnUrl, stored }
+      }))
+
+      // Store the screenshots in the project, replacing the oldest ones taken the same way
       this.updateProject(prev => ({
-        ...prev,
-        screenshots: [
-          ...(prev.screenshots || []),
-          {
-            id: screenshot.id,
-            componentId: screenshot.componentId,
-            timestamp: screenshot.timestamp,
-            cdnUrl,
-            analysis: {
-              hasContent: analysis.hasContent,
-              quality: analysis.quality,
-              dimensions: analysis.dimensions
-            }
-          }
-        ],
+        ...captured.reduce<ProjectSchema>((project, { stored }) => withScreenshot(project, stored), prev),
         updatedAt: new Date().toISOString()
       }))
 
+      const describe = ({ screenshot, analysis, cdnUrl }: typeof captured[number]) =>
+        `${screenshot.device ? `${screenshot.device} ` : ''}${screenshot.width}x${screenshot.height}, ${analysis.quality} quality${
+          cdnUrl ? `, uploaded to ${cdnUrl}` : ''
+        }${analysis.suggestions ? `. Suggestions: ${analysis.suggestions.join('; ')}` : ''}`
+
       return {
         success: true,
         data: {
-          screenshotId: screenshot.id,
-          componentId: screenshot.componentId,
-          captureMode: screenshot.captureMode,
-          dimensions: `${screenshot.width}x${screenshot.height}`,
-          quality: analysis.quality,
-          cdnUrl,
-          hasContent: analysis.hasContent,
-          suggestions: analysis.suggestions
+          componentId,
+          captureMode,
+          screenshots: captured.map(({ screenshot, analysis, cdnUrl }) => ({
+            screenshotId: screenshot.id,
+            device: screenshot.device,
+            dimensions: `${screenshot.width}x${screenshot.height}`,
+            quality: analysis.quality,
+            cdnUrl,
+            hasContent: analysis.hasContent,
+            dominantColors: analysis.dominantColors,
+            contrast: analysis.contrast,
+            clippedEdges: analysis.clippedEdges,
+            suggestions: analysis.suggestions
+          }))
         },
-        summary: `Captured ${screenshot.captureMode} screenshot (${screenshot.width}x${screenshot.height}, ${analysis.quality} quality).${
-          cdnUrl ? ` Uploaded to CDN: ${cdnUrl}` : ' Stored locally.'
-        }${analysis.suggestions ? ` Suggestions: ${analysis.suggestions.join('; ')}` : ''}`
+        summary: `Captured ${captured.length} ${captureMode} screenshot${captured.length === 1 ? '' : 's'} and saved ${
+          captured.length === 1 ? 'it' : 'them'
+        } to the project: ${captured.map(describe).join(' | ')}`
       }
     } catch (error) {
       return {
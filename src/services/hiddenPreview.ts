@@ -0,0 +1,148 @@
+import { previewBundler } from './previewBundler'
+import { componentModule } from './previewModules'
+import { projectBreakpoints } from './previewDevices'
+import {
+  isPreviewEvent,
+  previewBridgeScript,
+  samplePreviewProps,
+  PREVIEW_COMMAND_SOURCE,
+  type PreviewCommand,
+  type PreviewReply
+} from './previewBridge'
+import type { ProjectSchema, ComponentSchema } from '../types/schema'
+
+const READY_TIMEOUT_MS = 20000
+
+export const HIDDEN_PREVIEW_SIZE = { width: 1280, height: 800 }
+
+interface PendingRequest {
+  resolve: (reply: PreviewReply) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+// Components rendered in an offscreen iframe, for callers without a preview on screen such as agent
+// tools. It is laid out like a visible preview, so audits and screenshots see what users see.
+export class HiddenPreview {
+  private frame: HTMLIFrameElement
+  private requests = new Map<string, PendingRequest>()
+  private onReady: (() => void) | null = null
+
+  private constructor(size: { width: number; height: number }) {
+    this.frame = document.createElement('iframe')
+    this.frame.setAttribute('sandbox', 'allow-scripts')
+    this.frame.setAttribute('aria-hidden', 'true')
+    this.frame.setAttribute('style', `position:fixed;left:-10000px;top:0;width:${size.width}px;height:${size.height}px;border:0`)
+    window.addEventListener('message', this.handleMessage)
+  }
+
+  // Each component renders into the element with id instanceId(component.id), with sample props
+  static async open(project: ProjectSchema, components: ComponentSchema[], size = HIDDEN_PREVIEW_SIZE): Promise<HiddenPreview> {
+    return HiddenPreview.mount(await HiddenPreview.build(project, components), size)
+  }
+
+  // The document open() renders, for mounting it more than once, e.g. at several sizes
+  static async build(project: ProjectSchema, components: ComponentSchema[]): Promise<string> {
+    const rendered = components.filter(c => c.generatedCode)
+    const { html } = await previewBundler.buildDocument({
+      title: `${project.name} - Hidden Preview`,
+      bodyClass: 'bg-background text-foreground',
+      body: rendered.map(c => `<div id="${HiddenPreview.instanceId(c.id)}" class="p-8"></div>`).join('\n'),
+      modules: rendered.map(componentModule),
+      library: project.components
+        .filter(c => c.generatedCode && !rendered.includes(c))
+        .map(componentModule),
+      script: previewBridgeScript(rendered.map(c => ({
+        id: HiddenPreview.instanceId(c.id),
+        componentId: c.id,
+        module: componentModule(c).id,
+        name: c.name,
+        props: samplePreviewProps(c.props)
+      }))),
+      breakpoints: projectBreakpoints(project)
+    })
+    return html
+  }
+
+  static async mount(html: string, size = HIDDEN_PREVIEW_SIZE): Promise<HiddenPreview> {
+    const preview = new HiddenPreview(size)
+    try {
+      await preview.load(html)
+      return preview
+    } catch (error) {
+      preview.close()
+      throw error
+    }
+  }
+
+  static instanceId(componentId: string): string {
+    return `hidden-${componentId}`
+  }
+
+  private load(html: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.onReady = null
+        reject(new Error('The hidden preview did not start'))
+      }, READY_TIMEOUT_MS)
+      this.onReady = () => {
+        clearTimeout(timer)
+        this.onReady = null
+        resolve()
+      }
+      this.frame.srcdoc = html
+      document.body.appendChild(this.frame)
+    })
+  }
+
+  private handleMessage = (message: MessageEvent) => {
+    if (message.source !== this.frame.contentWindow || !isPreviewEvent(message.data)) return
+    const event = message.data
+    if (event.type === 'ready') {
+      this.onReady?.()
+    } else if ('requestId' in event) {
+      const pending = this.requests.get(event.requestId)
+      if (!pending) return
+      this.requests.delete(event.requestId)
+      clearTimeout(pending.timer)
+      if ('error' in event) pending.reject(new Error(event.error))
+      else pending.resolve(event)
+    }
+  }
+
+  request(command: (requestId: string) => PreviewCommand, timeoutMs: number, timeoutMessage: string): Promise<PreviewReply> {
+    const requestId = `request-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.requests.delete(requestId)
+        reject(new Error(timeoutMessage))
+      }, timeoutMs)
+      this.requests.set(requestId, { resolve, reject, timer })
+      this.frame.contentWindow?.postMessage({ ...command(requestId), source: PREVIEW_COMMAND_SOURCE }, '*')
+    })
+  }
+
+  close() {
+    window.removeEventListener('message', this.handleMessage)
+    this.requests.forEach(pending => {
+      clearTimeout(pending.timer)
+      pending.reject(new Error('Hidden preview closed before it answered'))
+    })
+    this.requests.clear()
+    this.frame.remove()
+  }
+}
+
+// Opens a hidden preview for the duration of run
+export async function withHiddenPreview<T>(
+  project: ProjectSchema,
+  components: ComponentSchema[],
+  run: (preview: HiddenPreview) => Promise<T>
+): Promise<T> {
+  const preview = await HiddenPreview.open(project, components)
+  try {
+    return await run(preview)
+  } finally {
+    preview.close()
+  }
+}
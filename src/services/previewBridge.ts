@@ -0,0 +1,582 @@
+import type { ProjectSchema, ComponentSchema, ComponentRuntimeError, PropDefinition, AccessibilityAudit } from '../types/schema'
+import type { BundledPreviewModule } from './previewBundler'
+
+// Tags every message so unrelated postMessage traffic is ignored on both sides
+export const PREVIEW_EVENT_SOURCE = 'hedgekit-preview'
+export const PREVIEW_COMMAND_SOURCE = 'hedgekit-host'
+
+const MAX_RUNTIME_ERRORS = 5
+
+// The preview document supplies the page around the components, so page-level rules would only
+// report on it
+const PAGE_LEVEL_RULES = ['bypass', 'document-title', 'html-has-lang', 'landmark-one-main', 'page-has-heading-one', 'region']
+
+const AXE_OPTIONS = {
+  elementRef: true,
+  resultTypes: ['violations'],
+  rules: Object.fromEntries(PAGE_LEVEL_RULES.map(rule => [rule, { enabled: false }]))
+}
+
+// Props must survive postMessage, so function props travel as a marker the preview turns into a logger
+export type PreviewProps = Record<string, unknown>
+
+export interface PreviewFunctionProp {
+  $previewFunction: string
+}
+
+// One rendered component: a standalone component preview or a scene instance
+export interface PreviewInstance {
+  id: string // Id of the element it renders into; scene instances use their ComponentInstance id
+  componentId: string
+  module: string // Preview module id, see componentModule()
+  name: string
+  props?: PreviewProps
+}
+
+export interface PreviewConsoleEntry {
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug'
+  message: string
+  timestamp: string
+}
+
+export interface PreviewScreenshot {
+  dataUrl: string
+  width: number
+  height: number
+}
+
+// Sent by the preview document to the app
+export type PreviewEvent =
+  | { type: 'ready'; instances: string[] }
+  | { type: 'rendered'; instanceId: string; componentId: string }
+  | { type: 'render-error'; instanceId?: string; componentId?: string; error: ComponentRuntimeError }
+  | { type: 'console'; entry: PreviewConsoleEntry }
+  | { type: 'resize'; width: number; height: number }
+  | ({ type: 'screenshot'; requestId: string } & ({ screenshot: PreviewScreenshot } | { error: string }))
+  | ({ type: 'accessibility-audit'; requestId: string } & ({ audits: Record<string, AccessibilityAudit> } | { error: string }))
+  | { type: 'hot-update'; updateId: string; status: 'applied' }
+  | { type: 'hot-update'; updateId: string; status: 'reload-required'; reason: string }
+
+// Events that answer a command sent with a requestId
+export type PreviewReply = Extract<PreviewEvent, { requestId: string }>
+
+// Sent by the app to the preview document
+export type PreviewCommand =
+  | { type: 'set-props'; instanceId: string; props: PreviewProps }
+  | { type: 're-render'; instanceId?: string } // Remounts, resetting state and error boundaries
+  // Captures the target, or the whole document; viewport limits a document capture to what is in view
+  | { type: 'capture-screenshot'; requestId: string; instanceId?: string; componentId?: string; viewport?: boolean }
+  // Audits the target, or the whole document, with axe-core; the source is evaluated the first time
+  | { type: 'audit-accessibility'; requestId: string; axeSource: string; instanceId?: string; componentId?: string }
+  | { type: 'highlight'; instanceId: string | null }
+  | PreviewHotUpdate
+
+// Changes applied to a running document instead of reloading it
+export interface PreviewHotUpdate {
+  type: 'hot-update'
+  updateId: string
+  modules: BundledPreviewModule[] // Redefined; instances rendering them or anything importing them re-render
+  remount: string[] // Modules whose hook calls changed, so instances rendering them cannot keep their state
+  css?: string // Replaces the document stylesheet
+  sections?: Record<string, string> // Section id -> markup, see previewSection()
+}
+
+export function isPreviewEvent(data: unknown): data is PreviewEvent {
+  return !!data && typeof data === 'object' && (data as { source?: unknown }).source === PREVIEW_EVENT_SOURCE
+}
+
+export function previewFunction(name: string): PreviewFunctionProp {
+  return { $previewFunction: name }
+}
+
+// Stand-in values for a component's props: declared defaults first, then a sample by type
+export function samplePreviewProps(props: Record<string, PropDefinition>): PreviewProps {
+  return Object.fromEntries(Object.entries(props).map(([key, prop]) => {
+    if (prop.type === 'function') return [key, previewFunction(key)]
+    if (prop.defaultValue !== undefined) return [key, prop.defaultValue]
+    switch (prop.type) {
+      case 'string': return [key, `Sample ${key}`]
+      case 'number': return [key, 42]
+      case 'boolean': return [key, true]
+      case 'array': return [key, []]
+      default: return [key, null]
+    }
+  }))
+}
+
+// The hooks a module calls, in order of appearance. Swapping in code with the same signature keeps
+// component state; a different one would break React's hook order, so instances are remounted.
+export function hookSignature(code: string): string {
+  return (code.match(/\buse[A-Z]\w*(?=\s*[(.])/g) || []).join(',')
+}
+
+// Runs inside the preview document after its modules: mounts each instance behind an error boundary
+// and reports readiness, renders, errors, console output and size changes to the parent window
+const BRIDGE_SCRIPT = `(function () {
+  var React = __hedgekit.require('react');
+  var ReactDOMClient = __hedgekit.require('react-dom/client');
+  var instances = {};
+  var hasHost = window.parent && window.parent !== window;
+
+  function post(event) {
+    if (!hasHost) return;
+    event.source = ${JSON.stringify(PREVIEW_EVENT_SOURCE)};
+    window.parent.postMessage(event, '*');
+  }
+
+  function describe(value) {
+    if (value instanceof Error) return value.stack || value.message;
+    if (typeof value === 'string') return value;
+    try {
+      var json = JSON.stringify(value);
+      return json === undefined ? String(value) : json;
+    } catch (error) {
+      return String(value);
+    }
+  }
+
+  function runtimeError(phase, error, extraStack) {
+    var message = error && error.message ? error.message : describe(error);
+    var stack = [error && error.stack, extraStack].filter(Boolean).join('\\n');
+    return { phase: phase, message: message, stack: stack || undefined, timestamp: new Date().toISOString() };
+  }
+
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      var message = Array.prototype.map.call(arguments, describe).join(' ');
+      post({ type: 'console', entry: { level: level, message: message, timestamp: new Date().toISOString() } });
+      return original.apply(console, arguments);
+    };
+  });
+
+  window.addEventListener('error', function (event) {
+    post({ type: 'render-error', error: runtimeError('runtime', event.error || event.message) });
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    post({ type: 'render-error', error: runtimeError('runtime', event.reason) });
+  });
+
+  function decodeProps(props) {
+    var decoded = {};
+    Object.keys(props || {}).forEach(function (key) {
+      var value = props[key];
+      if (value && typeof value === 'object' && typeof value.$previewFunction === 'string') {
+        var name = value.$previewFunction;
+        decoded[key] = function () {
+          console.info(name + '(' + Array.prototype.map.call(arguments, describe).join(', ') + ')');
+        };
+      } else {
+        decoded[key] = value;
+      }
+    });
+    return decoded;
+  }
+
+  function errorBox(title, message) {
+    return React.createElement('div', {
+      role: 'alert',
+      style: { border: '2px solid #ef4444', background: '#fef2f2', color: '#dc2626', padding: '1rem', borderRadius: '0.5rem', fontSize: '0.875rem' }
+    }, [
+      React.createElement('strong', { key: 'title', style: { display: 'block', marginBottom: '0.25rem' } }, title),
+      React.createElement('span', { key: 'message' }, message)
+    ]);
+  }
+
+  function Boundary(props) {
+    React.Component.call(this, props);
+    this.state = { error: null };
+  }
+  Boundary.prototype = Object.create(React.Component.prototype);
+  Boundary.prototype.constructor = Boundary;
+  Boundary.getDerivedStateFromError = function (error) {
+    return { error: error };
+  };
+  Boundary.prototype.componentDidCatch = function (error, info) {
+    var instance = this.props.instance;
+    instance.failed = true;
+    post({
+      type: 'render-error',
+      instanceId: instance.id,
+      componentId: instance.componentId,
+      error: runtimeError('render', error, info && info.componentStack)
+    });
+  };
+  Boundary.prototype.componentDidMount = function () {
+    this.reportRendered();
+  };
+  Boundary.prototype.componentDidUpdate = function () {
+    this.reportRendered();
+  };
+  Boundary.prototype.reportRendered = function () {
+    if (this.state.error) return;
+    this.props.instance.failed = false;
+    post({ type: 'rendered', instanceId: this.props.instance.id, componentId: this.props.instance.componentId });
+  };
+  Boundary.prototype.render = function () {
+    if (this.state.error) {
+      return errorBox('Render error', this.props.instance.name + ' failed to render: ' + (this.state.error.message || describe(this.state.error)));
+    }
+    return this.props.children;
+  };
+
+  // Renders the instance's current implementation from inside a stable component: function
+  // components are called directly, so a hot-swapped version keeps the hooks state of the old one
+  function hotProxy(instance) {
+    function HotProxy(props) {
+      var Component = instance.Component;
+      var isClass = Component.prototype && Component.prototype.isReactComponent;
+      return typeof Component === 'function' && !isClass ? Component(props) : React.createElement(Component, props);
+    }
+    HotProxy.displayName = instance.name;
+    return HotProxy;
+  }
+
+  function render(instance) {
+    var element;
+    try {
+      instance.Component = __hedgekit.component(instance.module);
+      instance.proxy = instance.proxy || hotProxy(instance);
+      element = React.createElement(Boundary, { instance: instance, key: instance.version },
+        React.createElement(instance.proxy, decodeProps(instance.props)));
+    } catch (error) {
+      instance.failed = true;
+      post({ type: 'render-error', instanceId: instance.id, componentId: instance.componentId, error: runtimeError('module', error) });
+      element = errorBox('Compilation error', instance.name + ' failed to compile: ' + (error && error.message ? error.message : describe(error)));
+    }
+    instance.root.render(element);
+  }
+
+  function mount(instance) {
+    var container = document.getElementById(instance.id);
+    if (!container) {
+      console.warn('No element with id "' + instance.id + '" to render ' + instance.name + ' into');
+      return;
+    }
+    container.setAttribute('data-component-id', instance.componentId);
+    instance.version = 0;
+    // The boundary reports caught errors itself
+    instance.root = ReactDOMClient.createRoot(container, { onCaughtError: function () {} });
+    instances[instance.id] = instance;
+    render(instance);
+  }
+
+  var highlightStyle = document.createElement('style');
+  highlightStyle.textContent = '[data-hedgekit-highlight] { outline: 2px solid #3b82f6; outline-offset: 2px; }';
+  document.head.appendChild(highlightStyle);
+
+  function highlight(instanceId) {
+    Array.prototype.forEach.call(document.querySelectorAll('[data-hedgekit-highlight]'), function (element) {
+      element.removeAttribute('data-hedgekit-highlight');
+    });
+    var element = instanceId && document.getElementById(instanceId);
+    if (element) {
+      element.setAttribute('data-hedgekit-highlight', '');
+      if (element.scrollIntoView) element.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    }
+  }
+
+  function captureTarget(command) {
+    if (command.instanceId) return document.getElementById(command.instanceId);
+    if (command.componentId) return document.querySelector('[data-component-id="' + CSS.escape(command.componentId) + '"]');
+    return document.body;
+  }
+
+  // Rasterizes the target through an SVG foreignObject, carrying the document's stylesheets along
+  function capture(command) {
+    function respond(result) {
+      result.type = 'screenshot';
+      result.requestId = command.requestId;
+      post(result);
+    }
+
+    var target = captureTarget(command);
+    if (!target) {
+      respond({ error: 'Nothing to capture: the target is not rendered' });
+      return;
+    }
+    var whole = target === document.body;
+    var rect = target.getBoundingClientRect();
+    var width = Math.max(1, Math.ceil(whole ? document.documentElement.scrollWidth : rect.width));
+    var height = Math.max(1, Math.ceil(whole ? document.documentElement.scrollHeight : rect.height));
+    // The part of the content drawn: all of it, or for a viewport capture what is scrolled into view
+    var view = whole && command.viewport
+      ? { x: window.scrollX, y: window.scrollY, width: window.innerWidth, height: window.innerHeight }
+      : { x: 0, y: 0, width: width, height: height };
+
+    var wrapper = document.createElement('div');
+    wrapper.className = document.body.className;
+    wrapper.setAttribute('style', 'width:' + width + 'px;height:' + height + 'px;overflow:hidden');
+    var styles = document.createElement('style');
+    styles.textContent = Array.prototype.map.call(document.querySelectorAll('style'), function (style) {
+      return style.textContent;
+    }).join('\\n');
+    wrapper.appendChild(styles);
+    Array.prototype.forEach.call(whole ? target.childNodes : [target], function (node) {
+      if (node.nodeName !== 'SCRIPT') wrapper.appendChild(node.cloneNode(true));
+    });
+
+    var svg = '<svg xmlns="http://www.w3.org/2000/svg" width="' + view.width + '" height="' + view.height + '">' +
+      '<foreignObject x="' + -view.x + '" y="' + -view.y + '" width="' + width + '" height="' + height + '">' +
+      new XMLSerializer().serializeToString(wrapper) + '</foreignObject></svg>';
+    var background = getComputedStyle(document.body).backgroundColor;
+    var image = new Image();
+    image.onload = function () {
+      try {
+        var scale = window.devicePixelRatio || 1;
+        var canvas = document.createElement('canvas');
+        canvas.width = Math.round(view.width * scale);
+        canvas.height = Math.round(view.height * scale);
+        var context = canvas.getContext('2d');
+        context.scale(scale, scale);
+        context.fillStyle = background && background !== 'rgba(0, 0, 0, 0)' ? background : '#ffffff';
+        context.fillRect(0, 0, view.width, view.height);
+        context.drawImage(image, 0, 0);
+        respond({ screenshot: { dataUrl: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height } });
+      } catch (error) {
+        respond({ error: 'Screenshot failed: ' + (error && error.message ? error.message : describe(error)) });
+      }
+    };
+    image.onerror = function () {
+      respond({ error: 'Screenshot failed: the preview could not be rasterized' });
+    };
+    image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg);
+  }
+
+  // Violations by the component whose instance each failing node renders in. Every component in the
+  // target gets an audit, so one that now passes replaces its earlier violations.
+  function componentAudits(target, violations) {
+    var auditedAt = new Date().toISOString();
+    var audits = {};
+    function auditFor(componentId) {
+      return audits[componentId] || (audits[componentId] = { violations: [], auditedAt: auditedAt });
+    }
+    var owner = target.closest('[data-component-id]');
+    if (owner) auditFor(owner.getAttribute('data-component-id'));
+    Array.prototype.forEach.call(target.querySelectorAll('[data-component-id]'), function (element) {
+      auditFor(element.getAttribute('data-component-id'));
+    });
+
+    violations.forEach(function (violation) {
+      var nodes = {};
+      violation.nodes.forEach(function (node) {
+        var container = node.element && node.element.closest('[data-component-id]');
+        if (!container) return;
+        var componentId = container.getAttribute('data-component-id');
+        (nodes[componentId] = nodes[componentId] || []).push({
+          selector: node.target.map(function (part) { return Array.isArray(part) ? part.join(' ') : part; }).join(' '),
+          html: node.html,
+          fix: node.failureSummary || ''
+        });
+      });
+      Object.keys(nodes).forEach(function (componentId) {
+        auditFor(componentId).violations.push({
+          rule: violation.id,
+          impact: violation.impact || 'minor',
+          help: violation.help,
+          helpUrl: violation.helpUrl,
+          nodes: nodes[componentId]
+        });
+      });
+    });
+    return audits;
+  }
+
+  // axe-core runs one audit at a time
+  var auditing = Promise.resolve();
+
+  function audit(command) {
+    function respond(result) {
+      result.type = 'accessibility-audit';
+      result.requestId = command.requestId;
+      post(result);
+    }
+
+    var target = captureTarget(command);
+    if (!target) {
+      respond({ error: 'Nothing to audit: the target is not rendered' });
+      return;
+    }
+    try {
+      if (!window.axe) new Function(command.axeSource).call(window);
+    } catch (error) {
+      respond({ error: 'axe-core failed to load: ' + (error && error.message ? error.message : describe(error)) });
+      return;
+    }
+    auditing = auditing
+      .then(function () {
+        return window.axe.run(target, ${JSON.stringify(AXE_OPTIONS)});
+      })
+      .then(function (results) {
+        respond({ audits: componentAudits(target, results.violations) });
+      }, function (error) {
+        respond({ error: 'Audit failed: ' + (error && error.message ? error.message : describe(error)) });
+      });
+  }
+
+  window.addEventListener('message', function (event) {
+    var command = event.data;
+    if (event.source !== window.parent || !command || command.source !== ${JSON.stringify(PREVIEW_COMMAND_SOURCE)}) return;
+    switch (command.type) {
+      case 'set-props':
+        if (instances[command.instanceId]) {
+          instances[command.instanceId].props = command.props;
+          render(instances[command.instanceId]);
+        }
+        break;
+      case 're-render':
+        Object.keys(instances).forEach(function (id) {
+          if (command.instanceId && command.instanceId !== id) return;
+          instances[id].version++;
+          render(instances[id]);
+        });
+        break;
+      case 'highlight':
+        highlight(command.instanceId);
+        break;
+      case 'capture-screenshot':
+        capture(command);
+        break;
+      case 'audit-accessibility':
+        audit(command);
+        break;
+    }
+  });
+
+  var lastSize = '';
+  function reportSize() {
+    var width = document.documentElement.scrollWidth;
+    var height = document.documentElement.scrollHeight;
+    if (width + 'x' + height === lastSize) return;
+    lastSize = width + 'x' + height;
+    post({ type: 'resize', width: width, height: height });
+  }
+  if (typeof ResizeObserver === 'function') {
+    var observer = new ResizeObserver(reportSize);
+    observer.observe(document.documentElement);
+    observer.observe(document.body);
+  }
+  window.addEventListener('resize', reportSize);
+
+  // Re-renders the instances affected by redefined modules. Instances whose module changed its
+  // hooks, or that are showing an error, are remounted; the rest keep their state.
+  __hedgekit.hotSwap = function (changed, remount) {
+    var invalidated = __hedgekit.invalidate(changed);
+    Object.keys(instances).forEach(function (id) {
+      var instance = instances[id];
+      if (invalidated.indexOf(instance.module) === -1) return;
+      if (instance.failed || remount.indexOf(instance.module) !== -1) instance.version++;
+      render(instance);
+    });
+  };
+
+  __hedgekit.start = function (list) {
+    list.forEach(mount);
+    post({ type: 'ready', instances: Object.keys(instances) });
+    reportSize();
+  };
+})();`
+
+// Applies hot updates sent by the app: replaces the stylesheet and sections, redefines modules and
+// lets the bridge re-render what they affect. Anything it cannot apply asks the app for a reload.
+const HOT_RELOAD_SCRIPT = `(function () {
+  function post(event) {
+    if (!window.parent || window.parent === window) return;
+    event.source = ${JSON.stringify(PREVIEW_EVENT_SOURCE)};
+    window.parent.postMessage(event, '*');
+  }
+
+  function apply(update) {
+    var modules = update.modules || [];
+    if (modules.length > 0 && !(window.__hedgekit && window.__hedgekit.hotSwap)) {
+      return 'This preview has no module runtime to swap modules into';
+    }
+    var sections = update.sections || {};
+    var missing = Object.keys(sections).filter(function (id) {
+      var element = document.getElementById(id);
+      return !element || !element.hasAttribute('data-hedgekit-section');
+    });
+    if (missing.length > 0) return 'No section "' + missing[0] + '" to update';
+
+    if (typeof update.css === 'string') {
+      var style = document.getElementById('hedgekit-styles');
+      if (!style) return 'The preview stylesheet is missing';
+      style.textContent = update.css;
+    }
+    Object.keys(sections).forEach(function (id) {
+      document.getElementById(id).innerHTML = sections[id];
+    });
+    if (modules.length > 0) {
+      modules.forEach(function (module) {
+        __hedgekit.define(module.id, new Function('module', 'exports', 'require', module.code), module.dependencies);
+      });
+      __hedgekit.hotSwap(modules.map(function (module) { return module.id; }), update.remount || []);
+    }
+    return null;
+  }
+
+  window.addEventListener('message', function (event) {
+    var command = event.data;
+    if (event.source !== window.parent || !command || command.source !== ${JSON.stringify(PREVIEW_COMMAND_SOURCE)}) return;
+    if (command.type !== 'hot-update') return;
+    var reason;
+    try {
+      reason = apply(command);
+    } catch (error) {
+      reason = 'Hot update failed: ' + (error && error.message ? error.message : String(error));
+    }
+    post(reason
+      ? { type: 'hot-update', updateId: command.updateId, status: 'reload-required', reason: reason }
+      : { type: 'hot-update', updateId: command.updateId, status: 'applied' });
+  });
+})();`
+
+// Preview document script that mounts the given instances and connects them to the app
+export function previewBridgeScript(instances: PreviewInstance[]): string {
+  return `${BRIDGE_SCRIPT}\n${HOT_RELOAD_SCRIPT}\n__hedgekit.start(${JSON.stringify(instances)});`
+}
+
+// For documents without the bridge: accepts stylesheet and section hot updates, and reports
+// ready so the app knows when it can send them
+export function previewHotReloadScript(): string {
+  return `${HOT_RELOAD_SCRIPT}
+if (window.parent && window.parent !== window) {
+  window.parent.postMessage({ source: ${JSON.stringify(PREVIEW_EVENT_SOURCE)}, type: 'ready', instances: [] }, '*');
+}`
+}
+
+// Keep the latest few distinct errors; an error that is already recorded is not added again
+export function withRuntimeError(project: ProjectSchema, componentId: string, error: ComponentRuntimeError): ProjectSchema {
+  const component = project.components.find(c => c.id === componentId)
+  if (!component) return project
+
+  const previous = component.runtimeErrors || []
+  if (previous.some(existing => existing.phase === error.phase && existing.message === error.message)) {
+    return project
+  }
+
+  return updateComponent(project, componentId, {
+    runtimeErrors: [...previous, error].slice(-MAX_RUNTIME_ERRORS)
+  })
+}
+
+export function withoutRuntimeErrors(project: ProjectSchema, componentId: string): ProjectSchema {
+  const component = project.components.find(c => c.id === componentId)
+  if (!component?.runtimeErrors) return project
+  return updateComponent(project, componentId, { runtimeErrors: undefined })
+}
+
+// Compact error lines for agent tool results
+export function formatRuntimeErrors(errors: ComponentRuntimeError[]): string[] {
+  return errors.map(error => {
+    const location = error.stack?.split('\n').find(line => line.trim().startsWith('at '))?.trim()
+    return `[${error.phase}] ${error.message}${location ? ` (${location})` : ''}`
+  })
+}
+
+function updateComponent(project: ProjectSchema, componentId: string, changes: Partial<ComponentSchema>): ProjectSchema {
+  return {
+    ...project,
+    components: project.components.map(c => (c.id === componentId ? { ...c, ...changes } : c))
+  }
+}
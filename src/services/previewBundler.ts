@@ -0,0 +1,318 @@
+import { WorkerClient } from '../lib/workerClient'
+import { REACT_HOOKS } from '../lib/utils'
+import { PreviewModuleResolver, requiredSpecifiers, type LoadedPreviewModule } from './previewModules'
+import { breakpointTheme, type PreviewBreakpoint } from './previewDevices'
+
+export interface PreviewModuleSource {
+  id: string // Name other preview code requires the module by
+  code: string // TSX source
+  exportName?: string // Used as the default export when the code declares the component without exporting it
+  path?: string // Project file path ('src/components/Card.tsx') other modules can import it by
+}
+
+export interface CompiledPreviewModule {
+  id: string
+  code?: string // CommonJS output
+  error?: string
+}
+
+export interface PreviewBundleRequest {
+  id: number
+  modules: PreviewModuleSource[]
+  stylesheet?: string[] // Sources whose Tailwind classes the stylesheet must cover; no CSS is built without it
+  theme?: string // Tailwind @theme overrides the stylesheet is compiled with
+}
+
+export type PreviewBundleResponse =
+  | { id: number; modules: CompiledPreviewModule[]; css?: string }
+  | { id: number; error: string }
+
+export interface PreviewDocumentOptions {
+  title: string
+  bodyClass?: string
+  body?: string // Static markup rendered before any script runs
+  head?: string // Extra <head> markup such as page-specific styles
+  modules?: PreviewModuleSource[]
+  library?: PreviewModuleSource[] // Project modules included only when another module imports them
+  script?: string // Plain JavaScript run once every module is registered; use __hedgekit.require(id)
+  react?: boolean // Inline the module runtime and React (default true); static documents can skip it
+  sections?: Record<string, string> // Markup for the previewSection() placeholders in body; hot updates can swap one alone
+  breakpoints?: PreviewBreakpoint[] // Replace Tailwind's screen breakpoints, e.g. with the project's
+}
+
+export interface PreviewBundleOptions {
+  modules: PreviewModuleSource[]
+  library?: PreviewModuleSource[] // Project modules included only when another module imports them
+  markup?: string[] // Markup and scripts outside the modules whose Tailwind classes the stylesheet must cover
+  breakpoints?: PreviewBreakpoint[] // Replace Tailwind's screen breakpoints, e.g. with the project's
+}
+
+export interface BundledPreviewModule {
+  id: string
+  code: string // CommonJS module body; a module that failed to compile throws its error when required
+  dependencies: Record<string, string> // Specifier -> module id
+}
+
+export interface PreviewBundle {
+  modules: BundledPreviewModule[]
+  moduleErrors: Record<string, string> // Module id -> compile or import error
+  css: string
+}
+
+export interface PreviewDocument {
+  html: string
+  moduleErrors: Record<string, string> // Module id -> compile or import error
+  modules: BundledPreviewModule[] // What the document was built from, to diff hot updates against
+  css: string
+}
+
+// A module ready to inline, with the module ids its require() calls resolve to
+interface LinkedModule {
+  source: PreviewModuleSource
+  compiled: CompiledPreviewModule
+  dependencies: Record<string, string>
+  unresolved: string[]
+  compiledFromSource: boolean
+}
+
+// Minimal CommonJS registry the compiled modules and vendored React are loaded into. Each module
+// is defined with the ids its specifiers resolve to, so the same import can mean different files.
+const RUNTIME_SCRIPT = `(function () {
+  var factories = {}
+  var dependencies = {}
+  var cache = {}
+  function require(name) {
+    if (cache[name]) return cache[name].exports
+    var factory = factories[name]
+    if (!factory) throw new Error('Cannot find module "' + name + '" in the preview')
+    var resolved = dependencies[name]
+    var module = (cache[name] = { exports: {} })
+    try {
+      factory(module, module.exports, function (specifier) {
+        return require(Object.prototype.hasOwnProperty.call(resolved, specifier) ? resolved[specifier] : specifier)
+      })
+    } catch (error) {
+      delete cache[name]
+      throw error
+    }
+    return module.exports
+  }
+  // Package builds branch on NODE_ENV the way bundlers expect
+  window.process = window.process || { env: { NODE_ENV: 'production' } }
+  window.__hedgekit = {
+    define: function (name, factory, resolved) {
+      factories[name] = factory
+      dependencies[name] = resolved || {}
+      delete cache[name]
+    },
+    require: require,
+    // Drops the cached exports of the given modules and of every module that imports them,
+    // directly or not, so the next require evaluates their current definitions
+    invalidate: function (ids) {
+      var invalidated = ids.slice()
+      for (var i = 0; i < invalidated.length; i++) {
+        delete cache[invalidated[i]]
+        for (var name in dependencies) {
+          if (invalidated.indexOf(name) !== -1) continue
+          for (var specifier in dependencies[name]) {
+            if (dependencies[name][specifier] === invalidated[i]) {
+              invalidated.push(name)
+              break
+            }
+          }
+        }
+      }
+      return invalidated
+    },
+    // The component a module renders: its default export, or failing that the first exported function
+    component: function (name) {
+      var exports = require(name)
+      if (typeof exports.default === 'function' || (exports.default && typeof exports.default === 'object')) return exports.default
+      for (var key in exports) {
+        if (typeof exports[key] === 'function') return exports[key]
+      }
+      throw new Error('Module "' + name + '" does not export a component')
+    }
+  }
+})()`
+
+// Generated code often uses React and its hooks as globals, as the old Babel previews allowed
+const GLOBALS_SCRIPT = `window.React = __hedgekit.require('react');
+var hooks = ${JSON.stringify(REACT_HOOKS)};
+hooks.forEach(function (hook) { window[hook] = window.React[hook] });`
+
+// Keep inline code from closing its <script> element early
+function inlineScript(code: string): string {
+  return `<script>${code.replace(/<\/(script)/gi, '<\\/$1').replace(/<!--/g, '<\\!--')}</script>`
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+// Placeholder for PreviewDocumentOptions.sections[id] inside the document body
+export function previewSection(id: string): string {
+  return `<div id="${escapeHtml(id)}" data-hedgekit-section></div>`
+}
+
+function withSections(body: string, sections: Record<string, string>): string {
+  return Object.entries(sections).reduce(
+    (html, [id, markup]) => html.replace(previewSection(id), () => `<div id="${escapeHtml(id)}" data-hedgekit-section>${markup}</div>`),
+    body
+  )
+}
+
+// Markup outside the modules whose Tailwind classes a document's stylesheet must cover
+export function documentMarkup(options: PreviewDocumentOptions): string[] {
+  return [options.body || '', options.bodyClass || '', options.script || '', ...Object.values(options.sections || {})]
+}
+
+function defineModule(id: string, body: string, dependencies: Record<string, string> = {}): string {
+  return inlineScript(
+    `__hedgekit.define(${JSON.stringify(id)}, function (module, exports, require) {\n${body}\n}, ${JSON.stringify(dependencies)})`
+  )
+}
+
+function moduleBody(source: PreviewModuleSource, compiled: CompiledPreviewModule): string {
+  if (compiled.error !== undefined || compiled.code === undefined) {
+    return `throw new SyntaxError(${JSON.stringify(compiled.error || `Could not compile ${source.id}`)})`
+  }
+  const name = source.exportName
+  const fallback = name && /^[A-Za-z_$][\w$]*$/.test(name)
+    ? `\n;if (!('default' in module.exports) && typeof ${name} === 'function') module.exports.default = ${name}`
+    : ''
+  return compiled.code + fallback
+}
+
+// Compiles preview documents offline: TSX is transpiled with sucrase and Tailwind is built
+// from the classes in use, both in a worker; React, the ui kit and its packages are inlined
+// from the app's own sources and dependencies
+class PreviewBundler {
+  private client = new WorkerClient<
+    Omit<PreviewBundleRequest, 'id'>,
+    { modules: CompiledPreviewModule[]; css?: string }
+  >(
+    () => new Worker(new URL('./previewBundler.worker.ts', import.meta.url), { type: 'module' }),
+    'Preview bundler'
+  )
+
+  async buildDocument(options: PreviewDocumentOptions): Promise<PreviewDocument> {
+    const entries = options.modules || []
+    const withReact = options.react !== false || entries.length > 0
+    const vendor = withReact ? import('./previewVendor') : Promise.resolve({ VENDOR_MODULES: {} })
+
+    const [{ VENDOR_MODULES }, { modules, moduleErrors, css }] = await Promise.all([
+      vendor,
+      this.bundleModules({
+        modules: entries,
+        library: options.library,
+        markup: documentMarkup(options),
+        breakpoints: options.breakpoints
+      })
+    ])
+
+    const html = [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="UTF-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1.0">',
+      `<title>${escapeHtml(options.title)}</title>`,
+      `<style id="hedgekit-styles">${css}</style>`,
+      options.head || '',
+      '</head>',
+      `<body${options.bodyClass ? ` class="${escapeHtml(options.bodyClass)}"` : ''}>`,
+      withSections(options.body || '', options.sections || {}),
+      ...(withReact ? [
+        inlineScript(RUNTIME_SCRIPT),
+        ...Object.entries(VENDOR_MODULES).map(([id, code]) => defineModule(id, code)),
+        inlineScript(GLOBALS_SCRIPT)
+      ] : []),
+      ...modules.map(module => defineModule(module.id, module.code, module.dependencies)),
+      options.script ? inlineScript(options.script) : '',
+      '</body>',
+      '</html>'
+    ].join('\n')
+
+    return { html, moduleErrors, modules, css }
+  }
+
+  // Compile the entry modules and everything they import, plus a stylesheet covering their classes.
+  // Vendor modules are left to whoever runs the bundle: documents inline React, the app shares its own.
+  async bundleModules(options: PreviewBundleOptions): Promise<PreviewBundle> {
+    const resolver = new PreviewModuleResolver([...options.modules, ...(options.library || [])])
+    const linked = await this.linkModules(options.modules, resolver)
+    const { css } = await this.client.request({
+      modules: [],
+      stylesheet: [
+        ...linked.filter(module => module.compiledFromSource).map(module => module.source.code),
+        ...(options.markup || [])
+      ],
+      theme: options.breakpoints ? breakpointTheme(options.breakpoints) : undefined
+    })
+
+    const moduleErrors: Record<string, string> = {}
+    linked.forEach(({ source, compiled, unresolved, compiledFromSource }) => {
+      if (compiled.error !== undefined) {
+        moduleErrors[source.id] = compiled.error
+      } else if (compiledFromSource && unresolved.length > 0) {
+        moduleErrors[source.id] = `Cannot resolve ${unresolved.map(specifier => `"${specifier}"`).join(', ')} in the preview`
+      }
+    })
+
+    return {
+      modules: linked.map(({ source, compiled, dependencies }) => ({
+        id: source.id,
+        code: moduleBody(source, compiled),
+        dependencies
+      })),
+      moduleErrors,
+      css: css || ''
+    }
+  }
+
+  // Compile the entry modules and everything they import, one worker round per level of imports
+  private async linkModules(entries: PreviewModuleSource[], resolver: PreviewModuleResolver): Promise<LinkedModule[]> {
+    const linked: LinkedModule[] = []
+    const seen = new Set(entries.map(module => module.id))
+    let pending: LoadedPreviewModule[] = entries.map(module => ({ module, compile: true }))
+
+    while (pending.length > 0) {
+      const sources = pending.filter(loaded => loaded.compile).map(loaded => loaded.module)
+      const { modules: compiled } = sources.length > 0 ? await this.client.request({ modules: sources }) : { modules: [] }
+      const round = [
+        ...sources.map((source, index) => ({ source, compiled: compiled[index], compiledFromSource: true })),
+        ...pending.filter(loaded => !loaded.compile).map(({ module }) => ({
+          source: module,
+          compiled: { id: module.id, code: module.code },
+          compiledFromSource: false
+        }))
+      ]
+
+      const next: Array<Promise<LoadedPreviewModule | null>> = []
+      round.forEach(({ source, compiled, compiledFromSource }) => {
+        const dependencies: Record<string, string> = {}
+        const unresolved: string[] = []
+        requiredSpecifiers(compiled.code || '').forEach(specifier => {
+          const id = resolver.resolve(specifier, source.id)
+          if (!id) {
+            unresolved.push(specifier)
+            return
+          }
+          dependencies[specifier] = id
+          if (!seen.has(id)) {
+            seen.add(id)
+            next.push(resolver.load(id))
+          }
+        })
+        linked.push({ source, compiled, dependencies, unresolved, compiledFromSource })
+      })
+
+      pending = (await Promise.all(next)).filter((loaded): loaded is LoadedPreviewModule => loaded !== null)
+    }
+
+    return linked
+  }
+}
+
+export const previewBundler = new PreviewBundler()
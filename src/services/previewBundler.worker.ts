@@ -0,0 +1,97 @@
+import { transform } from 'sucrase'
+import { compile } from 'tailwindcss4'
+import tailwindIndexCss from '/node_modules/tailwindcss4/index.css?raw'
+import previewCss from '../preview.css?raw'
+import appCss from '../index.css?raw'
+import type { PreviewBundleRequest, PreviewBundleResponse, PreviewModuleSource, CompiledPreviewModule } from './previewBundler'
+
+type TailwindCompiler = Awaited<ReturnType<typeof compile>>
+
+// Compiled modules keyed by source, so re-rendering a preview only transpiles what changed
+const MAX_CACHED_MODULES = 200
+const moduleCache = new Map<string, CompiledPreviewModule>()
+
+// One compiler per set of theme overrides; projects rarely switch between more than a few
+const MAX_CACHED_COMPILERS = 4
+const compilers = new Map<string, Promise<TailwindCompiler>>()
+
+// The theme variables live in index.css; reuse them instead of keeping a second copy
+function themeVariables(): string {
+  return [/:root\s*\{[^}]*\}/, /\.dark\s*\{[^}]*\}/]
+    .map(pattern => appCss.match(pattern)?.[0] || '')
+    .join('\n')
+}
+
+function getTailwind(theme = ''): Promise<TailwindCompiler> {
+  let compiler = compilers.get(theme)
+  if (!compiler) {
+    compiler = compile(`${previewCss}\n${theme}\n@layer base {\n${themeVariables()}\n}`, {
+      base: '/',
+      loadStylesheet: async (id, base) => {
+        if (id !== 'tailwindcss') {
+          throw new Error(`Preview stylesheets cannot import "${id}"`)
+        }
+        return { path: 'tailwindcss/index.css', base, content: tailwindIndexCss }
+      }
+    })
+    if (compilers.size >= MAX_CACHED_COMPILERS) {
+      compilers.delete(compilers.keys().next().value!)
+    }
+    compilers.set(theme, compiler)
+  }
+  return compiler
+}
+
+function compileModule({ id, code, path }: PreviewModuleSource): CompiledPreviewModule {
+  const cached = moduleCache.get(code)
+  if (cached) return { ...cached, id }
+
+  let compiled: CompiledPreviewModule
+  try {
+    const result = transform(code, {
+      transforms: ['typescript', 'jsx', 'imports'],
+      jsxRuntime: 'automatic',
+      production: true,
+      filePath: path || `${id}.tsx`
+    })
+    compiled = { id, code: result.code }
+  } catch (error) {
+    compiled = { id, error: error instanceof Error ? error.message : 'Compilation failed' }
+  }
+
+  if (moduleCache.size >= MAX_CACHED_MODULES) {
+    moduleCache.delete(moduleCache.keys().next().value!)
+  }
+  moduleCache.set(code, compiled)
+  return compiled
+}
+
+// Tailwind only needs candidate tokens; anything that is not a class is ignored by the compiler
+function classCandidates(sources: string[]): string[] {
+  const candidates = new Set<string>()
+  sources.forEach(source => {
+    source.split(/[\s'"`\\;{}]+/).forEach(token => {
+      if (token) candidates.add(token)
+    })
+  })
+  return [...candidates]
+}
+
+async function bundle(request: PreviewBundleRequest): Promise<PreviewBundleResponse> {
+  const modules = request.modules.map(compileModule)
+  if (!request.stylesheet) {
+    return { id: request.id, modules }
+  }
+  const compiler = await getTailwind(request.theme)
+  return { id: request.id, modules, css: compiler.build(classCandidates(request.stylesheet)) }
+}
+
+self.addEventListener('message', async (event: MessageEvent<PreviewBundleRequest>) => {
+  let response: PreviewBundleResponse
+  try {
+    response = await bundle(event.data)
+  } catch (error) {
+    response = { id: event.data.id, error: error instanceof Error ? error.message : 'Preview bundling failed' }
+  }
+  self.postMessage(response)
+})
@@ -0,0 +1,164 @@
+import tailwindThemeCss from '/node_modules/tailwindcss4/theme.css?raw'
+import previewCss from '../preview.css?raw'
+import type { DesignSystemSpec, ProjectSchema } from '../types/schema'
+
+export type DevicePresetId = 'responsive' | 'mobile' | 'tablet' | 'laptop' | 'desktop' | 'custom'
+
+export interface DevicePreset {
+  id: DevicePresetId
+  label: string
+  width: number
+  height: number
+}
+
+export interface PreviewBreakpoint {
+  name: string
+  width: number // Min-width in px at which the breakpoint applies
+}
+
+// What the preview toolbar is set to; responsive fills the panel and ignores the size
+export interface PreviewViewport {
+  preset: DevicePresetId
+  width: number
+  height: number
+  rotated: boolean
+  zoom: number
+  sideBySide: boolean
+}
+
+// One rendered frame of a preview at a fixed size
+export interface PreviewFrameSize {
+  label: string
+  width: number
+  height: number
+}
+
+// Sizes used when the breakpoints leave them where they are; see devicePresets()
+export const DEVICE_PRESETS: DevicePreset[] = [
+  { id: 'responsive', label: 'Responsive', width: 0, height: 0 },
+  { id: 'mobile', label: 'Mobile', width: 390, height: 844 },
+  { id: 'tablet', label: 'Tablet', width: 820, height: 1180 },
+  { id: 'laptop', label: 'Laptop', width: 1366, height: 768 },
+  { id: 'desktop', label: 'Desktop', width: 1920, height: 1080 },
+  { id: 'custom', label: 'Custom', width: 1024, height: 768 }
+]
+
+export const ZOOM_LEVELS = [0.25, 0.5, 0.75, 1, 1.25, 1.5]
+
+export const DEFAULT_VIEWPORT: PreviewViewport = {
+  preset: 'responsive',
+  width: 0,
+  height: 0,
+  rotated: false,
+  zoom: 1,
+  sideBySide: false
+}
+
+// Side-by-side frames below the first breakpoint render at a phone width
+const BASE_FRAME_WIDTH = 375
+const SIDE_BY_SIDE_HEIGHT = 800
+
+function cssLength(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(rem|px)$/)
+  if (!match) return null
+  return Math.round(Number(match[1]) * (match[2] === 'rem' ? 16 : 1))
+}
+
+// --breakpoint-* theme variables; later declarations override earlier ones
+function themeBreakpoints(...stylesheets: string[]): PreviewBreakpoint[] {
+  const widths = new Map<string, number>()
+  stylesheets.forEach(css => {
+    for (const match of css.matchAll(/--breakpoint-([\w-]+)\s*:\s*([^;]+);/g)) {
+      const width = cssLength(match[2])
+      if (width !== null) widths.set(match[1], width)
+    }
+  })
+  return [...widths].map(([name, width]) => ({ name, width }))
+}
+
+// The breakpoints previews are compiled with: Tailwind's defaults and any overrides in preview.css
+const TAILWIND_BREAKPOINTS = themeBreakpoints(tailwindThemeCss, previewCss)
+
+// The project's design system breakpoints when its plan defines them, Tailwind's otherwise
+export function projectBreakpoints(project: ProjectSchema): PreviewBreakpoint[] {
+  return designBreakpoints(project.plan?.designSystem?.breakpoints)
+}
+
+// The design system's breakpoints, smallest first; Tailwind's when it defines none
+export function designBreakpoints(designed?: DesignSystemSpec['breakpoints']): PreviewBreakpoint[] {
+  const breakpoints = designed && Object.keys(designed).length > 0
+    ? Object.entries(designed)
+      .filter(([, width]) => typeof width === 'number' && width > 0)
+      .map(([name, width]) => ({ name, width }))
+    : TAILWIND_BREAKPOINTS
+  return [...breakpoints].sort((a, b) => a.width - b.width)
+}
+
+// Tailwind theme overrides that compile previews with these breakpoints instead of Tailwind's own
+export function breakpointTheme(breakpoints: PreviewBreakpoint[]): string {
+  return [
+    '@theme {',
+    '  --breakpoint-*: initial;',
+    ...breakpoints
+      .filter(breakpoint => /^[\w-]+$/.test(breakpoint.name))
+      .map(breakpoint => `  --breakpoint-${breakpoint.name}: ${breakpoint.width}px;`),
+    '}'
+  ].join('\n')
+}
+
+// The device presets with each device in its own breakpoint: mobile below the first, desktop at the
+// last, laptop at the one before it and tablet about a third of the way up. A device keeps its
+// usual width when that already falls in its breakpoint and takes the breakpoint's width otherwise.
+export function devicePresets(breakpoints: PreviewBreakpoint[]): DevicePreset[] {
+  if (breakpoints.length === 0) return DEVICE_PRESETS
+
+  const last = breakpoints.length - 1
+  const tiers: Partial<Record<DevicePresetId, number>> = {
+    tablet: Math.floor(last / 3),
+    laptop: Math.max(last - 1, 0),
+    desktop: last
+  }
+  return DEVICE_PRESETS.map(preset => {
+    if (preset.id === 'mobile') {
+      return { ...preset, width: Math.max(Math.min(preset.width, breakpoints[0].width - 1), 1) }
+    }
+    const tier = tiers[preset.id]
+    if (tier === undefined) return preset
+    const from = breakpoints[tier].width
+    const to = breakpoints[tier + 1]?.width ?? Infinity
+    return preset.width >= from && preset.width < to ? preset : { ...preset, width: from }
+  })
+}
+
+// Largest breakpoint a width satisfies, or null below the first one
+export function activeBreakpoint(width: number, breakpoints: PreviewBreakpoint[]): PreviewBreakpoint | null {
+  return breakpoints.reduce<PreviewBreakpoint | null>(
+    (active, breakpoint) => (width >= breakpoint.width ? breakpoint : active),
+    null
+  )
+}
+
+// The viewport's size with rotation applied, or null when it fills the panel
+export function viewportSize(viewport: PreviewViewport): { width: number; height: number } | null {
+  if (viewport.preset === 'responsive') return null
+  return viewport.rotated
+    ? { width: viewport.height, height: viewport.width }
+    : { width: viewport.width, height: viewport.height }
+}
+
+export function frameLabel(width: number, breakpoints: PreviewBreakpoint[]): string {
+  return `${activeBreakpoint(width, breakpoints)?.name || 'base'} · ${width}px`
+}
+
+// Fixed-size frames a preview renders for the viewport: one per breakpoint side by side, one for a
+// device, or none when the preview fills the panel
+export function previewFrames(viewport: PreviewViewport, breakpoints: PreviewBreakpoint[]): PreviewFrameSize[] | undefined {
+  const size = viewportSize(viewport)
+  if (viewport.sideBySide) {
+    const height = size?.height || SIDE_BY_SIDE_HEIGHT
+    const widths = [BASE_FRAME_WIDTH, ...breakpoints.map(breakpoint => breakpoint.width)]
+      .filter((width, index, all) => all.indexOf(width) === index)
+    return widths.map(width => ({ label: frameLabel(width, breakpoints), width, height }))
+  }
+  return size ? [{ label: frameLabel(size.width, breakpoints), ...size }] : undefined
+}
@@ -0,0 +1,161 @@
+import type { ComponentSchema } from '../types/schema'
+import type { PreviewModuleSource } from './previewBundler'
+
+// Inlined by previewVendor.ts whenever a document runs React
+const VENDOR_MODULE_IDS = new Set(['react', 'react/jsx-runtime', 'react-dom', 'react-dom/client', 'scheduler'])
+
+// HedgeKit's own shadcn/ui primitives and the helpers they import, compiled like generated code
+const appSources = import.meta.glob<string>(
+  ['/src/components/ui/*.tsx', '!/src/components/ui/CodeEditor.tsx', '/src/lib/utils.ts', '/src/hooks/use-*.ts'],
+  { query: '?raw', import: 'default' }
+)
+
+// CommonJS builds of the packages those primitives depend on; only the files a document requires are inlined
+const packageFiles = import.meta.glob<string>(
+  [
+    '/node_modules/@radix-ui/*/dist/index.js',
+    '/node_modules/@floating-ui/*/dist/*.umd.js',
+    '/node_modules/{aria-hidden,get-nonce,react-remove-scroll,react-remove-scroll-bar,react-style-singleton,use-callback-ref,use-sidecar}/dist/es5/**/*.js',
+    '/node_modules/detect-node-es/es5/*.js',
+    '/node_modules/use-sync-external-store/{shim/index.js,cjs/*.js}',
+    '/node_modules/tslib/tslib.js',
+    '/node_modules/clsx/dist/clsx.js',
+    '/node_modules/tailwind-merge/dist/bundle-cjs.js',
+    '/node_modules/class-variance-authority/dist/index.js',
+    '/node_modules/lucide-react/dist/umd/lucide-react.min.js'
+  ],
+  { query: '?raw', import: 'default' }
+)
+
+// Entry points of those packages; importing only "main" keeps the rest of each manifest out of the bundle
+const packageEntries = import.meta.glob<string>(
+  [
+    '/node_modules/{@radix-ui,@floating-ui}/*/package.json',
+    '/node_modules/{aria-hidden,get-nonce,react-remove-scroll,react-remove-scroll-bar,react-style-singleton,use-callback-ref,use-sidecar,detect-node-es,tslib,clsx,tailwind-merge,class-variance-authority}/package.json',
+    '/node_modules/{react-remove-scroll,react-remove-scroll-bar}/*/package.json'
+  ],
+  { eager: true, import: 'main' }
+)
+
+// lucide-react's minified UMD build is a third the size of its CommonJS one
+const ENTRY_OVERRIDES: Record<string, string> = {
+  'lucide-react': 'dist/umd/lucide-react.min.js'
+}
+
+const SOURCE_EXTENSIONS = ['', '.ts', '.tsx', '/index.ts', '/index.tsx']
+const PACKAGE_EXTENSIONS = ['', '.js', '/index.js']
+
+export interface LoadedPreviewModule {
+  module: PreviewModuleSource
+  compile: boolean // TSX sources go through the bundler worker; package files are already CommonJS
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = []
+  path.replace(/\\/g, '/').split('/').forEach(part => {
+    if (part === '..') parts.pop()
+    else if (part && part !== '.') parts.push(part)
+  })
+  return `/${parts.join('/')}`
+}
+
+function dirname(path: string): string {
+  return path.slice(0, path.lastIndexOf('/')) || '/'
+}
+
+function withoutExtension(path: string): string {
+  return path.replace(/\.[jt]sx?$/, '')
+}
+
+// Specifiers a CommonJS module requires; sucrase turns every import into a plain require() call
+export function requiredSpecifiers(code: string): string[] {
+  const specifiers = new Set<string>()
+  for (const match of code.matchAll(/\brequire\(\s*(['"])([^'"]+)\1\s*\)/g)) {
+    specifiers.add(match[2])
+  }
+  return [...specifiers]
+}
+
+// The preview module for a project component; its filePath lets other components import it
+export function componentModule(component: ComponentSchema): PreviewModuleSource {
+  return {
+    id: `component:${component.id}`,
+    code: component.generatedCode || '',
+    exportName: component.name,
+    path: component.filePath || `src/components/${component.name}.tsx`
+  }
+}
+
+// Maps the specifiers preview modules require to module ids: project components by file path or
+// name, the ui kit and its helpers under src/, React, and the npm packages the ui kit depends on
+export class PreviewModuleResolver {
+  private modules = new Map<string, PreviewModuleSource>()
+  private paths = new Map<string, string>() // Project module id -> file path
+  private byPath = new Map<string, string>() // File path without extension -> project module id
+  private byName = new Map<string, string>() // Component name -> project module id
+
+  constructor(projectModules: PreviewModuleSource[]) {
+    projectModules.forEach(module => {
+      this.modules.set(module.id, module)
+      const path = normalizePath(module.path || `src/components/${module.exportName || 'Component'}.tsx`)
+      this.paths.set(module.id, path)
+      if (!this.byPath.has(withoutExtension(path))) {
+        this.byPath.set(withoutExtension(path), module.id)
+      }
+      if (module.exportName && !this.byName.has(module.exportName)) {
+        this.byName.set(module.exportName, module.id)
+      }
+    })
+  }
+
+  // Module id a require() call resolves to, or null when the preview has no such module
+  resolve(specifier: string, from: string): string | null {
+    if (VENDOR_MODULE_IDS.has(specifier) || this.modules.has(specifier)) {
+      return specifier
+    }
+
+    let resolved: string | null
+    if (specifier.startsWith('@/')) {
+      resolved = this.resolvePath(normalizePath(`/src/${specifier.slice(2)}`))
+    } else if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      // Non-project modules use their file path as their id
+      const base = specifier.startsWith('/') ? '' : dirname(this.paths.get(from) || from)
+      resolved = this.resolvePath(normalizePath(`${base}/${specifier}`))
+    } else {
+      resolved = this.resolvePackage(specifier)
+    }
+
+    // Generated code may import a sibling by a path the generator never used, e.g. './Card' for src/components/ui/Card.tsx
+    return resolved || this.byName.get(withoutExtension(specifier.split('/').pop()!)) || null
+  }
+
+  async load(id: string): Promise<LoadedPreviewModule | null> {
+    const project = this.modules.get(id)
+    if (project) {
+      return { module: project, compile: true }
+    }
+    if (appSources[id]) {
+      return { module: { id, code: await appSources[id](), path: id }, compile: true }
+    }
+    if (packageFiles[id]) {
+      return { module: { id, code: await packageFiles[id]() }, compile: false }
+    }
+    return null
+  }
+
+  private resolvePath(path: string): string | null {
+    const project = this.byPath.get(withoutExtension(path))
+    if (project) return project
+
+    const source = SOURCE_EXTENSIONS.map(extension => path + extension).find(candidate => candidate in appSources)
+    if (source) return source
+
+    return PACKAGE_EXTENSIONS.map(extension => path + extension).find(candidate => candidate in packageFiles) || null
+  }
+
+  private resolvePackage(specifier: string): string | null {
+    const directory = `/node_modules/${specifier}`
+    const main = ENTRY_OVERRIDES[specifier] || packageEntries[`${directory}/package.json`]
+    return (main && this.resolvePath(normalizePath(`${directory}/${main}`))) || this.resolvePath(directory)
+  }
+}
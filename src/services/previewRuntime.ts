@@ -0,0 +1,158 @@
+import * as React from 'react'
+import * as ReactJsxRuntime from 'react/jsx-runtime'
+import * as ReactDOM from 'react-dom'
+import * as ReactDOMClient from 'react-dom/client'
+import { REACT_HOOKS } from '../lib/utils'
+import type { BundledPreviewModule } from './previewBundler'
+import type { PreviewProps } from './previewBridge'
+
+// In-process previews share the app's React, so rendered components become part of its tree
+const HOST_MODULES: Record<string, unknown> = {
+  react: React,
+  'react/jsx-runtime': ReactJsxRuntime,
+  'react-dom': ReactDOM,
+  'react-dom/client': ReactDOMClient
+}
+
+// Generated code often uses React and its hooks as globals; they are scoped to an enclosing
+// function instead of being written onto the app's window, so modules may still redeclare them
+const GLOBAL_NAMES = ['process', 'React', ...REACT_HOOKS]
+const GLOBAL_VALUES = [
+  { env: { NODE_ENV: 'production' } },
+  React,
+  ...REACT_HOOKS.map(hook => (React as Record<string, unknown>)[hook])
+]
+
+const SOURCE_URL_PREFIX = 'hedgekit-preview/'
+
+type ModuleFactory = (module: { exports: unknown }, exports: unknown, require: (specifier: string) => unknown) => void
+
+export interface PreviewSourceLocation {
+  moduleId: string
+  line: number // 1-based line in the module's source
+  column: number
+}
+
+function sourceUrl(id: string): string {
+  return `${SOURCE_URL_PREFIX}${encodeURIComponent(id)}`
+}
+
+function createFactory(id: string, body: string): ModuleFactory {
+  const source = `return function (module, exports, require) {\n${body}\n}\n//# sourceURL=${sourceUrl(id)}`
+  return new Function(...GLOBAL_NAMES, source)(...GLOBAL_VALUES) as ModuleFactory
+}
+
+// Stack frames of a module count the lines of the generated wrapper before its body as well. Their
+// number differs between engines, so it is measured once with a probe. Sucrase keeps the source's lines.
+let headerLines: number | null = null
+
+function functionHeaderLines(): number {
+  if (headerLines === null) {
+    const module: { exports: unknown } = { exports: {} }
+    createFactory('probe', 'module.exports = new Error().stack')(module, module.exports, () => null)
+    headerLines = Math.max(0, (stackLocations(String(module.exports))[0]?.line ?? 1) - 1)
+  }
+  return headerLines
+}
+
+// Frames from preview modules, innermost first, with lines as the engine reports them
+function stackLocations(stack: string): PreviewSourceLocation[] {
+  const locations: PreviewSourceLocation[] = []
+  const pattern = new RegExp(`${SOURCE_URL_PREFIX}([^\\s:()]+):(\\d+):(\\d+)`, 'g')
+  for (const match of stack.matchAll(pattern)) {
+    locations.push({ moduleId: decodeURIComponent(match[1]), line: Number(match[2]), column: Number(match[3]) })
+  }
+  return locations
+}
+
+// Where in the original sources an error thrown by preview code was raised, innermost frame first
+export function previewErrorLocations(error: unknown): PreviewSourceLocation[] {
+  const stack = error instanceof Error ? error.stack || '' : ''
+  const offset = functionHeaderLines()
+  return stackLocations(stack)
+    .filter(location => location.moduleId !== 'probe')
+    .map(location => ({ ...location, line: Math.max(1, location.line - offset) }))
+}
+
+// Sucrase reports syntax errors as "message (line:column)" against the original source
+export function compileErrorLocation(moduleId: string, message: string): PreviewSourceLocation | null {
+  const match = message.match(/\((\d+):(\d+)\)\s*$/)
+  return match ? { moduleId, line: Number(match[1]), column: Number(match[2]) } : null
+}
+
+// Function prop markers from samplePreviewProps() become loggers, as they do inside preview documents
+export function decodePreviewProps(props: PreviewProps): PreviewProps {
+  return Object.fromEntries(Object.entries(props).map(([key, value]) => {
+    if (value && typeof value === 'object' && typeof (value as { $previewFunction?: unknown }).$previewFunction === 'string') {
+      const name = (value as { $previewFunction: string }).$previewFunction
+      return [key, (...args: unknown[]) => console.info(`${name}(${args.map(arg => JSON.stringify(arg) ?? String(arg)).join(', ')})`)]
+    }
+    return [key, value]
+  }))
+}
+
+// The preview stylesheet rewritten for a shadow root: theme variables move from :root to the host,
+// and @property defaults, which shadow trees ignore, are declared as ordinary custom properties
+export function shadowStylesheet(css: string): string {
+  const defaults: string[] = []
+  const withoutProperties = css.replace(/@property\s+(--[\w-]+)\s*\{([^}]*)\}/g, (_, name: string, body: string) => {
+    const initial = body.match(/initial-value\s*:\s*([^;]+)/)
+    if (initial) defaults.push(`${name}: ${initial[1].trim()};`)
+    return ''
+  })
+  const properties = defaults.length > 0
+    ? `@layer hedgekit-properties {\n:host, *, ::before, ::after, ::backdrop {\n${defaults.join('\n')}\n}\n}\n`
+    : ''
+  // Declared first, so the layer ranks below everything Tailwind emits
+  return properties + withoutProperties.replace(/:root\b/g, ':host')
+}
+
+// CommonJS registry for bundled preview modules, evaluated in the app's own window. Each module
+// is instantiated once; a module that throws while loading is retried on the next require.
+export class PreviewModuleRegistry {
+  private modules = new Map<string, BundledPreviewModule>()
+  private factories = new Map<string, ModuleFactory>()
+  private cache = new Map<string, { exports: Record<string, unknown> }>()
+
+  constructor(modules: BundledPreviewModule[]) {
+    modules.forEach(module => this.modules.set(module.id, module))
+  }
+
+  require(id: string): unknown {
+    if (id in HOST_MODULES) return HOST_MODULES[id]
+
+    const cached = this.cache.get(id)
+    if (cached) return cached.exports
+
+    const definition = this.modules.get(id)
+    if (!definition) throw new Error(`Cannot find module "${id}" in the preview`)
+
+    let factory = this.factories.get(id)
+    if (!factory) {
+      factory = createFactory(id, definition.code)
+      this.factories.set(id, factory)
+    }
+
+    const module = { exports: {} as Record<string, unknown> }
+    this.cache.set(id, module)
+    try {
+      factory(module, module.exports, specifier => this.require(definition.dependencies[specifier] ?? specifier))
+    } catch (error) {
+      this.cache.delete(id)
+      throw error
+    }
+    return module.exports
+  }
+
+  // The component a module renders: its default export, or failing that the first exported function
+  component(id: string): React.ComponentType<PreviewProps> {
+    const exports = this.require(id) as Record<string, unknown>
+    const fallback = exports.default
+    if (typeof fallback === 'function' || (fallback && typeof fallback === 'object')) {
+      return fallback as React.ComponentType<PreviewProps>
+    }
+    const exported = Object.values(exports).find(value => typeof value === 'function')
+    if (!exported) throw new Error(`Module "${id}" does not export a component`)
+    return exported as React.ComponentType<PreviewProps>
+  }
+}
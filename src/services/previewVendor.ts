@@ -0,0 +1,14 @@
+// CommonJS builds of React that preview documents inline, so previews never touch the network
+import react from '/node_modules/react/cjs/react.production.js?raw'
+import reactJsxRuntime from '/node_modules/react/cjs/react-jsx-runtime.production.js?raw'
+import reactDom from '/node_modules/react-dom/cjs/react-dom.production.js?raw'
+import reactDomClient from '/node_modules/react-dom/cjs/react-dom-client.production.js?raw'
+import scheduler from '/node_modules/scheduler/cjs/scheduler.production.js?raw'
+
+export const VENDOR_MODULES: Record<string, string> = {
+  react,
+  'react/jsx-runtime': reactJsxRuntime,
+  'react-dom': reactDom,
+  'react-dom/client': reactDomClient,
+  scheduler
+}
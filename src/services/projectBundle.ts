@@ -0,0 +1,243 @@
+import JSZip from 'jszip'
+import { downloadBlob, slugify } from '../lib/utils'
+import { projectStorage } from './projectStorage'
+import type { ProjectSchema, ImageAsset } from '../types/schema'
+
+export const BUNDLE_EXTENSION = '.hedgekit'
+const BUNDLE_FORMAT = 'hedgekit-bundle'
+const BUNDLE_VERSION = 1
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT
+  version: number
+  exportedAt: string
+  project: {
+    id: string
+    name: string
+  }
+  assets: Array<{
+    id: string
+    file?: string // Missing when the binary could not be fetched at export time
+    format: ImageAsset['format']
+  }>
+  screenshots?: Array<{ // Missing from bundles exported before screenshot images were stored apart
+    imageId: string
+    file: string
+  }>
+}
+
+export interface ImportedBundle {
+  manifest: BundleManifest
+  project: ProjectSchema
+}
+
+type ProjectCore = Omit<ProjectSchema, 'assets' | 'scenes' | 'plan' | 'chatHistory'>
+type ProjectScreenshot = NonNullable<ProjectSchema['screenshots']>[number]
+
+const IMAGE_TYPES: Record<string, string> = { png: 'image/png', jpeg: 'image/jpeg', webp: 'image/webp' }
+
+function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/^data:[^;]+;base64,/, '')
+  const binary = atob(clean)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export class ProjectBundleService {
+  // Package a project and all of its asset binaries into a single zip bundle
+  static async exportProject(project: ProjectSchema): Promise<Blob> {
+    const zip = new JSZip()
+    const { assets = [], scenes = [], plan, chatHistory = [], screenshots, ...core } = project
+
+    const manifest: BundleManifest = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      project: { id: project.id, name: project.name },
+      assets: [],
+      screenshots: []
+    }
+
+    const assetFolder = zip.folder('assets')!
+    for (const asset of assets) {
+      const bytes = await this.readAssetBytes(asset)
+      const file = bytes ? `${asset.id}.${asset.format}` : undefined
+      if (bytes && file) {
+        assetFolder.file(file, bytes)
+      }
+      manifest.assets.push({ id: asset.id, file: file && `assets/${file}`, format: asset.format })
+    }
+
+    // Screenshot images are kept apart from the project, and in screenshots/ here
+    const screenshotFolder = zip.folder('screenshots')!
+    const screenshotRecords: ProjectScreenshot[] = []
+    for (const { dataUrl, ...screenshot } of screenshots || []) {
+      const image = await this.readScreenshotImage(project.id, { ...screenshot, dataUrl })
+      if (!image) {
+        screenshotRecords.push(screenshot)
+        continue
+      }
+      const imageId = screenshot.imageId || screenshot.id
+      const file = `${imageId}.${image.extension}`
+      screenshotFolder.file(file, image.bytes)
+      manifest.screenshots!.push({ imageId, file: `screenshots/${file}` })
+      screenshotRecords.push({ ...screenshot, imageId })
+    }
+
+    // Binaries live in assets/, so strip inline base64 from the asset records
+    const assetRecords = assets.map(({ base64: _base64, ...asset }) => asset)
+
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2))
+    zip.file('project.json', JSON.stringify(screenshots ? { ...core, screenshots: screenshotRecords } : core, null, 2))
+    zip.file('assets.json', JSON.stringify(assetRecords, null, 2))
+    zip.file('scenes.json', JSON.stringify(scenes, null, 2))
+    zip.file('chat-history.json', JSON.stringify(chatHistory, null, 2))
+    if (plan) {
+      zip.file('plan.json', JSON.stringify(plan, null, 2))
+    }
+
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' })
+  }
+
+  static async downloadProject(project: ProjectSchema): Promise<void> {
+    const blob = await this.exportProject(project)
+    downloadBlob(blob, `${slugify(project.name)}${BUNDLE_EXTENSION}`)
+  }
+
+  // Read a bundle back into a full project, restoring asset binaries as base64 and screenshot images
+  // inline, to be stored under the project's id when it is saved
+  static async readBundle(file: Blob): Promise<ImportedBundle> {
+    let zip: JSZip
+    try {
+      zip = await JSZip.loadAsync(file)
+    } catch {
+      throw new Error('File is not a valid HedgeKit bundle (could not read zip archive)')
+    }
+
+    const manifest = await this.readJson<BundleManifest>(zip, 'manifest.json')
+    if (manifest.format !== BUNDLE_FORMAT) {
+      throw new Error('File is not a HedgeKit bundle (unknown manifest format)')
+    }
+    if (manifest.version > BUNDLE_VERSION) {
+      throw new Error(`Bundle version ${manifest.version} is newer than this version of HedgeKit supports`)
+    }
+
+    const core = await this.readJson<ProjectCore>(zip, 'project.json')
+    const assetRecords = await this.readJson<ImageAsset[]>(zip, 'assets.json', [])
+    const scenes = await this.readJson<ProjectSchema['scenes']>(zip, 'scenes.json', [])
+    const chatHistory = await this.readJson<NonNullable<ProjectSchema['chatHistory']>>(zip, 'chat-history.json', [])
+    const plan = zip.file('plan.json') ? await this.readJson<ProjectSchema['plan']>(zip, 'plan.json') : undefined
+
+    const assets: ImageAsset[] = []
+    for (const asset of assetRecords) {
+      const entry = manifest.assets.find(a => a.id === asset.id)
+      const binary = entry?.file ? zip.file(entry.file) : null
+      assets.push(binary ? { ...asset, base64: await binary.async('base64') } : asset)
+    }
+
+    const screenshots: ProjectScreenshot[] = []
+    for (const screenshot of core.screenshots || []) {
+      const entry = manifest.screenshots?.find(s => s.imageId === screenshot.imageId)
+      const binary = entry ? zip.file(entry.file) : null
+      const type = entry && IMAGE_TYPES[entry.file.split('.').pop() || '']
+      screenshots.push(binary && type
+        ? { ...screenshot, dataUrl: `data:${type};base64,${await binary.async('base64')}` }
+        : screenshot)
+    }
+
+    const project: ProjectSchema = {
+      ...core,
+      ...(core.screenshots ? { screenshots } : {}),
+      assets,
+      scenes,
+      ...(plan ? { plan } : {}),
+      ...(chatHistory.length > 0 ? { chatHistory } : {})
+    }
+
+    return { manifest, project }
+  }
+
+  // Give an imported project a fresh id so it can live next to the original. Screenshot images are
+  // stored by project id, so stored ones are copied under the new id.
+  static async asCopy(project: ProjectSchema, existingNames: string[] = []): Promise<ProjectSchema> {
+    const id = `project-${Date.now()}`
+    for (const screenshot of project.screenshots || []) {
+      if (!screenshot.imageId || screenshot.dataUrl) continue
+      const blob = await projectStorage.loadScreenshotImage(project.id, screenshot.imageId)
+      if (blob) await projectStorage.saveScreenshotImage(id, screenshot.imageId, blob)
+    }
+
+    let name = `${project.name} (copy)`
+    for (let n = 2; existingNames.includes(name); n++) {
+      name = `${project.name} (copy ${n})`
+    }
+
+    const now = new Date().toISOString()
+    return {
+      ...project,
+      id,
+      name,
+      plan: project.plan ? { ...project.plan, projectId: id } : undefined,
+      createdAt: now,
+      updatedAt: now
+    }
+  }
+
+  static async readAssetBytes(asset: ImageAsset): Promise<Uint8Array | null> {
+    if (asset.base64) {
+      try {
+        return base64ToBytes(asset.base64)
+      } catch (error) {
+        console.warn(`Asset ${asset.id} has invalid base64 data:`, error)
+      }
+    }
+
+    if (asset.cdnUrl) {
+      try {
+        const response = await fetch(asset.cdnUrl)
+        if (!response.ok) {
+          throw new Error(`${response.status} ${response.statusText}`)
+        }
+        return new Uint8Array(await response.arrayBuffer())
+      } catch (error) {
+        console.warn(`Failed to fetch asset ${asset.id} from CDN:`, error)
+      }
+    }
+
+    return null
+  }
+
+  // The screenshot's image, inline or from the image store
+  private static async readScreenshotImage(projectId: string, screenshot: ProjectScreenshot): Promise<{ bytes: Uint8Array; extension: string } | null> {
+    try {
+      if (screenshot.dataUrl) {
+        const type = screenshot.dataUrl.match(/^data:image\/(\w+);/)?.[1] || 'png'
+        return { bytes: base64ToBytes(screenshot.dataUrl), extension: type }
+      }
+      if (!screenshot.imageId) return null
+      const blob = await projectStorage.loadScreenshotImage(projectId, screenshot.imageId)
+      if (!blob) return null
+      return { bytes: new Uint8Array(await blob.arrayBuffer()), extension: blob.type.split('/')[1] || 'png' }
+    } catch (error) {
+      console.warn(`Failed to read the image of screenshot ${screenshot.id}:`, error)
+      return null
+    }
+  }
+
+  private static async readJson<T>(zip: JSZip, path: string, fallback?: T): Promise<T> {
+    const entry = zip.file(path)
+    if (!entry) {
+      if (fallback !== undefined) return fallback
+      throw new Error(`Bundle is missing ${path}`)
+    }
+
+    try {
+      return JSON.parse(await entry.async('string')) as T
+    } catch {
+      throw new Error(`Bundle contains malformed ${path}`)
+    }
+  }
+}
@@ -0,0 +1,591 @@
+import JSZip from 'jszip'
+import { downloadBlob, slugify, REACT_HOOKS } from '../lib/utils'
+import { ProjectBundleService } from './projectBundle'
+import { SceneCodegenService, toJsxProps, toPascalCase, uniqueName } from './sceneCodegen'
+import hedgekitPackage from '../../package.json'
+import indexCss from '../index.css?raw'
+import type { ProjectSchema, ComponentSchema, Scene } from '../types/schema'
+
+// HedgeKit's own shadcn/ui sources, copied into the export when generated code uses them
+const uiSources = import.meta.glob<string>('/src/components/ui/*.tsx', { query: '?raw', import: 'default' })
+const hookSources = import.meta.glob<string>('/src/hooks/use-*.ts', { query: '?raw', import: 'default' })
+
+// Editor-only components that generated code never imports
+const EXCLUDED_UI_FILES = new Set(['CodeEditor'])
+
+const ROUTER_VERSION = '^7.6.0'
+
+// Always installed, even if no generated file imports them directly
+const BASE_DEPENDENCIES = ['react', 'react-dom', 'react-router-dom', 'clsx', 'tailwind-merge']
+const DEV_DEPENDENCIES = [
+  'vite', '@vitejs/plugin-react', 'typescript', '@types/react', '@types/react-dom', '@types/node',
+  'tailwindcss', 'tailwindcss-animate', 'postcss', 'autoprefixer'
+]
+
+// Packages implied by the plan's technical stack choices
+const STACK_PACKAGES: Record<string, string[]> = {
+  zustand: ['zustand'],
+  redux: ['@reduxjs/toolkit', 'react-redux'],
+  jotai: ['jotai']
+}
+
+export interface ExportedFile {
+  path: string
+  content: string | Uint8Array
+}
+
+interface ExportedComponent {
+  component: ComponentSchema
+  identifier: string // Name the module is imported under
+  importPath: string // '@/components/Name'
+  filePath: string // 'src/components/Name.tsx'
+}
+
+interface UiLibrary {
+  files: Map<string, string> // 'ui/button' or 'hooks/use-mobile' -> source
+  exports: Map<string, string> // 'Button' -> 'ui/button'
+}
+
+const knownVersions: Record<string, string> = {
+  ...hedgekitPackage.dependencies,
+  ...hedgekitPackage.devDependencies,
+  'react-router-dom': ROUTER_VERSION
+}
+
+// Keep component files inside src/ no matter what filePath the generator produced
+function normalizeFilePath(component: ComponentSchema, identifier: string, used: Set<string>): string {
+  let path = (component.filePath || '').replace(/\\/g, '/').replace(/^(\.?\/)+/, '')
+  if (!path || path.includes('..') || !/\.(tsx|jsx)$/.test(path)) {
+    path = `src/components/${identifier}.tsx`
+  }
+  if (!path.startsWith('src/')) {
+    path = `src/${path}`
+  }
+  if (path.startsWith('src/components/ui/') || path.startsWith('src/pages/') || used.has(path)) {
+    path = `src/components/${identifier}.tsx`
+  }
+  used.add(path)
+  return path
+}
+
+function bareImports(source: string): string[] {
+  const specifiers = [
+    ...source.matchAll(/(?:import|export)\s[^'"]*?from\s+['"]([^'"]+)['"]/g),
+    ...source.matchAll(/import\s+['"]([^'"]+)['"]/g)
+  ].map(match => match[1])
+
+  return specifiers
+    .filter(spec => !spec.startsWith('.') && !spec.startsWith('@/') && !spec.startsWith('/') && !spec.startsWith('node:'))
+    .map(spec => (spec.startsWith('@') ? spec.split('/').slice(0, 2).join('/') : spec.split('/')[0]))
+}
+
+function declaredNames(code: string): Set<string> {
+  const names = new Set<string>()
+  for (const match of code.matchAll(/(?:function|const|let|var|class|interface|type)\s+([A-Za-z_$][\w$]*)/g)) {
+    names.add(match[1])
+  }
+  for (const match of code.matchAll(/import\s+([^'"]+?)\s+from\s+['"][^'"]+['"]/g)) {
+    match[1].replace(/[{}]/g, ',').split(',').forEach(part => {
+      const name = part.trim().split(/\s+as\s+/).pop()?.replace(/^type\s+/, '').trim()
+      if (name && name !== '*') names.add(name)
+    })
+  }
+  return names
+}
+
+export class ProjectExportService {
+  // Turn a project into a standalone Vite + React + Tailwind repository zip
+  static async exportRepository(project: ProjectSchema): Promise<Blob> {
+    const zip = new JSZip()
+    const root = zip.folder(slugify(project.name))!
+
+    for (const file of await this.buildFiles(project)) {
+      root.file(file.path, file.content)
+    }
+
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' })
+  }
+
+  static async downloadRepository(project: ProjectSchema): Promise<void> {
+    const blob = await this.exportRepository(project)
+    downloadBlob(blob, `${slugify(project.name)}.zip`)
+  }
+
+  static async buildFiles(project: ProjectSchema): Promise<ExportedFile[]> {
+    const files: ExportedFile[] = []
+    const library = await this.loadUiLibrary()
+    const usedUiFiles = new Set<string>()
+
+    const identifiers = new Set<string>()
+    const paths = new Set<string>()
+    const components: ExportedComponent[] = project.components.map(component => {
+      const identifier = uniqueName(toPascalCase(component.name), identifiers)
+      const filePath = normalizeFilePath(component, identifier, paths)
+      return {
+        component,
+        identifier,
+        filePath,
+        importPath: `@/${filePath.replace(/^src\//, '').replace(/\.(tsx|jsx)$/, '')}`
+      }
+    })
+
+    for (const exported of components) {
+      files.push({
+        path: exported.filePath,
+        content: this.buildComponentModule(exported, library, usedUiFiles)
+      })
+    }
+
+    const scenes = [...project.scenes].sort((a, b) =>
+      a.id === project.activeSceneId ? -1 : b.id === project.activeSceneId ? 1 : 0
+    )
+    const pageNames = new Set<string>(['ComponentsPage'])
+    const routes = new Set<string>(['/components'])
+    const pages = scenes.map(scene => ({
+      scene,
+      identifier: uniqueName(`${toPascalCase(scene.name)}Page`, pageNames),
+      route: uniqueName(`/${slugify(scene.name)}`, routes)
+    }))
+
+    const byComponentId = new Map(components.map(exported => [exported.component.id, exported]))
+    pages.forEach(page => {
+      const { code } = SceneCodegenService.generatePage(page.scene, project.components, {
+        componentName: page.identifier,
+        resolveComponent: component => byComponentId.get(component.id)!
+      })
+      files.push({ path: `src/pages/${page.identifier}.tsx`, content: code })
+    })
+    files.push({ path: 'src/pages/ComponentsPage.tsx', content: this.buildComponentsPage(components) })
+
+    // shadcn/ui files pull in each other, the cn helper and a few hooks
+    const queue = Array.from(usedUiFiles)
+    while (queue.length > 0) {
+      const key = queue.shift()!
+      const source = library.files.get(key)
+      if (!source) continue
+      for (const match of source.matchAll(/from\s+['"]@\/((?:components\/ui|hooks)\/[^'"]+)['"]/g)) {
+        const dependency = match[1].replace(/^components\//, '')
+        if (!usedUiFiles.has(dependency)) {
+          usedUiFiles.add(dependency)
+          queue.push(dependency)
+        }
+      }
+    }
+    usedUiFiles.forEach(key => {
+      const source = library.files.get(key)
+      if (source) {
+        files.push({ path: key.startsWith('hooks/') ? `src/${key}.ts` : `src/components/${key}.tsx`, content: source })
+      }
+    })
+
+    const assetFiles: ExportedFile[] = []
+    for (const asset of project.assets) {
+      const bytes = await ProjectBundleService.readAssetBytes(asset)
+      if (bytes) {
+        assetFiles.push({ path: `public/assets/${slugify(asset.name)}-${asset.id}.${asset.format}`, content: bytes })
+      }
+    }
+
+    const appFiles: ExportedFile[] = [
+      { path: 'src/App.tsx', content: this.buildApp(pages) },
+      { path: 'src/main.tsx', content: MAIN_TSX },
+      { path: 'src/index.css', content: indexCss },
+      { path: 'src/lib/utils.ts', content: UTILS_TS },
+      { path: 'src/components/ErrorBoundary.tsx', content: ERROR_BOUNDARY_TSX },
+      { path: 'src/vite-env.d.ts', content: '/// <reference types="vite/client" />\n' },
+      { path: 'index.html', content: this.buildIndexHtml(project) },
+      { path: 'vite.config.ts', content: VITE_CONFIG },
+      { path: 'tsconfig.json', content: TSCONFIG },
+      { path: 'tailwind.config.js', content: TAILWIND_CONFIG },
+      { path: 'postcss.config.js', content: POSTCSS_CONFIG },
+      { path: '.gitignore', content: 'node_modules\ndist\n.env\n' },
+      { path: 'README.md', content: this.buildReadme(project, pages, assetFiles) }
+    ]
+
+    const allFiles = [...files, ...appFiles, ...assetFiles]
+    allFiles.push({ path: 'package.json', content: this.buildPackageJson(project, allFiles) })
+    return allFiles
+  }
+
+  private static async loadUiLibrary(): Promise<UiLibrary> {
+    const library: UiLibrary = { files: new Map(), exports: new Map() }
+
+    for (const [path, load] of Object.entries(uiSources)) {
+      const name = path.split('/').pop()!.replace(/\.tsx$/, '')
+      if (EXCLUDED_UI_FILES.has(name)) continue
+      const source = await load()
+      const key = `ui/${name}`
+      library.files.set(key, source)
+
+      for (const match of source.matchAll(/export\s*\{([^}]+)\}/g)) {
+        match[1].split(',').map(part => part.trim()).filter(Boolean).forEach(exported => {
+          library.exports.set(exported.split(/\s+as\s+/).pop()!, key)
+        })
+      }
+      for (const match of source.matchAll(/export\s+(?:function|const)\s+(\w+)/g)) {
+        library.exports.set(match[1], key)
+      }
+    }
+
+    for (const [path, load] of Object.entries(hookSources)) {
+      library.files.set(`hooks/${path.split('/').pop()!.replace(/\.ts$/, '')}`, await load())
+    }
+
+    return library
+  }
+
+  // Generated code may come without imports or a default export, so add what the component needs to compile
+  private static buildComponentModule(exported: ExportedComponent, library: UiLibrary, usedUiFiles: Set<string>): string {
+    const { component, identifier } = exported
+    let code = (component.generatedCode || '').trim()
+
+    if (!code) {
+      code = [
+        `export default function ${identifier}() {`,
+        `  return <div className="p-4 border rounded">${component.name}</div>`,
+        `}`
+      ].join('\n')
+    }
+
+    const declared = declaredNames(code)
+    const imports: string[] = []
+
+    if (!/from\s+['"]react['"]/.test(code)) {
+      const hooks = REACT_HOOKS.filter(hook => new RegExp(`(?<![\\w.])${hook}\\s*[(<]`).test(code))
+      const usesNamespace = /\bReact\./.test(code)
+      if (usesNamespace || hooks.length > 0) {
+        const named = hooks.length > 0 ? `{ ${hooks.join(', ')} }` : ''
+        imports.push(`import ${[usesNamespace ? 'React' : '', named].filter(Boolean).join(', ')} from 'react'`)
+      }
+    }
+
+    // Track shadcn/ui files already imported and auto-import components used in JSX
+    for (const match of code.matchAll(/from\s+['"]@\/components\/(ui\/[^'"]+)['"]/g)) {
+      usedUiFiles.add(match[1])
+    }
+    const missingUi = new Map<string, string[]>()
+    for (const match of code.matchAll(/<([A-Z][\w]*)[\s/>]/g)) {
+      const tag = match[1]
+      const file = library.exports.get(tag)
+      if (!file || declared.has(tag)) continue
+      declared.add(tag)
+      missingUi.set(file, [...(missingUi.get(file) || []), tag])
+    }
+    missingUi.forEach((names, file) => {
+      usedUiFiles.add(file)
+      imports.push(`import { ${names.join(', ')} } from '@/components/${file}'`)
+    })
+
+    if (!/export\s+default\b/.test(code)) {
+      const candidates = Array.from(code.matchAll(/(?:function|const|let|class)\s+([A-Z][\w$]*)/g)).map(match => match[1])
+      const main = candidates.find(name => name === component.name) || candidates[candidates.length - 1]
+      code = main ? `${code}\n\nexport default ${main}` : `${code}\n\nexport default function ${identifier}() {\n  return null\n}`
+    }
+
+    return `${imports.length > 0 ? `${imports.join('\n')}\n\n` : ''}${code}\n`
+  }
+
+  private static buildComponentsPage(components: ExportedComponent[]): string {
+    const sections = components.map(exported => {
+      const defaults = Object.fromEntries(
+        Object.entries(exported.component.props || {})
+          .filter(([, definition]) => definition.defaultValue !== undefined)
+          .map(([name, definition]) => [name, definition.defaultValue])
+      )
+      return [
+        `      <section className="space-y-2">`,
+        `        <h2 className="text-sm font-medium text-muted-foreground">${exported.component.name}</h2>`,
+        `        <div className="rounded-lg border p-6">`,
+        `          <ErrorBoundary name="${exported.identifier}">`,
+        `            <${exported.identifier}${toJsxProps(defaults)} />`,
+        `          </ErrorBoundary>`,
+        `        </div>`,
+        `      </section>`
+      ].join('\n')
+    })
+
+    return [
+      `import ErrorBoundary from '@/components/ErrorBoundary'`,
+      ...components.map(exported => `import ${exported.identifier} from '${exported.importPath}'`),
+      '',
+      `export default function ComponentsPage() {`,
+      `  return (`,
+      `    <div className="mx-auto max-w-5xl space-y-8 p-8">`,
+      ...(sections.length > 0 ? sections : [`      <p className="text-muted-foreground">This project has no components yet.</p>`]),
+      `    </div>`,
+      `  )`,
+      `}`,
+      ''
+    ].join('\n')
+  }
+
+  private static buildApp(pages: Array<{ identifier: string; route: string; scene: Scene }>): string {
+    const links = [
+      ...pages.map(page => ({ to: page.route, label: page.scene.name })),
+      { to: '/components', label: 'Components' }
+    ]
+
+    return [
+      `import { NavLink, Navigate, Route, Routes } from 'react-router-dom'`,
+      `import ComponentsPage from '@/pages/ComponentsPage'`,
+      ...pages.map(page => `import ${page.identifier} from '@/pages/${page.identifier}'`),
+      '',
+      `const links = ${JSON.stringify(links, null, 2)}`,
+      '',
+      `export default function App() {`,
+      `  return (`,
+      `    <div className="min-h-screen bg-background text-foreground">`,
+      `      <nav className="flex gap-4 border-b px-6 py-3 text-sm">`,
+      `        {links.map(link => (`,
+      `          <NavLink`,
+      `            key={link.to}`,
+      `            to={link.to}`,
+      `            className={({ isActive }) => (isActive ? 'font-semibold' : 'text-muted-foreground hover:text-foreground')}`,
+      `          >`,
+      `            {link.label}`,
+      `          </NavLink>`,
+      `        ))}`,
+      `      </nav>`,
+      `      <main className="p-6">`,
+      `        <Routes>`,
+      `          <Route path="/" element={<Navigate to="${pages[0]?.route || '/components'}" replace />} />`,
+      ...pages.map(page => `          <Route path="${page.route}" element={<${page.identifier} />} />`),
+      `          <Route path="/components" element={<ComponentsPage />} />`,
+      `        </Routes>`,
+      `      </main>`,
+      `    </div>`,
+      `  )`,
+      `}`,
+      ''
+    ].join('\n')
+  }
+
+  // Versions come from the project first, then the plan's stack, then what HedgeKit itself builds with
+  private static buildPackageJson(project: ProjectSchema, files: ExportedFile[]): string {
+    const stack = project.plan?.technicalStack
+    const preferred: Record<string, string> = { ...(stack?.dependencies || {}), ...(project.dependencies || {}) }
+    const versionOf = (name: string) => preferred[name] || knownVersions[name] || 'latest'
+
+    const dependencies: Record<string, string> = {}
+    const addDependency = (name: string) => {
+      dependencies[name] = versionOf(name)
+    }
+
+    const stackPackages = STACK_PACKAGES[stack?.frontend.stateManagement || ''] || []
+    BASE_DEPENDENCIES.concat(stackPackages).forEach(addDependency)
+    files
+      .filter(file => typeof file.content === 'string' && /\.(tsx?|jsx?)$/.test(file.path))
+      .forEach(file => bareImports(file.content as string).forEach(addDependency))
+    Object.keys(preferred).forEach(addDependency)
+
+    const devDependencies: Record<string, string> = {}
+    DEV_DEPENDENCIES.forEach(name => {
+      devDependencies[name] = versionOf(name)
+      delete dependencies[name]
+    })
+
+    if (stack?.frontend.testing === 'vitest') {
+      devDependencies.vitest = versionOf('vitest')
+    }
+
+    const sorted = (record: Record<string, string>) =>
+      Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)))
+
+    return `${JSON.stringify({
+      name: slugify(project.name),
+      private: true,
+      version: '0.1.0',
+      description: project.description,
+      type: 'module',
+      scripts: {
+        dev: 'vite',
+        build: 'vite build',
+        preview: 'vite preview',
+        typecheck: 'tsc --noEmit'
+      },
+      dependencies: sorted(dependencies),
+      devDependencies: sorted(devDependencies)
+    }, null, 2)}\n`
+  }
+
+  private static buildIndexHtml(project: ProjectSchema): string {
+    const title = project.name.replace(/[<>&"]/g, '')
+    return [
+      '<!doctype html>',
+      '<html lang="en">',
+      '  <head>',
+      '    <meta charset="UTF-8" />',
+      '    <meta name="viewport" content="width=device-width, initial-scale=1.0" />',
+      `    <title>${title}</title>`,
+      '  </head>',
+      '  <body>',
+      '    <div id="root"></div>',
+      '    <script type="module" src="/src/main.tsx"></script>',
+      '  </body>',
+      '</html>',
+      ''
+    ].join('\n')
+  }
+
+  private static buildReadme(
+    project: ProjectSchema,
+    pages: Array<{ route: string; scene: Scene }>,
+    assetFiles: ExportedFile[]
+  ): string {
+    return [
+      `# ${project.name}`,
+      '',
+      project.description,
+      '',
+      'Exported from HedgeKit.',
+      '',
+      '## Getting started',
+      '',
+      '```bash',
+      'npm install',
+      'npm run dev',
+      '```',
+      '',
+      '## Routes',
+      '',
+      ...pages.map(page => `- \`${page.route}\`: ${page.scene.name}`),
+      '- `/components`: every component rendered with its default props',
+      ...(assetFiles.length > 0
+        ? ['', '## Assets', '', 'Generated images are in `public/assets/` and are served from `/assets/`.']
+        : []),
+      ''
+    ].join('\n')
+  }
+}
+
+const MAIN_TSX = `import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import { BrowserRouter } from 'react-router-dom'
+import App from './App'
+import './index.css'
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <BrowserRouter>
+      <App />
+    </BrowserRouter>
+  </StrictMode>
+)
+`
+
+const UTILS_TS = `import { clsx, type ClassValue } from 'clsx'
+import { twMerge } from 'tailwind-merge'
+
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs))
+}
+`
+
+const ERROR_BOUNDARY_TSX = `import { Component, type ReactNode } from 'react'
+
+interface ErrorBoundaryProps {
+  name: string
+  children: ReactNode
+}
+
+export default class ErrorBoundary extends Component<ErrorBoundaryProps, { error: Error | null }> {
+  state = { error: null as Error | null }
+
+  static getDerivedStateFromError(error: Error) {
+    return { error }
+  }
+
+  render() {
+    if (this.state.error) {
+      return <p className="text-sm text-red-600">{this.props.name} failed to render: {this.state.error.message}</p>
+    }
+    return this.props.children
+  }
+}
+`
+
+const VITE_CONFIG = `import { fileURLToPath, URL } from 'node:url'
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url))
+    }
+  }
+})
+`
+
+const TSCONFIG = `{
+  "compilerOptions": {
+    "target": "ES2020",
+    "useDefineForClassFields": true,
+    "lib": ["ES2020", "DOM", "DOM.Iterable"],
+    "module": "ESNext",
+    "skipLibCheck": true,
+    "moduleResolution": "bundler",
+    "isolatedModules": true,
+    "noEmit": true,
+    "jsx": "react-jsx",
+    "strict": true,
+    "baseUrl": ".",
+    "paths": {
+      "@/*": ["./src/*"]
+    }
+  },
+  "include": ["src"]
+}
+`
+
+const TAILWIND_CONFIG = `import animate from 'tailwindcss-animate'
+
+/** @type {import('tailwindcss').Config} */
+export default {
+  darkMode: ['class'],
+  content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
+  theme: {
+    extend: {
+      colors: {
+        border: 'hsl(var(--border))',
+        input: 'hsl(var(--input))',
+        ring: 'hsl(var(--ring))',
+        background: 'hsl(var(--background))',
+        foreground: 'hsl(var(--foreground))',
+        primary: { DEFAULT: 'hsl(var(--primary))', foreground: 'hsl(var(--primary-foreground))' },
+        secondary: { DEFAULT: 'hsl(var(--secondary))', foreground: 'hsl(var(--secondary-foreground))' },
+        destructive: { DEFAULT: 'hsl(var(--destructive))', foreground: 'hsl(var(--destructive-foreground))' },
+        muted: { DEFAULT: 'hsl(var(--muted))', foreground: 'hsl(var(--muted-foreground))' },
+        accent: { DEFAULT: 'hsl(var(--accent))', foreground: 'hsl(var(--accent-foreground))' },
+        popover: { DEFAULT: 'hsl(var(--popover))', foreground: 'hsl(var(--popover-foreground))' },
+        card: { DEFAULT: 'hsl(var(--card))', foreground: 'hsl(var(--card-foreground))' },
+        sidebar: {
+          DEFAULT: 'hsl(var(--sidebar-background))',
+          foreground: 'hsl(var(--sidebar-foreground))',
+          primary: 'hsl(var(--sidebar-primary))',
+          'primary-foreground': 'hsl(var(--sidebar-primary-foreground))',
+          accent: 'hsl(var(--sidebar-accent))',
+          'accent-foreground': 'hsl(var(--sidebar-accent-foreground))',
+          border: 'hsl(var(--sidebar-border))',
+          ring: 'hsl(var(--sidebar-ring))'
+        }
+      },
+      borderRadius: {
+        lg: 'var(--radius)',
+        md: 'calc(var(--radius) - 2px)',
+        sm: 'calc(var(--radius) - 4px)'
+      }
+    }
+  },
+  plugins: [animate]
+}
+`
+
+const POSTCSS_CONFIG = `export default {
+  plugins: {
+    tailwindcss: {},
+    autoprefixer: {}
+  }
+}
+`
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ProjectHistory } from './projectHistory'
+import type { ComponentSchema, ProjectSchema } from '../types/schema'
+
+function component(id: string, code = ''): ComponentSchema {
+  return { id, name: id, generatedCode: code } as ComponentSchema
+}
+
+function project(components: ComponentSchema[], changes: Partial<ProjectSchema> = {}): ProjectSchema {
+  return {
+    id: 'project-1',
+    name: 'Project',
+    description: '',
+    framework: 'react',
+    components,
+    dependencies: {},
+    assets: [],
+    scenes: [],
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...changes
+  } as ProjectSchema
+}
+
+const renamed = (from: ProjectSchema, name: string) => ({ ...from, name })
+
+describe('ProjectHistory', () => {
+  let history: ProjectHistory
+
+  beforeEach(() => {
+    history = new ProjectHistory()
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('coalescing', () => {
+    it('joins quick user edits of the same kind into one step', () => {
+      const a = project([])
+      const b = renamed(a, 'B')
+      const c = renamed(b, 'C')
+      history.record(a, b)
+      vi.advanceTimersByTime(500)
+      history.record(b, c)
+
+      const { past } = history.getState()
+      expect(past).toHaveLength(1)
+      expect(past[0].before).toBe(a)
+      expect(past[0].after).toBe(c)
+    })
+
+    it('keeps edits apart once the window has passed', () => {
+      const a = project([])
+      const b = renamed(a, 'B')
+      history.record(a, b)
+      vi.advanceTimersByTime(1500)
+      history.record(b, renamed(b, 'C'))
+
+      expect(history.getState().past).toHaveLength(2)
+    })
+
+    it('keeps edits of different kinds and tool edits apart', () => {
+      const a = project([])
+      const b = renamed(a, 'B')
+      const c = { ...b, description: 'Described' }
+      history.record(a, b)
+      history.record(b, c)
+      history.runWithSource({ type: 'tool', tool: 'edit_component' }, () => history.record(c, renamed(c, 'D')))
+
+      expect(history.getState().past.map(entry => entry.label)).toEqual([
+        'Rename project',
+        'Edit project description',
+        'Rename project'
+      ])
+    })
+
+    it('does not join an edit made after an undo', () => {
+      const a = project([])
+      const b = renamed(a, 'B')
+      history.record(a, b)
+      history.undo()
+      history.record(a, renamed(a, 'C'))
+
+      const { past, future } = history.getState()
+      expect(past).toHaveLength(1)
+      expect(past[0].after.name).toBe('C')
+      expect(future).toHaveLength(0)
+    })
+  })
+
+  it('records nothing for untracked fields or preview bookkeeping', () => {
+    const a = project([])
+    history.record(a, { ...a, updatedAt: '2025-02-01T00:00:00.000Z', screenshots: [] })
+    history.runWithSource({ type: 'preview' }, () => history.record(a, renamed(a, 'B')))
+
+    expect(history.getState().past).toHaveLength(0)
+  })
+
+  it('groups tool edits inside a transaction into one step', () => {
+    const a = project([])
+    const b = renamed(a, 'B')
+    const c = { ...b, description: 'Described' }
+    history.beginTransaction('Develop project')
+    history.runWithSource({ type: 'tool', tool: 'generate_component' }, () => history.record(a, b))
+    history.runWithSource({ type: 'tool', tool: 'edit_component' }, () => history.record(b, c))
+    expect(history.undo()).toBeNull()
+    history.commitTransaction()
+
+    const { past } = history.getState()
+    expect(past).toHaveLength(1)
+    expect(past[0].tools).toEqual(['generate_component', 'edit_component'])
+    expect(history.undo()).toBe(a)
+    expect(history.redo()).toBe(c)
+  })
+
+  describe('rebase', () => {
+    it('carries changes from another tab into every snapshot', () => {
+      const a = project([component('A')])
+      const b = project([component('A', 'ours')])
+      history.record(a, b)
+
+      const merged = project([component('A', 'ours'), component('R', 'theirs')])
+      history.rebase(b, merged)
+
+      const [entry] = history.getState().past
+      expect(entry.after).toBe(merged)
+      expect(entry.before.components.map(c => [c.id, c.generatedCode])).toEqual([['A', ''], ['R', 'theirs']])
+    })
+
+    it('keeps snapshots shared between neighbouring entries shared', () => {
+      const a = project([component('A')])
+      const b = project([component('A', 'one')])
+      const c = project([component('A', 'two')], { name: 'Renamed' })
+      history.record(a, b)
+      vi.advanceTimersByTime(1500)
+      history.record(b, c)
+
+      history.rebase(c, project([component('A', 'two'), component('R')], { name: 'Renamed' }))
+
+      const [first, second] = history.getState().past
+      expect(first.after).toBe(second.before)
+      expect(first.after.components.map(component => component.id)).toEqual(['A', 'R'])
+    })
+
+    it('does nothing when the merge changed nothing', () => {
+      const a = project([])
+      const b = renamed(a, 'B')
+      history.record(a, b)
+      history.rebase(b, b)
+
+      expect(history.getState().past[0].before).toBe(a)
+    })
+  })
+})
@@ -0,0 +1,326 @@
+import type { ComponentSchema, ProjectSchema, VisualDiff } from '../types/schema'
+import { ProjectSyncService } from './projectSync'
+
+export type HistorySource =
+  | { type: 'user' }
+  | { type: 'tool'; tool: string }
+  | { type: 'preview' } // Bookkeeping reported by preview documents, such as runtime errors; never recorded, and kept across undo and redo
+
+export interface HistoryEntry {
+  id: string
+  label: string
+  source: HistorySource
+  tools: string[] // Every tool that contributed to the entry, in call order
+  timestamp: string
+  before: ProjectSchema
+  after: ProjectSchema
+}
+
+export interface HistoryState {
+  past: HistoryEntry[] // Oldest first
+  future: HistoryEntry[] // Next redo first
+  canUndo: boolean
+  canRedo: boolean
+  inTransaction: boolean
+}
+
+export type HistoryChangeListener = (state: HistoryState) => void
+
+interface OpenTransaction {
+  label: string
+  depth: number
+  before: ProjectSchema | null
+  after: ProjectSchema | null
+  tools: string[]
+  startedAt: string
+}
+
+const MAX_HISTORY_ENTRIES = 100
+// Consecutive user edits with the same label inside this window (drags, typing) become one step
+const COALESCE_WINDOW_MS = 1000
+
+// Fields that record what happened rather than edits. They are never undone: undo and redo keep
+// their current values.
+const UNTRACKED_FIELDS = new Set<keyof ProjectSchema>(['chatHistory', 'screenshots', 'updatedAt'])
+
+// What the preview observed on a component, kept across undo and redo the same way
+const OBSERVED_COMPONENT_FIELDS = ['runtimeErrors', 'accessibility'] as const
+
+const FIELD_LABELS: Partial<Record<keyof ProjectSchema, string>> = {
+  components: 'Update components',
+  assets: 'Update assets',
+  scenes: 'Update scenes',
+  activeSceneId: 'Change active scene',
+  plan: 'Update project plan',
+  dependencies: 'Update dependencies',
+  name: 'Rename project',
+  description: 'Edit project description'
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  // Immutable updates often rebuild arrays that still hold the same items
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => item === b[index])
+  }
+  return false
+}
+
+export function getChangedFields(before: ProjectSchema, after: ProjectSchema): Array<keyof ProjectSchema> {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as Array<keyof ProjectSchema>)
+  return Array.from(keys).filter(key => !UNTRACKED_FIELDS.has(key) && !sameValue(before[key], after[key]))
+}
+
+function sameComparison(a: VisualDiff | undefined, b: VisualDiff | undefined): boolean {
+  return a?.beforeScreenshotId === b?.beforeScreenshotId && a?.afterScreenshotId === b?.afterScreenshotId
+}
+
+// The restored snapshot with the untracked fields and the preview's observations of the current
+// project. A newer visual diff is kept too; the same comparison takes the restored review status.
+export function withUntrackedFields(restored: ProjectSchema, current: ProjectSchema): ProjectSchema {
+  const project: ProjectSchema = { ...restored }
+  UNTRACKED_FIELDS.forEach(field => {
+    Object.assign(project, { [field]: current[field] })
+  })
+
+  const latest = new Map(current.components.map(component => [component.id, component]))
+  project.components = restored.components.map(component => {
+    const observed = latest.get(component.id)
+    if (!observed) return component
+
+    const changes: Partial<ComponentSchema> = {}
+    OBSERVED_COMPONENT_FIELDS.forEach(field => {
+      if (component[field] !== observed[field]) Object.assign(changes, { [field]: observed[field] })
+    })
+    if (!sameComparison(component.visualDiff, observed.visualDiff)) changes.visualDiff = observed.visualDiff
+    return Object.keys(changes).length > 0 ? { ...component, ...changes } : component
+  })
+  return project
+}
+
+function describeChange(fields: Array<keyof ProjectSchema>): string {
+  if (fields.length === 1) {
+    return FIELD_LABELS[fields[0]] || `Update ${String(fields[0])}`
+  }
+  return 'Update project'
+}
+
+export class ProjectHistory {
+  private past: HistoryEntry[] = []
+  private future: HistoryEntry[] = []
+  private source: HistorySource = { type: 'user' }
+  private transaction: OpenTransaction | null = null
+  private listeners: Set<HistoryChangeListener> = new Set()
+
+  // Attribute every update made synchronously inside fn to the given source
+  runWithSource<T>(source: HistorySource, fn: () => T): T {
+    const previous = this.source
+    this.source = source
+    try {
+      return fn()
+    } finally {
+      this.source = previous
+    }
+  }
+
+  // Group every update until the matching commit into a single undoable step
+  beginTransaction(label: string): void {
+    if (this.transaction) {
+      this.transaction.depth++
+      return
+    }
+    this.transaction = {
+      label,
+      depth: 1,
+      before: null,
+      after: null,
+      tools: [],
+      startedAt: new Date().toISOString()
+    }
+    this.notify()
+  }
+
+  commitTransaction(): void {
+    const transaction = this.transaction
+    if (!transaction) return
+    if (--transaction.depth > 0) return
+
+    this.transaction = null
+    if (!this.pushTransaction(transaction)) {
+      this.notify()
+    }
+  }
+
+  // Push what the transaction changed so far as an entry; false when it changed nothing
+  private pushTransaction(transaction: OpenTransaction): boolean {
+    if (!transaction.before || !transaction.after || getChangedFields(transaction.before, transaction.after).length === 0) {
+      return false
+    }
+    const tools = transaction.tools
+    this.push({
+      id: `history-${Date.now()}-${this.past.length}`,
+      label: transaction.label,
+      source: tools.length > 0 ? { type: 'tool', tool: tools[tools.length - 1] } : { type: 'user' },
+      tools,
+      timestamp: transaction.startedAt,
+      before: transaction.before,
+      after: transaction.after
+    })
+    return true
+  }
+
+  record(before: ProjectSchema, after: ProjectSchema): void {
+    const source = this.source
+    if (source.type === 'preview') return
+
+    const changedFields = getChangedFields(before, after)
+    if (changedFields.length === 0) return
+
+    if (this.transaction && source.type === 'tool') {
+      this.transaction.before = this.transaction.before || before
+      this.transaction.after = after
+      if (this.transaction.tools[this.transaction.tools.length - 1] !== source.tool) {
+        this.transaction.tools.push(source.tool)
+      }
+      return
+    }
+
+    // A user edit while a transaction is open is a step of its own. What the transaction changed
+    // so far becomes one entry and the rest another, so undoing either keeps the user's edit.
+    if (this.transaction) {
+      this.pushTransaction(this.transaction)
+      this.transaction.before = null
+      this.transaction.after = null
+      this.transaction.tools = []
+      this.transaction.startedAt = new Date().toISOString()
+    }
+
+    const label = describeChange(changedFields)
+    const last = this.past[this.past.length - 1]
+    const now = Date.now()
+
+    if (
+      last &&
+      this.future.length === 0 &&
+      last.source.type === 'user' &&
+      source.type === 'user' &&
+      last.label === label &&
+      last.after === before &&
+      now - new Date(last.timestamp).getTime() < COALESCE_WINDOW_MS
+    ) {
+      this.past[this.past.length - 1] = { ...last, after, timestamp: new Date(now).toISOString() }
+      this.notify()
+      return
+    }
+
+    this.push({
+      id: `history-${now}-${this.past.length}`,
+      label,
+      source,
+      tools: source.type === 'tool' ? [source.tool] : [],
+      timestamp: new Date(now).toISOString(),
+      before,
+      after
+    })
+  }
+
+  // Returns the project state to restore, or null if there is nothing to undo
+  undo(): ProjectSchema | null {
+    if (this.transaction) return null
+    const entry = this.past.pop()
+    if (!entry) return null
+
+    this.future.unshift(entry)
+    this.notify()
+    return entry.before
+  }
+
+  redo(): ProjectSchema | null {
+    if (this.transaction) return null
+    const entry = this.future.shift()
+    if (!entry) return null
+
+    this.past.push(entry)
+    this.notify()
+    return entry.after
+  }
+
+  // Carry changes that arrived from another tab into every snapshot, so undo and redo only step
+  // over this tab's edits. `base` is this tab's state before the merge and `merged` the result.
+  rebase(base: ProjectSchema, merged: ProjectSchema): void {
+    if (base === merged) return
+
+    // Neighbouring entries share snapshots; keep them shared
+    const rebased = new Map<ProjectSchema, ProjectSchema>([[base, merged]])
+    const rebaseSnapshot = (snapshot: ProjectSchema) => {
+      let result = rebased.get(snapshot)
+      if (!result) {
+        result = ProjectSyncService.mergeProjects(base, snapshot, merged).project
+        rebased.set(snapshot, result)
+      }
+      return result
+    }
+    const rebaseEntry = (entry: HistoryEntry): HistoryEntry => ({
+      ...entry,
+      before: rebaseSnapshot(entry.before),
+      after: rebaseSnapshot(entry.after)
+    })
+
+    this.past = this.past.map(rebaseEntry)
+    this.future = this.future.map(rebaseEntry)
+    if (this.transaction?.before && this.transaction.after) {
+      this.transaction.before = rebaseSnapshot(this.transaction.before)
+      this.transaction.after = rebaseSnapshot(this.transaction.after)
+    }
+    this.notify()
+  }
+
+  clear(): void {
+    this.past = []
+    this.future = []
+    this.transaction = null
+    this.notify()
+  }
+
+  getState(): HistoryState {
+    return {
+      past: [...this.past],
+      future: [...this.future],
+      canUndo: !this.transaction && this.past.length > 0,
+      canRedo: !this.transaction && this.future.length > 0,
+      inTransaction: !!this.transaction
+    }
+  }
+
+  addChangeListener(listener: HistoryChangeListener): void {
+    this.listeners.add(listener)
+  }
+
+  removeChangeListener(listener: HistoryChangeListener): void {
+    this.listeners.delete(listener)
+  }
+
+  private push(entry: HistoryEntry): void {
+    this.past.push(entry)
+    if (this.past.length > MAX_HISTORY_ENTRIES) {
+      this.past.splice(0, this.past.length - MAX_HISTORY_ENTRIES)
+    }
+    // A new change invalidates anything that was undone
+    this.future = []
+    this.notify()
+  }
+
+  private notify(): void {
+    const state = this.getState()
+    this.listeners.forEach(listener => {
+      try {
+        listener(state)
+      } catch (error) {
+        console.error('Error in history change listener:', error)
+      }
+    })
+  }
+}
+
+// Global instance shared by the project manager hook and the agent orchestrator
+export const projectHistory = new ProjectHistory()
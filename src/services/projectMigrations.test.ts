@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { CURRENT_SCHEMA_VERSION, ProjectMigrationService } from './projectMigrations'
+
+function stored(changes: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 'project-1',
+    name: 'Project',
+    description: '',
+    framework: 'react',
+    dependencies: {},
+    components: [],
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...changes
+  }
+}
+
+describe('ProjectMigrationService.migrate', () => {
+  it('brings a project saved before versioning up to the current schema', () => {
+    const result = ProjectMigrationService.migrate(stored())
+
+    expect(result.fromVersion).toBe(0)
+    expect(result.appliedMigrations).toEqual([1, 2, 3, 4])
+    expect(result.project).toMatchObject({ schemaVersion: CURRENT_SCHEMA_VERSION, assets: [], scenes: [] })
+    expect(result.issues).toEqual([])
+  })
+
+  it('applies only the migrations after the stored version', () => {
+    const result = ProjectMigrationService.migrate(stored({ schemaVersion: 3, assets: [], scenes: [] }))
+
+    expect(result.fromVersion).toBe(3)
+    expect(result.appliedMigrations).toEqual([4])
+  })
+
+  it('gives inline screenshot images the id they are stored under', () => {
+    const result = ProjectMigrationService.migrate(stored({
+      schemaVersion: 3,
+      screenshots: [
+        { id: 'inline', timestamp: '', dataUrl: 'data:image/png;base64,AA==' },
+        { id: 'uploaded', timestamp: '', cdnUrl: 'https://cdn.example/shot.png' }
+      ]
+    }))
+
+    expect(result.project?.screenshots).toEqual([
+      { id: 'inline', timestamp: '', dataUrl: 'data:image/png;base64,AA==', imageId: 'inline' },
+      { id: 'uploaded', timestamp: '', cdnUrl: 'https://cdn.example/shot.png' }
+    ])
+  })
+
+  it('drops normalized fields that are not what they should be', () => {
+    const result = ProjectMigrationService.migrate(stored({ schemaVersion: 2, plan: 'none', screenshots: {}, chatHistory: null }))
+
+    expect(result.project).not.toHaveProperty('plan')
+    expect(result.project).not.toHaveProperty('screenshots')
+    expect(result.project).not.toHaveProperty('chatHistory')
+  })
+
+  it('reports a project saved by a newer build without failing it', () => {
+    const result = ProjectMigrationService.migrate(stored({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 }))
+
+    expect(result.project).not.toBeNull()
+    expect(result.appliedMigrations).toEqual([])
+    expect(result.issues).toContainEqual(expect.objectContaining({ path: 'schemaVersion', repaired: false }))
+  })
+
+  it('cannot recover data without an id', () => {
+    expect(ProjectMigrationService.migrate(null).project).toBeNull()
+    expect(ProjectMigrationService.migrate(stored({ id: '' })).project).toBeNull()
+  })
+})
+
+describe('ProjectMigrationService.validate', () => {
+  it('repairs missing fields and removes malformed entries', () => {
+    const { project, issues } = ProjectMigrationService.validate(stored({
+      name: '',
+      framework: 'vue',
+      components: [
+        { id: 'a', name: 'A', source: 'custom' },
+        { name: 'No id' }
+      ],
+      scenes: [{ id: 'scene', layout: {}, instances: [{ id: 'i', componentId: 'missing' }] }],
+      activeSceneId: 'gone'
+    }))
+
+    expect(project).toMatchObject({ name: 'Untitled Project', framework: 'react' })
+    expect(project?.components).toEqual([{ id: 'a', name: 'A', source: 'custom', props: {}, type: 'component', framework: 'react' }])
+    expect(project?.scenes[0].instances).toEqual([])
+    expect(project).not.toHaveProperty('activeSceneId')
+    expect(issues.map(issue => issue.path)).toEqual(expect.arrayContaining([
+      'name', 'framework', 'components[0].props', 'components[1]', 'scenes[0].viewport', 'scenes[0].instances[0]', 'activeSceneId'
+    ]))
+  })
+
+  it('removes screenshot image fields that are not strings', () => {
+    const { project, issues } = ProjectMigrationService.validate(stored({
+      screenshots: [{ id: 'shot', timestamp: '', imageId: 4, thumbnail: 'data:image/jpeg;base64,AA==' }]
+    }))
+
+    expect(project?.screenshots).toEqual([{ id: 'shot', timestamp: '', thumbnail: 'data:image/jpeg;base64,AA==' }])
+    expect(issues).toContainEqual(expect.objectContaining({ path: 'screenshots[0].imageId', repaired: true }))
+  })
+})
@@ -0,0 +1,276 @@
+import type { ProjectSchema } from '../types/schema'
+
+// Bump this and append a migration whenever ProjectSchema changes shape
+export const CURRENT_SCHEMA_VERSION = 4
+
+export interface ProjectMigration {
+  version: number // Schema version the project is at after this migration
+  description: string
+  migrate: (project: Record<string, any>) => Record<string, any>
+}
+
+export interface ProjectValidationIssue {
+  path: string
+  message: string
+  repaired: boolean
+}
+
+export interface ProjectMigrationResult {
+  project: ProjectSchema | null // null when the data could not be recovered
+  fromVersion: number
+  appliedMigrations: number[]
+  issues: ProjectValidationIssue[]
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Ordered list of migrations; projects saved before versioning are version 0
+export const projectMigrations: ProjectMigration[] = [
+  {
+    version: 1,
+    description: 'Add image asset collection',
+    migrate: project => ({
+      ...project,
+      assets: Array.isArray(project.assets) ? project.assets : []
+    })
+  },
+  {
+    version: 2,
+    description: 'Add scene composition',
+    migrate: project => ({
+      ...project,
+      scenes: Array.isArray(project.scenes) ? project.scenes : []
+    })
+  },
+  {
+    version: 3,
+    description: 'Normalize plan, screenshots and chat history',
+    migrate: project => {
+      const { plan, screenshots, chatHistory, ...rest } = project
+      return {
+        ...rest,
+        ...(isObject(plan) ? { plan } : {}),
+        ...(Array.isArray(screenshots) ? { screenshots } : {}),
+        ...(Array.isArray(chatHistory) ? { chatHistory } : {})
+      }
+    }
+  },
+  {
+    version: 4,
+    description: 'Store screenshot images apart from the project',
+    // Inline images get the id they are stored under; storage moves the bytes when it next saves
+    migrate: project => ({
+      ...project,
+      ...(Array.isArray(project.screenshots) ? {
+        screenshots: project.screenshots.map(shot =>
+          isObject(shot) && typeof shot.dataUrl === 'string' && !shot.imageId ? { ...shot, imageId: shot.id } : shot
+        )
+      } : {})
+    })
+  }
+]
+
+export class ProjectMigrationService {
+  // Bring raw stored or imported data up to the current schema and repair what we can
+  static migrate(raw: unknown): ProjectMigrationResult {
+    if (!isObject(raw)) {
+      return {
+        project: null,
+        fromVersion: 0,
+        appliedMigrations: [],
+        issues: [{ path: '', message: 'Project data is not an object', repaired: false }]
+      }
+    }
+
+    const fromVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0
+    const appliedMigrations: number[] = []
+    const issues: ProjectValidationIssue[] = []
+    let project: Record<string, any> = raw
+
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+      issues.push({
+        path: 'schemaVersion',
+        message: `Project was saved by a newer HedgeKit (schema v${fromVersion}, this build supports v${CURRENT_SCHEMA_VERSION})`,
+        repaired: false
+      })
+    }
+
+    for (const migration of projectMigrations) {
+      if (migration.version <= fromVersion) continue
+      try {
+        project = { ...migration.migrate(project), schemaVersion: migration.version }
+        appliedMigrations.push(migration.version)
+      } catch (error) {
+        issues.push({
+          path: 'schemaVersion',
+          message: `Migration to v${migration.version} (${migration.description}) failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          repaired: false
+        })
+        break
+      }
+    }
+
+    const validation = this.validate(project)
+    return {
+      project: validation.project,
+      fromVersion,
+      appliedMigrations,
+      issues: [...issues, ...validation.issues]
+    }
+  }
+
+  // Check the structure of a project and repair malformed fields in place of crashing
+  static validate(input: Record<string, any>): { project: ProjectSchema | null; issues: ProjectValidationIssue[] } {
+    const issues: ProjectValidationIssue[] = []
+    const repair = (path: string, message: string) => issues.push({ path, message, repaired: true })
+
+    if (typeof input.id !== 'string' || !input.id) {
+      issues.push({ path: 'id', message: 'Project has no id', repaired: false })
+      return { project: null, issues }
+    }
+
+    const now = new Date().toISOString()
+    const project: Record<string, any> = { ...input }
+
+    if (typeof project.name !== 'string' || !project.name.trim()) {
+      project.name = 'Untitled Project'
+      repair('name', 'Missing project name')
+    }
+    if (typeof project.description !== 'string') {
+      project.description = ''
+      repair('description', 'Missing project description')
+    }
+    if (project.framework !== 'react') {
+      project.framework = 'react'
+      repair('framework', 'Unsupported framework, reset to react')
+    }
+    if (!isObject(project.dependencies)) {
+      project.dependencies = {}
+      repair('dependencies', 'Dependencies were not an object')
+    }
+    if (typeof project.createdAt !== 'string') {
+      project.createdAt = now
+      repair('createdAt', 'Missing creation timestamp')
+    }
+    if (typeof project.updatedAt !== 'string') {
+      project.updatedAt = project.createdAt
+      repair('updatedAt', 'Missing update timestamp')
+    }
+
+    project.components = this.validateList(project.components, 'components', issues, (component, path) => {
+      if (typeof component.id !== 'string' || typeof component.name !== 'string') return null
+      const repaired = { ...component }
+      if (!isObject(repaired.props)) {
+        repaired.props = {}
+        repair(`${path}.props`, 'Props were not an object')
+      }
+      if (repaired.type !== 'component') repaired.type = 'component'
+      if (repaired.framework !== 'react') repaired.framework = 'react'
+      if (!['local', 'shadcn', 'custom'].includes(repaired.source)) {
+        repaired.source = 'custom'
+        repair(`${path}.source`, 'Unknown component source')
+      }
+      return repaired
+    })
+
+    project.assets = this.validateList(project.assets, 'assets', issues, asset =>
+      typeof asset.id === 'string' ? asset : null
+    )
+
+    const componentIds = new Set(project.components.map((c: { id: string }) => c.id))
+    project.scenes = this.validateList(project.scenes, 'scenes', issues, (scene, path) => {
+      if (typeof scene.id !== 'string' || !isObject(scene.layout)) return null
+      const repaired = { ...scene }
+      if (typeof repaired.name !== 'string') {
+        repaired.name = 'Untitled Scene'
+        repair(`${path}.name`, 'Missing scene name')
+      }
+      if (!isObject(repaired.viewport)) {
+        const container = isObject(repaired.layout.container) ? repaired.layout.container : {}
+        repaired.viewport = { width: container.width || 1200, height: container.height || 800, scale: 1 }
+        repair(`${path}.viewport`, 'Missing viewport')
+      }
+      repaired.instances = this.validateList(repaired.instances, `${path}.instances`, issues, (instance, instancePath) => {
+        if (typeof instance.id !== 'string' || !componentIds.has(instance.componentId)) return null
+        const repairedInstance = { ...instance }
+        if (!isObject(repairedInstance.props)) {
+          repairedInstance.props = {}
+          repair(`${instancePath}.props`, 'Instance props were not an object')
+        }
+        if (!isObject(repairedInstance.position)) {
+          repairedInstance.position = { x: 0, y: 0 }
+          repair(`${instancePath}.position`, 'Missing instance position')
+        }
+        if (!isObject(repairedInstance.size)) {
+          repairedInstance.size = { width: 'auto', height: 'auto' }
+          repair(`${instancePath}.size`, 'Missing instance size')
+        }
+        return repairedInstance
+      })
+      return repaired
+    })
+
+    if (project.activeSceneId && !project.scenes.some((s: { id: string }) => s.id === project.activeSceneId)) {
+      delete project.activeSceneId
+      repair('activeSceneId', 'Active scene no longer exists')
+    }
+
+    if (project.plan !== undefined && (!isObject(project.plan) || !Array.isArray(project.plan.phases) || !Array.isArray(project.plan.milestones))) {
+      delete project.plan
+      repair('plan', 'Malformed project plan was removed')
+    }
+
+    if (project.screenshots !== undefined) {
+      project.screenshots = this.validateList(project.screenshots, 'screenshots', issues, (shot, path) => {
+        if (typeof shot.id !== 'string') return null
+        const repaired = { ...shot }
+        for (const field of ['imageId', 'thumbnail', 'dataUrl']) {
+          if (repaired[field] !== undefined && typeof repaired[field] !== 'string') {
+            delete repaired[field]
+            repair(`${path}.${field}`, 'Malformed screenshot image was removed')
+          }
+        }
+        return repaired
+      })
+    }
+
+    if (project.chatHistory !== undefined) {
+      project.chatHistory = this.validateList(project.chatHistory, 'chatHistory', issues, entry =>
+        typeof entry.id === 'string' && typeof entry.content === 'string' ? entry : null
+      )
+    }
+
+    return { project: project as ProjectSchema, issues }
+  }
+
+  private static validateList(
+    value: unknown,
+    path: string,
+    issues: ProjectValidationIssue[],
+    validateItem: (item: Record<string, any>, path: string) => Record<string, any> | null
+  ): any[] {
+    if (!Array.isArray(value)) {
+      if (value !== undefined) {
+        issues.push({ path, message: 'Expected a list, reset to empty', repaired: true })
+      }
+      return []
+    }
+
+    const valid: any[] = []
+    value.forEach((item, index) => {
+      const itemPath = `${path}[${index}]`
+      const result = isObject(item) ? validateItem(item, itemPath) : null
+      if (result) {
+        valid.push(result)
+      } else {
+        issues.push({ path: itemPath, message: 'Malformed entry was removed', repaired: true })
+      }
+    })
+    return valid
+  }
+
+  static formatIssues(issues: ProjectValidationIssue[]): string {
+    return issues.map(issue => `${issue.path || 'project'}: ${issue.message}`).join('\n')
+  }
+}
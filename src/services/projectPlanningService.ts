@@ -148,6 +148,12 @@ Please provide a detailed JSON response following this exact structure:
       "unit": 4,
       "scale": [1, 2, 3, 4, 6, 8, 12, 16, 24, 32, 48, 64]
     },
+    "breakpoints": {
+      "sm": 640,
+      "md": 768,
+      "lg": 1024,
+      "xl": 1280
+    },
     "components": {
       "baseComponents": ["Button", "Input", "Card", "Modal"],
       "patterns": ["Navigation", "Forms", "DataDisplay"],
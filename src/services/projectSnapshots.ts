@@ -0,0 +1,273 @@
+import { projectStorage } from './projectStorage'
+import type { ProjectSchema, ComponentSchema, ComponentInstance, ProjectTask } from '../types/schema'
+
+export interface ProjectSnapshot {
+  id: string
+  projectId: string
+  name: string
+  source: 'manual' | 'auto'
+  createdAt: string
+  project: ProjectSchema // Chat history is not part of a snapshot
+}
+
+export type SnapshotSection = 'components' | 'scenes' | 'assets' | 'plan'
+
+export interface SnapshotRestoreOptions {
+  sections?: SnapshotSection[] // Whole sections to take from the snapshot
+  componentIds?: string[] // Individual components to take from the snapshot
+}
+
+interface ItemRef {
+  id: string
+  name: string
+}
+
+export interface ComponentChange extends ItemRef {
+  changes: Array<'name' | 'code' | 'props' | 'filePath' | 'source'>
+}
+
+export interface InstanceMove {
+  instanceId: string
+  label: string
+  from: { x: number; y: number; z?: number }
+  to: { x: number; y: number; z?: number }
+}
+
+export interface SceneChange extends ItemRef {
+  instancesAdded: ItemRef[]
+  instancesRemoved: ItemRef[]
+  instancesMoved: InstanceMove[]
+  instancesUpdated: ItemRef[] // Props, size, constraints or metadata changed
+  layoutChanged: boolean
+}
+
+export interface TaskStatusChange {
+  taskId: string
+  title: string
+  from: ProjectTask['status'] | null // null when the task did not exist
+  to: ProjectTask['status'] | null
+}
+
+// Describes what changed going from one project state (a snapshot) to another (usually the current state)
+export interface ProjectDiff {
+  components: { added: ItemRef[]; removed: ItemRef[]; changed: ComponentChange[] }
+  scenes: { added: ItemRef[]; removed: ItemRef[]; changed: SceneChange[] }
+  assets: { added: ItemRef[]; removed: ItemRef[] }
+  tasks: TaskStatusChange[]
+  hasChanges: boolean
+}
+
+// Automatic snapshots kept per project; each holds a full copy of the assets and screenshots
+const MAX_AUTO_SNAPSHOTS = 5
+
+const json = (value: unknown) => JSON.stringify(value ?? null)
+
+function indexById<T extends { id: string }>(items: T[] = []): Map<string, T> {
+  return new Map(items.map(item => [item.id, item]))
+}
+
+function instanceLabel(instance: ComponentInstance, components: Map<string, ComponentSchema>): string {
+  return instance.metadata?.label || components.get(instance.componentId)?.name || instance.id
+}
+
+export class ProjectSnapshotService {
+  static async createSnapshot(
+    project: ProjectSchema,
+    name: string,
+    source: ProjectSnapshot['source'] = 'manual'
+  ): Promise<ProjectSnapshot> {
+    const { chatHistory: _chatHistory, ...content } = project
+    const snapshot: ProjectSnapshot = {
+      id: `snapshot-${Date.now()}`,
+      projectId: project.id,
+      name: name.trim() || new Date().toLocaleString(),
+      source,
+      createdAt: new Date().toISOString(),
+      project: content
+    }
+
+    await projectStorage.saveSnapshot(snapshot)
+    if (source === 'auto') {
+      await ProjectSnapshotService.pruneAutoSnapshots(project.id)
+    }
+    return snapshot
+  }
+
+  // Drop the oldest automatic snapshots beyond the limit; manual ones are kept until deleted
+  static async pruneAutoSnapshots(projectId: string): Promise<void> {
+    const snapshots = await projectStorage.listSnapshots(projectId) // Newest first
+    const expired = snapshots.filter(snapshot => snapshot.source === 'auto').slice(MAX_AUTO_SNAPSHOTS)
+    await Promise.all(expired.map(snapshot => projectStorage.deleteSnapshot(projectId, snapshot.id)))
+  }
+
+  static listSnapshots(projectId: string): Promise<ProjectSnapshot[]> {
+    return projectStorage.listSnapshots(projectId)
+  }
+
+  static deleteSnapshot(projectId: string, snapshotId: string): Promise<void> {
+    return projectStorage.deleteSnapshot(projectId, snapshotId)
+  }
+
+  static diffProjects(from: ProjectSchema, to: ProjectSchema): ProjectDiff {
+    const fromComponents = indexById(from.components)
+    const toComponents = indexById(to.components)
+
+    const components: ProjectDiff['components'] = { added: [], removed: [], changed: [] }
+    toComponents.forEach((component, id) => {
+      const previous = fromComponents.get(id)
+      if (!previous) {
+        components.added.push({ id, name: component.name })
+        return
+      }
+      const changes: ComponentChange['changes'] = []
+      if (previous.name !== component.name) changes.push('name')
+      if (previous.generatedCode !== component.generatedCode) changes.push('code')
+      if (json(previous.props) !== json(component.props)) changes.push('props')
+      if (previous.filePath !== component.filePath) changes.push('filePath')
+      if (previous.source !== component.source) changes.push('source')
+      if (changes.length > 0) {
+        components.changed.push({ id, name: component.name, changes })
+      }
+    })
+    fromComponents.forEach((component, id) => {
+      if (!toComponents.has(id)) components.removed.push({ id, name: component.name })
+    })
+
+    const allComponents = new Map([...fromComponents, ...toComponents])
+    const fromScenes = indexById(from.scenes)
+    const toScenes = indexById(to.scenes)
+
+    const scenes: ProjectDiff['scenes'] = { added: [], removed: [], changed: [] }
+    toScenes.forEach((scene, id) => {
+      const previous = fromScenes.get(id)
+      if (!previous) {
+        scenes.added.push({ id, name: scene.name })
+        return
+      }
+
+      const fromInstances = indexById(previous.instances)
+      const toInstances = indexById(scene.instances)
+      const change: SceneChange = {
+        id,
+        name: scene.name,
+        instancesAdded: [],
+        instancesRemoved: [],
+        instancesMoved: [],
+        instancesUpdated: [],
+        layoutChanged: json(previous.layout) !== json(scene.layout) || json(previous.viewport) !== json(scene.viewport)
+      }
+
+      toInstances.forEach((instance, instanceId) => {
+        const label = instanceLabel(instance, allComponents)
+        const before = fromInstances.get(instanceId)
+        if (!before) {
+          change.instancesAdded.push({ id: instanceId, name: label })
+          return
+        }
+        if (json(before.position) !== json(instance.position)) {
+          change.instancesMoved.push({ instanceId, label, from: before.position, to: instance.position })
+        }
+        const { position: _beforePosition, ...beforeRest } = before
+        const { position: _afterPosition, ...afterRest } = instance
+        if (json(beforeRest) !== json(afterRest)) {
+          change.instancesUpdated.push({ id: instanceId, name: label })
+        }
+      })
+      fromInstances.forEach((instance, instanceId) => {
+        if (!toInstances.has(instanceId)) {
+          change.instancesRemoved.push({ id: instanceId, name: instanceLabel(instance, allComponents) })
+        }
+      })
+
+      if (
+        change.layoutChanged ||
+        change.instancesAdded.length ||
+        change.instancesRemoved.length ||
+        change.instancesMoved.length ||
+        change.instancesUpdated.length
+      ) {
+        scenes.changed.push(change)
+      }
+    })
+    fromScenes.forEach((scene, id) => {
+      if (!toScenes.has(id)) scenes.removed.push({ id, name: scene.name })
+    })
+
+    const fromAssets = indexById(from.assets)
+    const toAssets = indexById(to.assets)
+    const assets: ProjectDiff['assets'] = {
+      added: Array.from(toAssets.values()).filter(a => !fromAssets.has(a.id)).map(a => ({ id: a.id, name: a.name })),
+      removed: Array.from(fromAssets.values()).filter(a => !toAssets.has(a.id)).map(a => ({ id: a.id, name: a.name }))
+    }
+
+    const fromTasks = indexById(from.plan?.phases.flatMap(phase => phase.tasks))
+    const toTasks = indexById(to.plan?.phases.flatMap(phase => phase.tasks))
+    const tasks: TaskStatusChange[] = []
+    toTasks.forEach((task, taskId) => {
+      const previous = fromTasks.get(taskId)
+      if (previous?.status !== task.status) {
+        tasks.push({ taskId, title: task.title, from: previous?.status ?? null, to: task.status })
+      }
+    })
+    fromTasks.forEach((task, taskId) => {
+      if (!toTasks.has(taskId)) {
+        tasks.push({ taskId, title: task.title, from: task.status, to: null })
+      }
+    })
+
+    const hasChanges =
+      components.added.length + components.removed.length + components.changed.length +
+      scenes.added.length + scenes.removed.length + scenes.changed.length +
+      assets.added.length + assets.removed.length + tasks.length > 0
+
+    return { components, scenes, assets, tasks, hasChanges }
+  }
+
+  // Build the project that results from restoring all or part of a snapshot onto the current state
+  static restoreSnapshot(
+    current: ProjectSchema,
+    snapshot: ProjectSnapshot,
+    options: SnapshotRestoreOptions = { sections: ['components', 'scenes', 'assets', 'plan'] }
+  ): ProjectSchema {
+    const saved = snapshot.project
+    const sections = new Set(options.sections || [])
+    let restored: ProjectSchema = { ...current }
+
+    if (sections.has('components')) {
+      restored.components = saved.components
+    } else if (options.componentIds?.length) {
+      const savedComponents = indexById(saved.components)
+      const selected = new Set(options.componentIds)
+      // Components that did not exist in the snapshot are removed when selected
+      restored.components = current.components
+        .filter(c => !selected.has(c.id) || savedComponents.has(c.id))
+        .map(c => (selected.has(c.id) ? savedComponents.get(c.id)! : c))
+      saved.components
+        .filter(c => selected.has(c.id) && !current.components.some(existing => existing.id === c.id))
+        .forEach(c => restored.components.push(c))
+    }
+
+    if (sections.has('scenes')) {
+      restored.scenes = saved.scenes
+      restored.activeSceneId = saved.activeSceneId
+    }
+
+    if (sections.has('assets')) {
+      restored.assets = saved.assets
+    }
+
+    if (sections.has('plan')) {
+      restored = { ...restored, plan: saved.plan }
+    }
+
+    // Instances must not point at components that are no longer part of the project
+    const componentIds = new Set(restored.components.map(c => c.id))
+    restored.scenes = restored.scenes.map(scene =>
+      scene.instances.every(instance => componentIds.has(instance.componentId))
+        ? scene
+        : { ...scene, instances: scene.instances.filter(instance => componentIds.has(instance.componentId)) }
+    )
+
+    return { ...restored, updatedAt: new Date().toISOString() }
+  }
+}
@@ -0,0 +1,63 @@
+import 'fake-indexeddb/auto'
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+import { ProjectStorage } from './projectStorage'
+import type { ImageAsset, ProjectSchema } from '../types/schema'
+
+function memoryStorage(): Storage {
+  const items = new Map<string, string>()
+  return {
+    get length() { return items.size },
+    key: index => [...items.keys()][index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value) },
+    removeItem: key => { items.delete(key) },
+    clear: () => items.clear()
+  }
+}
+
+function asset(id: string): ImageAsset {
+  return { id, name: id, format: 'png', createdAt: '2025-01-01T00:00:00.000Z' } as ImageAsset
+}
+
+// Each test saves its own project; the database is shared
+function project(id: string, assets: ImageAsset[]): ProjectSchema {
+  return {
+    id,
+    name: 'Project',
+    description: '',
+    framework: 'react',
+    components: [],
+    dependencies: {},
+    assets,
+    scenes: [],
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z'
+  } as ProjectSchema
+}
+
+describe('ProjectStorage', () => {
+  beforeAll(() => {
+    vi.stubGlobal('localStorage', memoryStorage())
+  })
+
+  it('keeps unchanged records and removes dropped ones', async () => {
+    const storage = new ProjectStorage()
+    const [a, b] = [asset('a'), asset('b')]
+    await storage.saveProject(project('kept', [a, b]))
+    await storage.saveProject(project('kept', [a]))
+
+    const loaded = await storage.loadProject('kept')
+    expect(loaded?.assets.map(item => item.id)).toEqual(['a'])
+  })
+
+  it('writes a record again when undo brings back the same object after a delete', async () => {
+    const storage = new ProjectStorage()
+    const [a, b] = [asset('a'), asset('b')]
+    await storage.saveProject(project('undone', [a, b]))
+    await storage.saveProject(project('undone', [a]))
+    await storage.saveProject(project('undone', [a, b]))
+
+    const loaded = await new ProjectStorage().loadProject('undone')
+    expect(loaded?.assets.map(item => item.id)).toEqual(['a', 'b'])
+  })
+})
@@ -0,0 +1,457 @@
+import type { ProjectSchema, ProjectMetadata, ImageAsset } from '../types/schema'
+import type { ProjectSnapshot } from './projectSnapshots'
+
+const DB_NAME = 'hedgekit'
+const DB_VERSION = 3
+
+const PROJECTS_STORE = 'projects'
+const METADATA_STORE = 'metadata'
+const ASSETS_STORE = 'assets'
+const SCREENSHOTS_STORE = 'screenshots'
+const CHAT_HISTORY_STORE = 'chatHistory'
+const META_STORE = 'meta'
+const SNAPSHOTS_STORE = 'snapshots'
+// Full screenshot images, keyed like the screenshot records they belong to
+const SCREENSHOT_IMAGES_STORE = 'screenshotImages'
+
+// Collections that are split out of the project record so a large project
+// never has to be serialized as a single value
+const RECORD_STORES = [ASSETS_STORE, SCREENSHOTS_STORE, CHAT_HISTORY_STORE] as const
+type RecordStoreName = typeof RECORD_STORES[number]
+
+// Pinned thumbnails copied into a project's metadata for the project list
+const METADATA_THUMBNAILS = 4
+
+const CURRENT_PROJECT_ID_KEY = 'currentProjectId'
+const MIGRATED_KEY = 'migratedFromLocalStorage'
+
+// Legacy localStorage keys used before the IndexedDB store existed
+const LEGACY_PROJECTS_KEY = 'hedgekit-projects'
+const LEGACY_CURRENT_PROJECT_KEY = 'hedgekit-current-project'
+const LEGACY_PROJECT_KEY_PREFIX = 'hedgekit-project-'
+
+type ProjectScreenshot = NonNullable<ProjectSchema['screenshots']>[number]
+type ProjectChatEntry = NonNullable<ProjectSchema['chatHistory']>[number]
+
+type ProjectCore = Omit<ProjectSchema, 'assets' | 'screenshots' | 'chatHistory'>
+
+interface ProjectRecord<T> {
+  projectId: string
+  id: string
+  order: number
+  data: T
+}
+
+interface ScreenshotImageRecord {
+  projectId: string
+  id: string
+  blob: Blob
+}
+
+async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  return (await fetch(dataUrl)).blob()
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'))
+  })
+}
+
+export function toProjectMetadata(project: ProjectSchema, createdAt?: string): ProjectMetadata {
+  return {
+    id: project.id,
+    name: project.name,
+    description: project.description,
+    framework: project.framework,
+    componentCount: project.components.length,
+    assetCount: project.assets?.length || 0,
+    thumbnails: project.components
+      .flatMap(component => (component.thumbnail ? [component.thumbnail.dataUrl] : []))
+      .slice(0, METADATA_THUMBNAILS),
+    createdAt: createdAt || project.createdAt,
+    updatedAt: project.updatedAt
+  }
+}
+
+export class ProjectStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null
+  // Tracks which record objects are already on disk (and at which position) so
+  // unchanged assets are not rewritten on every project update
+  private persisted = new WeakMap<object, string>()
+  // Screenshots with an inline image and their records without it, so they are converted once
+  private outlined = new WeakMap<ProjectScreenshot, ProjectScreenshot>()
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+            db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' })
+          }
+          if (!db.objectStoreNames.contains(METADATA_STORE)) {
+            db.createObjectStore(METADATA_STORE, { keyPath: 'id' })
+          }
+          RECORD_STORES.forEach(storeName => {
+            if (!db.objectStoreNames.contains(storeName)) {
+              const store = db.createObjectStore(storeName, { keyPath: ['projectId', 'id'] })
+              store.createIndex('projectId', 'projectId', { unique: false })
+            }
+          })
+          if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE)
+          }
+          // v2: named project snapshots
+          if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+            const store = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: ['projectId', 'id'] })
+            store.createIndex('projectId', 'projectId', { unique: false })
+          }
+          // v3: screenshot images outside the project
+          if (!db.objectStoreNames.contains(SCREENSHOT_IMAGES_STORE)) {
+            const store = db.createObjectStore(SCREENSHOT_IMAGES_STORE, { keyPath: ['projectId', 'id'] })
+            store.createIndex('projectId', 'projectId', { unique: false })
+          }
+        }
+
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+        request.onblocked = () => console.warn('Project database upgrade blocked by another open tab')
+      }).then(async db => {
+        await this.migrateFromLocalStorage(db)
+        return db
+      })
+
+      // Allow a later call to retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null
+      })
+    }
+    return this.dbPromise
+  }
+
+  async listProjects(): Promise<ProjectMetadata[]> {
+    const db = await this.open()
+    const transaction = db.transaction(METADATA_STORE, 'readonly')
+    const metadata = await requestToPromise<ProjectMetadata[]>(transaction.objectStore(METADATA_STORE).getAll())
+    return metadata.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+  }
+
+  async loadProject(projectId: string): Promise<ProjectSchema | null> {
+    const db = await this.open()
+    const transaction = db.transaction([PROJECTS_STORE, ...RECORD_STORES], 'readonly')
+
+    const [core, assets, screenshots, chatHistory] = await Promise.all([
+      requestToPromise<ProjectCore | undefined>(transaction.objectStore(PROJECTS_STORE).get(projectId)),
+      this.readRecords<ImageAsset>(transaction, ASSETS_STORE, projectId),
+      this.readRecords<ProjectScreenshot>(transaction, SCREENSHOTS_STORE, projectId),
+      this.readRecords<ProjectChatEntry>(transaction, CHAT_HISTORY_STORE, projectId)
+    ])
+
+    if (!core) return null
+
+    return {
+      ...core,
+      assets,
+      ...(screenshots.length > 0 ? { screenshots } : {}),
+      ...(chatHistory.length > 0 ? { chatHistory } : {})
+    }
+  }
+
+  async saveProject(project: ProjectSchema): Promise<void> {
+    const { assets, screenshots, chatHistory, ...core } = project
+    const { records: screenshotRecords, images: screenshotImages } = await this.outlineScreenshotImages(screenshots || [])
+
+    const db = await this.open()
+    const transaction = db.transaction([PROJECTS_STORE, METADATA_STORE, ...RECORD_STORES, SCREENSHOT_IMAGES_STORE], 'readwrite')
+    const done = transactionDone(transaction)
+
+    transaction.objectStore(PROJECTS_STORE).put(core)
+
+    const metadataStore = transaction.objectStore(METADATA_STORE)
+    const existing = await requestToPromise<ProjectMetadata | undefined>(metadataStore.get(project.id))
+    metadataStore.put(toProjectMetadata(project, existing?.createdAt))
+
+    try {
+      const [, removedScreenshots] = await Promise.all([
+        this.writeRecords(transaction, ASSETS_STORE, project.id, assets || []),
+        this.writeRecords(transaction, SCREENSHOTS_STORE, project.id, screenshotRecords),
+        this.writeRecords(transaction, CHAT_HISTORY_STORE, project.id, chatHistory || [])
+      ])
+      const images = transaction.objectStore(SCREENSHOT_IMAGES_STORE)
+      screenshotImages.forEach((blob, id) => {
+        const record: ScreenshotImageRecord = { projectId: project.id, id, blob }
+        images.put(record)
+      })
+      // A dropped screenshot takes its image with it
+      removedScreenshots.forEach(id => images.delete([project.id, id]))
+      await done
+    } catch (error) {
+      // Records queued in a failed transaction never reached disk
+      this.persisted = new WeakMap()
+      this.outlined = new WeakMap()
+      throw error
+    }
+  }
+
+  async deleteProject(projectId: string): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction([PROJECTS_STORE, METADATA_STORE, ...RECORD_STORES, SNAPSHOTS_STORE, SCREENSHOT_IMAGES_STORE, META_STORE], 'readwrite')
+    const done = transactionDone(transaction)
+
+    transaction.objectStore(PROJECTS_STORE).delete(projectId)
+    transaction.objectStore(METADATA_STORE).delete(projectId)
+    const projectScopedStores = [...RECORD_STORES, SNAPSHOTS_STORE, SCREENSHOT_IMAGES_STORE]
+    projectScopedStores.forEach(storeName => {
+      transaction.objectStore(storeName).delete(IDBKeyRange.bound([projectId], [projectId, []]))
+    })
+
+    const metaStore = transaction.objectStore(META_STORE)
+    const currentId = await requestToPromise(metaStore.get(CURRENT_PROJECT_ID_KEY))
+    if (currentId === projectId) {
+      metaStore.delete(CURRENT_PROJECT_ID_KEY)
+    }
+
+    await done
+  }
+
+  async saveScreenshotImage(projectId: string, screenshotId: string, blob: Blob): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(SCREENSHOT_IMAGES_STORE, 'readwrite')
+    const record: ScreenshotImageRecord = { projectId, id: screenshotId, blob }
+    transaction.objectStore(SCREENSHOT_IMAGES_STORE).put(record)
+    await transactionDone(transaction)
+  }
+
+  async loadScreenshotImage(projectId: string, screenshotId: string): Promise<Blob | null> {
+    const db = await this.open()
+    const transaction = db.transaction(SCREENSHOT_IMAGES_STORE, 'readonly')
+    const record = await requestToPromise<ScreenshotImageRecord | undefined>(
+      transaction.objectStore(SCREENSHOT_IMAGES_STORE).get([projectId, screenshotId])
+    )
+    return record?.blob || null
+  }
+
+  async saveSnapshot(snapshot: ProjectSnapshot): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite')
+    transaction.objectStore(SNAPSHOTS_STORE).put(snapshot)
+    await transactionDone(transaction)
+  }
+
+  async listSnapshots(projectId: string): Promise<ProjectSnapshot[]> {
+    const db = await this.open()
+    const transaction = db.transaction(SNAPSHOTS_STORE, 'readonly')
+    const index = transaction.objectStore(SNAPSHOTS_STORE).index('projectId')
+    const snapshots = await requestToPromise<ProjectSnapshot[]>(index.getAll(projectId))
+    return snapshots.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+  }
+
+  async deleteSnapshot(projectId: string, snapshotId: string): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite')
+    transaction.objectStore(SNAPSHOTS_STORE).delete([projectId, snapshotId])
+    await transactionDone(transaction)
+  }
+
+  async getCurrentProjectId(): Promise<string | null> {
+    const db = await this.open()
+    const transaction = db.transaction(META_STORE, 'readonly')
+    const value = await requestToPromise(transaction.objectStore(META_STORE).get(CURRENT_PROJECT_ID_KEY))
+    return typeof value === 'string' ? value : null
+  }
+
+  async setCurrentProjectId(projectId: string | null): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(META_STORE, 'readwrite')
+    const store = transaction.objectStore(META_STORE)
+    if (projectId) {
+      store.put(projectId, CURRENT_PROJECT_ID_KEY)
+    } else {
+      store.delete(CURRENT_PROJECT_ID_KEY)
+    }
+    await transactionDone(transaction)
+  }
+
+  private async readRecords<T extends object>(
+    transaction: IDBTransaction,
+    storeName: RecordStoreName,
+    projectId: string
+  ): Promise<T[]> {
+    const index = transaction.objectStore(storeName).index('projectId')
+    const records = await requestToPromise<ProjectRecord<T>[]>(index.getAll(projectId))
+
+    return records
+      .sort((a, b) => a.order - b.order)
+      .map(record => {
+        this.persisted.set(record.data, `${projectId}:${record.order}`)
+        return record.data
+      })
+  }
+
+  // Returns the ids of the records that were removed
+  private async writeRecords<T extends { id: string }>(
+    transaction: IDBTransaction,
+    storeName: RecordStoreName,
+    projectId: string,
+    items: T[]
+  ): Promise<string[]> {
+    const store = transaction.objectStore(storeName)
+    const storedKeys = await requestToPromise(store.index('projectId').getAllKeys(projectId))
+    const currentIds = new Set(items.map(item => item.id))
+    const storedIds = new Set<string>()
+    const removed: string[] = []
+
+    storedKeys.forEach(key => {
+      const [, id] = key as [string, string]
+      storedIds.add(id)
+      if (!currentIds.has(id)) {
+        store.delete(key)
+        removed.push(id)
+      }
+    })
+
+    items.forEach((item, order) => {
+      const marker = `${projectId}:${order}`
+      // An item whose row is gone is written again even if it was saved before, e.g. when undo
+      // brings back a deleted asset
+      if (storedIds.has(item.id) && this.persisted.get(item) === marker) return
+
+      const record: ProjectRecord<T> = { projectId, id: item.id, order, data: item }
+      store.put(record)
+      this.persisted.set(item, marker)
+    })
+    return removed
+  }
+
+  // Screenshots whose image is still inline, from older projects and bundles, are stored without it;
+  // the bytes go to the image store under their imageId. Converted before the transaction opens,
+  // since it would commit while waiting on anything else.
+  private async outlineScreenshotImages(screenshots: ProjectScreenshot[]): Promise<{ records: ProjectScreenshot[]; images: Map<string, Blob> }> {
+    const images = new Map<string, Blob>()
+    const records = await Promise.all(screenshots.map(async screenshot => {
+      if (!screenshot.imageId || !screenshot.dataUrl) return screenshot
+      const outlined = this.outlined.get(screenshot)
+      if (outlined) return outlined
+      try {
+        images.set(screenshot.imageId, await dataUrlToBlob(screenshot.dataUrl))
+      } catch (error) {
+        console.warn(`Screenshot ${screenshot.id} has an unreadable image:`, error)
+        return screenshot
+      }
+      const { dataUrl: _dataUrl, ...record } = screenshot
+      this.outlined.set(screenshot, record)
+      return record
+    }))
+    return { records, images }
+  }
+
+  // One-time import of the projects that were persisted in localStorage. Each key is read on its
+  // own, so a corrupt one only holds back itself: it stays in localStorage and the import is
+  // retried on the next start.
+  private async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    const metaTransaction = db.transaction(META_STORE, 'readonly')
+    const migrated = await requestToPromise(metaTransaction.objectStore(META_STORE).get(MIGRATED_KEY))
+    if (migrated) return
+
+    const failedKeys: string[] = []
+    const readLegacy = <T>(key: string): T | null => {
+      try {
+        const saved = localStorage.getItem(key)
+        return saved ? (JSON.parse(saved) as T) : null
+      } catch (error) {
+        console.warn(`Failed to read legacy project data from localStorage key "${key}":`, error)
+        failedKeys.push(key)
+        return null
+      }
+    }
+
+    const legacyMetadata = readLegacy<ProjectMetadata[]>(LEGACY_PROJECTS_KEY) || []
+    // Every per-project key, including those of projects missing from a corrupt list
+    const projectKeys: string[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (key?.startsWith(LEGACY_PROJECT_KEY_PREFIX)) projectKeys.push(key)
+    }
+
+    // The current project key is written on every change, so it is fresher
+    // than the per-project copy and is also the only copy of new projects
+    const current = readLegacy<ProjectSchema>(LEGACY_CURRENT_PROJECT_KEY)
+    const currentProjectId = current?.id || null
+    const legacyProjects: ProjectSchema[] = current ? [current] : []
+    projectKeys.forEach(key => {
+      if (key === `${LEGACY_PROJECT_KEY_PREFIX}${currentProjectId}`) return
+      const project = readLegacy<ProjectSchema>(key)
+      if (project) legacyProjects.push(project)
+    })
+
+    const transaction = db.transaction([PROJECTS_STORE, METADATA_STORE, ...RECORD_STORES, META_STORE], 'readwrite')
+    const done = transactionDone(transaction)
+
+    const migratedIds = new Set<string>()
+    for (const project of legacyProjects) {
+      const { assets, screenshots, chatHistory, ...core } = project
+      transaction.objectStore(PROJECTS_STORE).put({ ...core, scenes: core.scenes || [] })
+
+      const metadata = legacyMetadata.find(m => m.id === project.id)
+      transaction.objectStore(METADATA_STORE).put(toProjectMetadata(project, metadata?.createdAt))
+      migratedIds.add(project.id)
+
+      // Assets saved after a quota error carry a placeholder instead of base64 data
+      const cleanedAssets = (assets || []).map(asset =>
+        asset.base64?.startsWith('[Base64 data removed') ? { ...asset, base64: undefined } : asset
+      )
+
+      await Promise.all([
+        this.writeRecords(transaction, ASSETS_STORE, project.id, cleanedAssets),
+        this.writeRecords(transaction, SCREENSHOTS_STORE, project.id, screenshots || []),
+        this.writeRecords(transaction, CHAT_HISTORY_STORE, project.id, chatHistory || [])
+      ])
+    }
+
+    // Keep metadata for projects whose full data was never saved
+    legacyMetadata
+      .filter(metadata => !migratedIds.has(metadata.id))
+      .forEach(metadata => transaction.objectStore(METADATA_STORE).put(metadata))
+
+    const metaStore = transaction.objectStore(META_STORE)
+    if (currentProjectId) {
+      metaStore.put(currentProjectId, CURRENT_PROJECT_ID_KEY)
+    }
+    if (failedKeys.length === 0) {
+      metaStore.put(new Date().toISOString(), MIGRATED_KEY)
+    }
+
+    await done
+
+    // Free the localStorage quota only for keys whose data is now in IndexedDB; the per-project
+    // copy of the current project is superseded by the current project key
+    const writtenKeys = [
+      LEGACY_PROJECTS_KEY,
+      LEGACY_CURRENT_PROJECT_KEY,
+      ...projectKeys.filter(key => migratedIds.has(key.slice(LEGACY_PROJECT_KEY_PREFIX.length)))
+    ].filter(key => !failedKeys.includes(key))
+    try {
+      writtenKeys.forEach(key => localStorage.removeItem(key))
+    } catch (error) {
+      console.warn('Failed to clear legacy project storage:', error)
+    }
+    if (failedKeys.length > 0) {
+      console.warn(`Kept ${failedKeys.length} unreadable legacy project key(s) in localStorage:`, failedKeys)
+    }
+  }
+}
+
+// Global instance shared by every project manager hook
+export const projectStorage = new ProjectStorage()
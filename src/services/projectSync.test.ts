@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { ProjectSyncService } from './projectSync'
+import type { ComponentSchema, ProjectSchema } from '../types/schema'
+
+function component(id: string, code = `export default function ${id}() {}`): ComponentSchema {
+  return { id, name: id, generatedCode: code } as ComponentSchema
+}
+
+function project(components: ComponentSchema[], changes: Partial<ProjectSchema> = {}): ProjectSchema {
+  return {
+    id: 'project-1',
+    name: 'Project',
+    description: '',
+    framework: 'react',
+    components,
+    dependencies: {},
+    assets: [],
+    scenes: [],
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...changes
+  } as ProjectSchema
+}
+
+const ids = (result: { project: ProjectSchema }) => result.project.components.map(c => c.id)
+
+describe('ProjectSyncService.mergeProjects', () => {
+  it('takes changes the other tab made to items this tab left alone', () => {
+    const base = project([component('A'), component('B')])
+    const remote = project([component('A', 'changed'), component('B')])
+
+    const result = ProjectSyncService.mergeProjects(base, base, remote)
+    expect(result.project.components[0].generatedCode).toBe('changed')
+    expect(result.keptLocalChanges).toBe(false)
+  })
+
+  it('keeps changes each tab made to different items', () => {
+    const base = project([component('A'), component('B')])
+    const local = project([component('A', 'ours'), component('B')])
+    const remote = project([component('A'), component('B', 'theirs')])
+
+    const result = ProjectSyncService.mergeProjects(base, local, remote)
+    expect(result.project.components.map(c => c.generatedCode)).toEqual(['ours', 'theirs'])
+    expect(result.conflicts.components).toEqual([])
+    expect(result.keptLocalChanges).toBe(true)
+  })
+
+  it('keeps items added on either side, in the incoming order then ours', () => {
+    const base = project([component('A')])
+    const local = project([component('A'), component('L')])
+    const remote = project([component('R'), component('A')])
+
+    expect(ids(ProjectSyncService.mergeProjects(base, local, remote))).toEqual(['R', 'A', 'L'])
+  })
+
+  it('applies a deletion made on one side only', () => {
+    const base = project([component('A'), component('B')])
+    const remote = project([component('A')])
+
+    expect(ids(ProjectSyncService.mergeProjects(base, base, remote))).toEqual(['A'])
+    expect(ids(ProjectSyncService.mergeProjects(base, remote, base))).toEqual(['A'])
+  })
+
+  it('keeps our version of an item both tabs changed and reports it', () => {
+    const base = project([component('A')])
+    const local = project([component('A', 'ours')])
+    const remote = project([component('A', 'theirs')])
+
+    const result = ProjectSyncService.mergeProjects(base, local, remote)
+    expect(result.project.components[0].generatedCode).toBe('ours')
+    expect(result.conflicts.components).toEqual([{ id: 'A', name: 'A' }])
+  })
+
+  it('keeps our deletion of an item the other tab changed', () => {
+    const base = project([component('A'), component('B')])
+    const local = project([component('B')])
+    const remote = project([component('A', 'theirs'), component('B')])
+
+    const result = ProjectSyncService.mergeProjects(base, local, remote)
+    expect(ids(result)).toEqual(['B'])
+    expect(result.conflicts.components).toEqual([{ id: 'A', name: 'A' }])
+  })
+
+  it('merges other fields one by one, preferring ours, with the newest revision', () => {
+    const base = project([], { name: 'Base', description: 'Base' })
+    const local = project([], { name: 'Ours', description: 'Base', updatedAt: '2025-01-02T00:00:00.000Z' })
+    const remote = project([], { name: 'Theirs', description: 'Theirs', updatedAt: '2025-01-03T00:00:00.000Z' })
+
+    const result = ProjectSyncService.mergeProjects(base, local, remote)
+    expect(result.project.name).toBe('Ours')
+    expect(result.project.description).toBe('Theirs')
+    expect(result.project.updatedAt).toBe('2025-01-03T00:00:00.000Z')
+  })
+})
@@ -0,0 +1,149 @@
+import type { ProjectSchema } from '../types/schema'
+
+const CHANNEL_NAME = 'hedgekit-projects'
+
+export type ProjectSyncMessage =
+  | { type: 'project-updated'; tabId: string; projectId: string; updatedAt: string } // Saved; read it back from storage
+  | { type: 'project-deleted'; tabId: string; projectId: string }
+
+export type ProjectSyncListener = (message: ProjectSyncMessage) => void
+
+export interface SyncConflict {
+  components: Array<{ id: string; name: string }>
+  scenes: Array<{ id: string; name: string }>
+}
+
+export interface ProjectMergeResult {
+  project: ProjectSchema
+  conflicts: SyncConflict
+  keptLocalChanges: boolean // True when the merged state differs from the incoming one
+}
+
+type Collection = 'components' | 'scenes' | 'assets'
+const MERGED_COLLECTIONS: Collection[] = ['components', 'scenes', 'assets']
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b)
+
+// Three-way merge of id-keyed lists: a side wins when only it changed an item since the base
+function mergeCollection<T extends { id: string; name?: string }>(
+  base: T[] = [],
+  local: T[] = [],
+  remote: T[] = []
+): { items: T[]; conflicts: Array<{ id: string; name: string }> } {
+  const baseById = new Map(base.map(item => [item.id, item]))
+  const localById = new Map(local.map(item => [item.id, item]))
+  const remoteById = new Map(remote.map(item => [item.id, item]))
+  const conflicts: Array<{ id: string; name: string }> = []
+
+  // Keep the incoming order, then append anything only this tab has
+  const ids = [...remote.map(item => item.id), ...local.map(item => item.id).filter(id => !remoteById.has(id))]
+  const items: T[] = []
+
+  ids.forEach(id => {
+    const b = baseById.get(id)
+    const l = localById.get(id)
+    const r = remoteById.get(id)
+    const localChanged = !same(b, l)
+    const remoteChanged = !same(b, r)
+
+    let merged: T | undefined
+    if (!localChanged) {
+      merged = r
+    } else if (!remoteChanged || same(l, r)) {
+      merged = l
+    } else {
+      // Both tabs changed the same item: keep ours, even when ours deleted it, and report it
+      merged = l
+      const named = l ?? r ?? b
+      conflicts.push({ id, name: named?.name || id })
+    }
+
+    if (merged) items.push(merged)
+  })
+
+  return { items, conflicts }
+}
+
+export class ProjectSyncService {
+  readonly tabId = `tab-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  private channel: BroadcastChannel | null = null
+  private listeners: Set<ProjectSyncListener> = new Set()
+
+  constructor() {
+    if (typeof BroadcastChannel === 'undefined') return
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME)
+    this.channel.onmessage = (event: MessageEvent<ProjectSyncMessage>) => {
+      const message = event.data
+      if (!message || message.tabId === this.tabId) return
+      this.listeners.forEach(listener => {
+        try {
+          listener(message)
+        } catch (error) {
+          console.error('Error in project sync listener:', error)
+        }
+      })
+    }
+  }
+
+  // Only the revision goes over the channel; other tabs load the saved project themselves
+  publishProject(project: ProjectSchema): void {
+    this.post({ type: 'project-updated', tabId: this.tabId, projectId: project.id, updatedAt: project.updatedAt })
+  }
+
+  publishDeletion(projectId: string): void {
+    this.post({ type: 'project-deleted', tabId: this.tabId, projectId })
+  }
+
+  addListener(listener: ProjectSyncListener): void {
+    this.listeners.add(listener)
+  }
+
+  removeListener(listener: ProjectSyncListener): void {
+    this.listeners.delete(listener)
+  }
+
+  private post(message: ProjectSyncMessage): void {
+    try {
+      this.channel?.postMessage(message)
+    } catch (error) {
+      console.warn('Failed to broadcast project change:', error)
+    }
+  }
+
+  // Merge a project received from another tab into this tab's copy, given the last state both tabs agreed on
+  static mergeProjects(base: ProjectSchema, local: ProjectSchema, remote: ProjectSchema): ProjectMergeResult {
+    const merged: Record<string, any> = { ...remote }
+    const conflicts: SyncConflict = { components: [], scenes: [] }
+
+    MERGED_COLLECTIONS.forEach(key => {
+      const result = mergeCollection<any>(base[key], local[key], remote[key])
+      merged[key] = result.items
+      if (key === 'components' || key === 'scenes') {
+        conflicts[key] = result.conflicts
+      }
+    })
+
+    // Everything else is merged field by field, preferring this tab when both changed it
+    const fields = new Set([...Object.keys(local), ...Object.keys(remote)])
+    fields.forEach(field => {
+      if (MERGED_COLLECTIONS.includes(field as Collection) || field === 'updatedAt') return
+      const key = field as keyof ProjectSchema
+      if (!same(base[key], local[key])) {
+        merged[key] = local[key]
+      }
+    })
+
+    merged.updatedAt = local.updatedAt > remote.updatedAt ? local.updatedAt : remote.updatedAt
+
+    const project = merged as ProjectSchema
+    return {
+      project,
+      conflicts,
+      keptLocalChanges: !same({ ...project, updatedAt: '' }, { ...remote, updatedAt: '' })
+    }
+  }
+}
+
+// Global instance so every part of this tab shares one channel
+export const projectSync = new ProjectSyncService()
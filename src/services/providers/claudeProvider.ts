@@ -269,6 +269,7 @@ You have access to the same tools that users can access manually:
 6. get_embedded_preview - Check the embedded preview status and sample components
 7. reflect_on_artifact - Critically evaluate created artifacts
 8. capture_preview_screenshot - Visually validate components
+9. audit_accessibility - Audit rendered components with axe-core; fix violations with edit_component
 
 POWERFUL IMAGE → COMPONENT WORKFLOW:
 You can create components with custom hosted images seamlessly:
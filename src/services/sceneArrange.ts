@@ -0,0 +1,246 @@
+import type { ComponentInstance } from '../types/schema'
+
+// An instance's box in scene container pixels
+export interface SceneBox {
+  id: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// A line that boxes align on, or a gap equal to another gap. Vertical guides sit at x = `at` and run
+// from `from` to `to` down y; horizontal ones sit at y = `at` and run across x.
+export interface SceneGuide {
+  kind: 'line' | 'gap'
+  orientation: 'vertical' | 'horizontal'
+  at: number
+  from: number
+  to: number
+}
+
+export interface SnapOptions {
+  gridSize?: number // Snaps to this grid when no guide is in reach; 0 or unset turns it off
+  threshold?: number
+}
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom'
+
+type Axis = 'x' | 'y'
+
+// Distance in pixels within which a moving box snaps to a guide
+const SNAP_THRESHOLD = 6
+// Positions within this distance count as lined up when guides are drawn
+const GUIDE_TOLERANCE = 0.5
+
+const start = (box: SceneBox, axis: Axis) => (axis === 'x' ? box.x : box.y)
+const size = (box: SceneBox, axis: Axis) => (axis === 'x' ? box.width : box.height)
+const end = (box: SceneBox, axis: Axis) => start(box, axis) + size(box, axis)
+const other = (axis: Axis): Axis => (axis === 'x' ? 'y' : 'x')
+
+function moved(box: SceneBox, axis: Axis, position: number): SceneBox {
+  return axis === 'x' ? { ...box, x: position } : { ...box, y: position }
+}
+
+function overlaps(a: SceneBox, b: SceneBox, axis: Axis): boolean {
+  return start(a, axis) < end(b, axis) && start(b, axis) < end(a, axis)
+}
+
+// Start, center and end
+function anchors(box: SceneBox, axis: Axis): number[] {
+  return [start(box, axis), start(box, axis) + size(box, axis) / 2, end(box, axis)]
+}
+
+export function boundingBox(boxes: SceneBox[]): SceneBox {
+  const x = Math.min(...boxes.map(box => box.x))
+  const y = Math.min(...boxes.map(box => box.y))
+  return {
+    id: '',
+    x,
+    y,
+    width: Math.max(...boxes.map(box => box.x + box.width)) - x,
+    height: Math.max(...boxes.map(box => box.y + box.height)) - y
+  }
+}
+
+// The closest boxes before and after the box along the axis that share some of its extent across it
+function neighbours(box: SceneBox, others: SceneBox[], axis: Axis) {
+  const beside = others.filter(candidate => overlaps(candidate, box, other(axis)))
+  const center = start(box, axis) + size(box, axis) / 2
+  const before = beside
+    .filter(candidate => end(candidate, axis) <= center)
+    .sort((a, b) => end(b, axis) - end(a, axis))[0]
+  const after = beside
+    .filter(candidate => start(candidate, axis) >= center)
+    .sort((a, b) => start(a, axis) - start(b, axis))[0]
+  return { before, after }
+}
+
+// Gaps between boxes that sit next to each other along the axis
+function gapsBetween(boxes: SceneBox[], axis: Axis): SceneGuide[] {
+  const gaps: SceneGuide[] = []
+  boxes.forEach(box => {
+    const next = boxes
+      .filter(candidate => candidate !== box && start(candidate, axis) >= end(box, axis) && overlaps(candidate, box, other(axis)))
+      .sort((a, b) => start(a, axis) - start(b, axis))[0]
+    if (next) gaps.push(gapGuide(box, next, axis))
+  })
+  return gaps
+}
+
+function gapGuide(before: SceneBox, after: SceneBox, axis: Axis): SceneGuide {
+  const cross = other(axis)
+  const overlapStart = Math.max(start(before, cross), start(after, cross))
+  const overlapEnd = Math.min(end(before, cross), end(after, cross))
+  return {
+    kind: 'gap',
+    orientation: axis === 'x' ? 'horizontal' : 'vertical',
+    at: (overlapStart + overlapEnd) / 2,
+    from: end(before, axis),
+    to: start(after, axis)
+  }
+}
+
+// Where the box's start could go along the axis to line up with another box or the container, sit
+// evenly between its neighbours or repeat a gap that is already there
+function snapCandidates(box: SceneBox, others: SceneBox[], container: SceneBox, axis: Axis): number[] {
+  const candidates: number[] = []
+  const offsets = anchors(box, axis).map(anchor => anchor - start(box, axis))
+  const targets = [...others, container]
+  targets.forEach(target => {
+    anchors(target, axis).forEach(line => offsets.forEach(offset => candidates.push(line - offset)))
+  })
+
+  const { before, after } = neighbours(box, others, axis)
+  if (before && after) {
+    const between = (end(before, axis) + start(after, axis) - size(box, axis)) / 2
+    if (between >= end(before, axis)) candidates.push(between)
+  }
+  gapsBetween(others, axis).forEach(gap => {
+    const gapSize = gap.to - gap.from
+    if (before) candidates.push(end(before, axis) + gapSize)
+    if (after) candidates.push(start(after, axis) - gapSize - size(box, axis))
+  })
+  return candidates
+}
+
+function snapAxis(box: SceneBox, others: SceneBox[], container: SceneBox, axis: Axis, options: SnapOptions): number {
+  const position = start(box, axis)
+  const threshold = options.threshold ?? SNAP_THRESHOLD
+  let best: number | null = null
+  for (const candidate of snapCandidates(box, others, container, axis)) {
+    const distance = Math.abs(candidate - position)
+    if (distance <= threshold && (best === null || distance < Math.abs(best - position))) best = candidate
+  }
+  if (best !== null) return best
+  return options.gridSize ? Math.round(position / options.gridSize) * options.gridSize : position
+}
+
+// Guides the box lines up with along the axis: shared edges and centers, and gaps that match
+function axisGuides(box: SceneBox, others: SceneBox[], container: SceneBox, axis: Axis): SceneGuide[] {
+  const cross = other(axis)
+  const lines = new Map<number, SceneGuide>()
+  const targets = [...others, container]
+  targets.forEach(target => {
+    anchors(target, axis).forEach(line => {
+      if (!anchors(box, axis).some(anchor => Math.abs(anchor - line) <= GUIDE_TOLERANCE)) return
+      const key = Math.round(line)
+      const from = Math.min(start(box, cross), start(target, cross))
+      const to = Math.max(end(box, cross), end(target, cross))
+      const existing = lines.get(key)
+      lines.set(key, {
+        kind: 'line',
+        orientation: axis === 'x' ? 'vertical' : 'horizontal',
+        at: line,
+        from: existing ? Math.min(existing.from, from) : from,
+        to: existing ? Math.max(existing.to, to) : to
+      })
+    })
+  })
+
+  const guides = [...lines.values()]
+  const { before, after } = neighbours(box, others, axis)
+  const gaps = [before && gapGuide(before, box, axis), after && gapGuide(box, after, axis)]
+    .filter((gap): gap is SceneGuide => !!gap && gap.to - gap.from > GUIDE_TOLERANCE)
+  const existingGaps = gapsBetween(others, axis)
+  gaps.forEach(gap => {
+    const gapSize = gap.to - gap.from
+    const matches = [
+      ...gaps.filter(candidate => candidate !== gap),
+      ...existingGaps
+    ].filter(candidate => Math.abs(candidate.to - candidate.from - gapSize) <= GUIDE_TOLERANCE)
+    if (matches.length === 0) return
+    const related = [gap, ...matches]
+    related.forEach(match => {
+      if (!guides.includes(match)) guides.push(match)
+    })
+  })
+  return guides
+}
+
+// Snaps a moving box, which may be the bounds of several instances, to the other instances and the
+// container, falling back to the grid, and keeps it inside the container
+export function snapBox(box: SceneBox, others: SceneBox[], container: SceneBox, options: SnapOptions = {}): { x: number; y: number; guides: SceneGuide[] } {
+  const clampTo = (value: number, axis: Axis) =>
+    Math.min(Math.max(value, start(container, axis)), end(container, axis) - size(box, axis))
+  const x = clampTo(snapAxis(box, others, container, 'x', options), 'x')
+  const y = clampTo(snapAxis(box, others, container, 'y', options), 'y')
+  const snapped = moved(moved(box, 'x', x), 'y', y)
+  return {
+    x,
+    y,
+    guides: [...axisGuides(snapped, others, container, 'x'), ...axisGuides(snapped, others, container, 'y')]
+  }
+}
+
+// Lines the boxes up on an edge or center of their bounds; a single box lines up with the container
+export function alignBoxes(boxes: SceneBox[], edge: AlignEdge, container: SceneBox): Map<string, { x: number; y: number }> {
+  const bounds = boxes.length === 1 ? container : boundingBox(boxes)
+  const positions = new Map<string, { x: number; y: number }>()
+  boxes.forEach(box => {
+    let { x, y } = box
+    if (edge === 'left') x = bounds.x
+    if (edge === 'center') x = bounds.x + (bounds.width - box.width) / 2
+    if (edge === 'right') x = bounds.x + bounds.width - box.width
+    if (edge === 'top') y = bounds.y
+    if (edge === 'middle') y = bounds.y + (bounds.height - box.height) / 2
+    if (edge === 'bottom') y = bounds.y + bounds.height - box.height
+    positions.set(box.id, { x: Math.round(x), y: Math.round(y) })
+  })
+  return positions
+}
+
+// Spaces the boxes evenly between the outermost two, which stay where they are
+export function distributeBoxes(boxes: SceneBox[], direction: 'horizontal' | 'vertical'): Map<string, { x: number; y: number }> {
+  const axis: Axis = direction === 'horizontal' ? 'x' : 'y'
+  const sorted = [...boxes].sort((a, b) => start(a, axis) - start(b, axis))
+  const positions = new Map<string, { x: number; y: number }>()
+  if (sorted.length < 3) return positions
+
+  const span = Math.max(...sorted.map(box => end(box, axis))) - start(sorted[0], axis)
+  const gap = (span - sorted.reduce((total, box) => total + size(box, axis), 0)) / (sorted.length - 1)
+  let position = start(sorted[0], axis)
+  sorted.forEach(box => {
+    const placed = moved(box, axis, Math.round(position))
+    positions.set(box.id, { x: placed.x, y: placed.y })
+    position += size(box, axis) + gap
+  })
+  return positions
+}
+
+// Boxes that the rectangle touches, for marquee selection
+export function boxesInRect(boxes: SceneBox[], rect: SceneBox): SceneBox[] {
+  return boxes.filter(box => overlaps(box, rect, 'x') && overlaps(box, rect, 'y'))
+}
+
+// The instances with every instance that shares a group with one of them
+export function withGroupMembers(instances: ComponentInstance[], ids: string[]): string[] {
+  const groups = new Set(
+    instances
+      .filter(instance => ids.includes(instance.id) && instance.metadata?.groupId)
+      .map(instance => instance.metadata!.groupId)
+  )
+  return instances
+    .filter(instance => ids.includes(instance.id) || (instance.metadata?.groupId && groups.has(instance.metadata.groupId)))
+    .map(instance => instance.id)
+}
@@ -0,0 +1,233 @@
+import { instanceGridArea, orderSceneInstances, sceneFlex, sceneGrid } from './sceneLayout'
+import type { Scene, SceneLayout, ComponentInstance, ComponentSchema } from '../types/schema'
+
+export interface SceneComponentReference {
+  identifier: string // Name the component is imported under
+  importPath: string
+}
+
+export interface SceneCodegenOptions {
+  componentName?: string // Defaults to <SceneName>Page
+  // Where each component module lives; defaults to '@/components/<Identifier>'
+  resolveComponent?: (component: ComponentSchema) => SceneComponentReference
+}
+
+export interface GeneratedScenePage {
+  componentName: string
+  code: string
+  components: ComponentSchema[] // Components the page imports
+  skippedInstances: Array<{ instanceId: string; reason: 'hidden' | 'missing-component' }>
+}
+
+const JUSTIFY_CLASSES: Record<NonNullable<SceneLayout['flex']>['justify'], string> = {
+  start: 'justify-start',
+  center: 'justify-center',
+  end: 'justify-end',
+  'space-between': 'justify-between',
+  'space-around': 'justify-around'
+}
+
+const ALIGN_CLASSES: Record<NonNullable<SceneLayout['flex']>['align'], string> = {
+  start: 'items-start',
+  center: 'items-center',
+  end: 'items-end',
+  stretch: 'items-stretch'
+}
+
+export function toPascalCase(value: string): string {
+  const pascal = value
+    .replace(/[^a-zA-Z0-9]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+  return /^[A-Z]/.test(pascal) ? pascal : `Component${pascal}`
+}
+
+export function uniqueName(base: string, used: Set<string>): string {
+  let name = base
+  for (let n = 2; used.has(name); n++) {
+    name = `${base}${n}`
+  }
+  used.add(name)
+  return name
+}
+
+// Serialize instance props as JSX attributes; functions cannot be represented and are dropped
+export function toJsxProps(props: Record<string, any>): string {
+  return Object.entries(props)
+    .filter(([key, value]) => /^[A-Za-z_$][\w$-]*$/.test(key) && value !== undefined && typeof value !== 'function')
+    .map(([key, value]) => {
+      if (value === true) return ` ${key}`
+      if (typeof value === 'string' && !/["{}<>\n\\]/.test(value)) return ` ${key}="${value}"`
+      return ` ${key}={${JSON.stringify(value)}}`
+    })
+    .join('')
+}
+
+// Tailwind spacing scale where it matches exactly, arbitrary pixel values otherwise
+function spacingToken(px: number): string {
+  if (px === 0) return '0'
+  if (px === 1) return 'px'
+  return px % 4 === 0 && px / 4 <= 96 ? String(px / 4) : `[${px}px]`
+}
+
+function px(value: number): string {
+  return `[${Math.round(value)}px]`
+}
+
+function sizeClasses(instance: ComponentInstance): string[] {
+  const classes: string[] = []
+  const { width, height } = instance.size
+  if (width !== 'auto') classes.push(`w-${px(width)}`)
+  if (height !== 'auto') classes.push(`h-${px(height)}`)
+
+  const constraints = instance.constraints || {}
+  if (constraints.minWidth !== undefined) classes.push(`min-w-${px(constraints.minWidth)}`)
+  if (constraints.maxWidth !== undefined) classes.push(`max-w-${px(constraints.maxWidth)}`)
+  if (constraints.minHeight !== undefined) classes.push(`min-h-${px(constraints.minHeight)}`)
+  if (constraints.maxHeight !== undefined) classes.push(`max-h-${px(constraints.maxHeight)}`)
+  return classes
+}
+
+function zIndexClass(z: number | undefined): string | null {
+  return z ? `z-[${z}]` : null
+}
+
+// Start line and span along one grid axis; Tailwind's scale covers 13 lines and spans of 12
+function gridLineClasses(axis: 'col' | 'row', start: number | undefined, span: number): string[] {
+  const classes: string[] = []
+  if (span > 1) classes.push(span <= 12 ? `${axis}-span-${span}` : `${axis}-[span_${span}/span_${span}]`)
+  if (start !== undefined) classes.push(start <= 13 ? `${axis}-start-${start}` : `${axis}-start-[${start}]`)
+  return classes
+}
+
+// Classes for the element the scene's instances are laid out in
+export function sceneContainerClasses(layout: SceneLayout): string[] {
+  const { container } = layout
+  const classes = ['relative', 'mx-auto', `w-${px(container.width)}`]
+
+  if (layout.type === 'grid') {
+    const { columns, rows, gap } = sceneGrid(layout)
+    classes.push(
+      `min-h-${px(container.height)}`,
+      'grid',
+      columns <= 12 ? `grid-cols-${columns}` : `grid-cols-[repeat(${columns},minmax(0,1fr))]`,
+      rows <= 12 ? `grid-rows-${rows}` : `grid-rows-[repeat(${rows},minmax(0,1fr))]`,
+      `gap-${spacingToken(gap)}`
+    )
+  } else if (layout.type === 'flex') {
+    const flex = sceneFlex(layout)
+    classes.push(
+      `min-h-${px(container.height)}`,
+      'flex',
+      flex.direction === 'column' ? 'flex-col' : 'flex-row',
+      flex.wrap ? 'flex-wrap' : 'flex-nowrap',
+      JUSTIFY_CLASSES[flex.justify] || 'justify-start',
+      ALIGN_CLASSES[flex.align] || 'items-start'
+    )
+  } else {
+    classes.push(`h-${px(container.height)}`)
+  }
+
+  const background = container.background
+  if (background && /^#[0-9a-fA-F]{3,8}$/.test(background)) {
+    classes.push(`bg-[${background}]`)
+  }
+  return classes
+}
+
+// Background colors that have no Tailwind class equivalent and must be set inline
+export function sceneInlineBackground(layout: SceneLayout): string | null {
+  const background = layout.container.background
+  return background && !/^#[0-9a-fA-F]{3,8}$/.test(background) ? background : null
+}
+
+// Classes that place and size an instance within the scene container
+export function sceneInstanceClasses(layout: SceneLayout, instance: ComponentInstance): string[] {
+  const classes = layout.type === 'freeform'
+    ? ['absolute', `left-${px(instance.position.x)}`, `top-${px(instance.position.y)}`]
+    : ['relative']
+  if (layout.type === 'grid') {
+    const area = instanceGridArea(layout, instance)
+    classes.push(...gridLineClasses('col', area.column, area.columnSpan), ...gridLineClasses('row', area.row, area.rowSpan))
+  }
+  classes.push(...sizeClasses(instance))
+  const zIndex = zIndexClass(instance.position.z)
+  if (zIndex) classes.push(zIndex)
+  return classes
+}
+
+export class SceneCodegenService {
+  // Emit a standalone React page component that renders the scene with Tailwind classes
+  static generatePage(scene: Scene, components: ComponentSchema[], options: SceneCodegenOptions = {}): GeneratedScenePage {
+    const componentName = options.componentName || `${toPascalCase(scene.name)}Page`
+    const componentsById = new Map(components.map(component => [component.id, component]))
+    const skippedInstances: GeneratedScenePage['skippedInstances'] = []
+
+    const visible = scene.instances.filter(instance => {
+      if (instance.metadata?.visible === false) {
+        skippedInstances.push({ instanceId: instance.id, reason: 'hidden' })
+        return false
+      }
+      if (!componentsById.has(instance.componentId)) {
+        skippedInstances.push({ instanceId: instance.id, reason: 'missing-component' })
+        return false
+      }
+      return true
+    })
+
+    // Resolve import names once per component, keeping them unique within the page
+    const usedNames = new Set<string>([componentName])
+    const references = new Map<string, SceneComponentReference>()
+    const used: ComponentSchema[] = []
+    visible.forEach(instance => {
+      const component = componentsById.get(instance.componentId)!
+      if (references.has(component.id)) return
+      const resolved = options.resolveComponent?.(component)
+      const identifier = uniqueName(resolved?.identifier || toPascalCase(component.name), usedNames)
+      references.set(component.id, {
+        identifier,
+        importPath: resolved?.importPath || `@/components/${identifier}`
+      })
+      used.push(component)
+    })
+
+    const { layout } = scene
+    const elements = orderSceneInstances(layout, visible).map(instance => {
+      const reference = references.get(instance.componentId)!
+      const classes = sceneInstanceClasses(layout, instance)
+
+      const label = instance.metadata?.label
+      return [
+        ...(label ? [`      {/* ${label.replace(/\*\//g, '* /')} */}`] : []),
+        `      <div className="${classes.join(' ')}">`,
+        `        <${reference.identifier}${toJsxProps(instance.props || {})} />`,
+        `      </div>`
+      ].join('\n')
+    })
+
+    const background = sceneInlineBackground(layout)
+    const inlineBackground = background ? ` style={{ background: ${JSON.stringify(background)} }}` : ''
+
+    const imports = used.map(component => {
+      const reference = references.get(component.id)!
+      return `import ${reference.identifier} from '${reference.importPath}'`
+    })
+
+    const code = [
+      ...imports,
+      ...(imports.length > 0 ? [''] : []),
+      `export default function ${componentName}() {`,
+      `  return (`,
+      `    <div className="${sceneContainerClasses(layout).join(' ')}"${inlineBackground}>`,
+      ...elements,
+      `    </div>`,
+      `  )`,
+      `}`,
+      ''
+    ].join('\n')
+
+    return { componentName, code, components: used, skippedInstances }
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { gridCellAt, instanceGridArea, orderSceneInstances, reorderSceneInstances, withGridCell } from './sceneLayout'
+import type { ComponentInstance, SceneLayout } from '../types/schema'
+
+function instance(id: string, changes: Partial<ComponentInstance> = {}): ComponentInstance {
+  return {
+    id,
+    componentId: 'component',
+    props: {},
+    position: { x: 0, y: 0 },
+    size: { width: 'auto', height: 'auto' },
+    ...changes
+  } as ComponentInstance
+}
+
+const grid: SceneLayout = {
+  type: 'grid',
+  container: { width: 300, height: 200 },
+  grid: { columns: 3, rows: 2, gap: 0 }
+} as SceneLayout
+
+const flex: SceneLayout = { type: 'flex', container: { width: 300, height: 200 } } as SceneLayout
+
+describe('grid placement', () => {
+  it('keeps spans inside the grid', () => {
+    const area = instanceGridArea(grid, instance('a', { layout: { column: 3, row: 9, columnSpan: 4, rowSpan: 2 } }))
+    expect(area).toEqual({ column: 3, row: 2, columnSpan: 1, rowSpan: 1 })
+  })
+
+  it('finds the cell under a point', () => {
+    expect(gridCellAt(grid, 0, 0)).toEqual({ column: 1, row: 1 })
+    expect(gridCellAt(grid, 250, 150)).toEqual({ column: 3, row: 2 })
+    expect(gridCellAt(grid, 999, -5)).toEqual({ column: 3, row: 1 })
+  })
+
+  it('shrinks spans to fit when moving to a cell', () => {
+    const moved = withGridCell(grid, instance('a', { layout: { column: 1, row: 1, columnSpan: 3 } }), { column: 2, row: 1 })
+    expect(moved).toMatchObject({ column: 2, row: 1, columnSpan: 2, rowSpan: 1 })
+  })
+})
+
+describe('flow order', () => {
+  it('puts ordered instances first and the rest in reading order', () => {
+    const instances = [
+      instance('low', { position: { x: 0, y: 100 } }),
+      instance('second', { layout: { order: 1 } }),
+      instance('top', { position: { x: 50, y: 0 } }),
+      instance('first', { layout: { order: 0 } })
+    ]
+    expect(orderSceneInstances(flex, instances).map(i => i.id)).toEqual(['first', 'second', 'top', 'low'])
+  })
+
+  it('moves an instance and numbers every order to match, leaving the array in place', () => {
+    const instances = [instance('a', { layout: { order: 0 } }), instance('b', { layout: { order: 1 } }), instance('c', { layout: { order: 2 } })]
+    const reordered = reorderSceneInstances(flex, instances, 'c', 0)
+
+    expect(reordered.map(i => i.id)).toEqual(['a', 'b', 'c'])
+    expect(reordered.map(i => i.layout?.order)).toEqual([1, 2, 0])
+    expect(orderSceneInstances(flex, reordered).map(i => i.id)).toEqual(['c', 'a', 'b'])
+  })
+})
@@ -0,0 +1,102 @@
+import type { ComponentInstance, InstanceLayout, SceneLayout } from '../types/schema'
+
+// Where an instance sits in a grid scene. Without a column or row the grid places it along that axis.
+export interface GridArea {
+  column?: number
+  row?: number
+  columnSpan: number
+  rowSpan: number
+}
+
+export interface GridCell {
+  column: number
+  row: number
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
+
+// The scene's grid with at least one column and one row
+export function sceneGrid(layout: SceneLayout): NonNullable<SceneLayout['grid']> {
+  const grid = layout.grid || { columns: 1, rows: 1, gap: 0 }
+  return {
+    columns: Math.max(1, Math.round(grid.columns)),
+    rows: Math.max(1, Math.round(grid.rows)),
+    gap: Math.max(0, grid.gap)
+  }
+}
+
+export function sceneFlex(layout: SceneLayout): NonNullable<SceneLayout['flex']> {
+  return layout.flex || { direction: 'row', wrap: false, justify: 'start', align: 'start' }
+}
+
+// The instance's placement kept inside the grid, with spans that end at its last line
+export function instanceGridArea(layout: SceneLayout, instance: ComponentInstance): GridArea {
+  const { columns, rows } = sceneGrid(layout)
+  const placement: InstanceLayout = instance.layout || {}
+  const column = placement.column !== undefined ? clamp(Math.round(placement.column), 1, columns) : undefined
+  const row = placement.row !== undefined ? clamp(Math.round(placement.row), 1, rows) : undefined
+  return {
+    column,
+    row,
+    columnSpan: clamp(Math.round(placement.columnSpan || 1), 1, columns - (column || 1) + 1),
+    rowSpan: clamp(Math.round(placement.rowSpan || 1), 1, rows - (row || 1) + 1)
+  }
+}
+
+// The cell under a point in the scene container, in container pixels
+export function gridCellAt(layout: SceneLayout, x: number, y: number): GridCell {
+  const { columns, rows, gap } = sceneGrid(layout)
+  const { width, height } = layout.container
+  const track = (size: number, count: number) => Math.max(1, (size - gap * (count - 1)) / count) + gap
+  return {
+    column: clamp(Math.floor(x / track(width, columns)) + 1, 1, columns),
+    row: clamp(Math.floor(y / track(height, rows)) + 1, 1, rows)
+  }
+}
+
+// Moves an instance to a cell, keeping its spans inside the grid
+export function withGridCell(layout: SceneLayout, instance: ComponentInstance, cell: GridCell): InstanceLayout & GridCell & Omit<GridArea, 'column' | 'row'> {
+  const { columns, rows } = sceneGrid(layout)
+  const area = instanceGridArea(layout, instance)
+  return {
+    ...instance.layout,
+    column: cell.column,
+    row: cell.row,
+    columnSpan: Math.min(area.columnSpan, columns - cell.column + 1),
+    rowSpan: Math.min(area.rowSpan, rows - cell.row + 1)
+  }
+}
+
+// Freeform scenes stack by z. Flow layouts put instances with an order first, by it, and the rest
+// after them in reading order (top to bottom, left to right).
+export function orderSceneInstances(layout: SceneLayout, instances: ComponentInstance[]): ComponentInstance[] {
+  const indexed = instances.map((instance, index) => ({ instance, index }))
+  indexed.sort((a, b) => {
+    if (layout.type === 'freeform') {
+      return (a.instance.position.z || 0) - (b.instance.position.z || 0) || a.index - b.index
+    }
+    const orderA = a.instance.layout?.order ?? Infinity
+    const orderB = b.instance.layout?.order ?? Infinity
+    if (orderA !== orderB) return orderA < orderB ? -1 : 1
+    return a.instance.position.y - b.instance.position.y || a.instance.position.x - b.instance.position.x || a.index - b.index
+  })
+  return indexed.map(entry => entry.instance)
+}
+
+// Moves an instance to an index in the flow and numbers every instance's order to match. The
+// instances keep their places in the array.
+export function reorderSceneInstances(layout: SceneLayout, instances: ComponentInstance[], instanceId: string, toIndex: number): ComponentInstance[] {
+  const ordered = orderSceneInstances(layout, instances)
+  const from = ordered.findIndex(instance => instance.id === instanceId)
+  if (from === -1) return instances
+
+  const [moved] = ordered.splice(from, 1)
+  ordered.splice(clamp(toIndex, 0, ordered.length), 0, moved)
+  const orders = new Map(ordered.map((instance, index) => [instance.id, index]))
+  return instances.map(instance => ({
+    ...instance,
+    layout: { ...instance.layout, order: orders.get(instance.id) }
+  }))
+}
@@ -1,4 +1,5 @@
 import { ComponentSchema, Scene, ComponentInstance, SceneLayout, ProjectSchema } from '../types/schema'
+import { reorderSceneInstances } from './sceneLayout'
 
 export type SceneChangeListener = (sceneId: string, scene: Scene) => void
 export type ComponentChangeListener = (componentId: string, component: ComponentSchema) => void
@@ -141,6 +142,20 @@ export class SceneManager {
     return updatedInstance
   }
 
+  // Moves an instance within a grid or flex scene's flow, renumbering every instance's order
+  reorderComponentInstance(sceneId: string, instanceId: string, toIndex: number): boolean {
+    const scene = this.scenes.get(sceneId)
+    if (!scene || !scene.instances.some(inst => inst.id === instanceId)) return false
+
+    // Each renumbered instance goes through the same update path as any other instance edit
+    reorderSceneInstances(scene.layout, scene.instances, instanceId, toIndex).forEach((instance, index) => {
+      if (instance.layout?.order !== scene.instances[index].layout?.order) {
+        this.updateComponentInstance(sceneId, instance.id, { layout: instance.layout })
+      }
+    })
+    return true
+  }
+
   removeComponentInstance(sceneId: string, instanceId: string): boolean {
     const scene = this.scenes.get(sceneId)
     if (!scene) return false
@@ -0,0 +1,307 @@
+import { onWhite } from './visualDiff'
+import type { ContrastSample, DesignSystemSpec, DominantColor, ScreenshotAnalysis } from '../types/schema'
+
+type Rgb = [number, number, number]
+
+// The part of an analysis that comes from the pixels
+export type PixelAnalysis = Omit<ScreenshotAnalysis, 'hasContent' | 'quality' | 'dimensions'>
+
+// Largest channel difference, out of 255, that still counts as the same color
+const COLOR_THRESHOLD = 24
+// Under this share of differing pixels a screenshot counts as blank
+const BLANK_SHARE = 0.001
+// Colors are counted in bins of 16 levels per channel
+const BIN_SHIFT = 4
+const MAX_DOMINANT_COLORS = 5
+const MIN_DOMINANT_SHARE = 0.02
+// RGB distance within which a color counts as the palette color
+const PALETTE_DISTANCE = 48
+// Dominant colors outside the palette are only reported from this share of the content
+const OFF_PALETTE_SHARE = 0.05
+// Contrast is sampled in square cells this many pixels wide
+const CONTRAST_CELL_SIZE = 16
+// A cell's second color has to cover this share of it to be text rather than an edge
+const MIN_TEXT_SHARE = 0.08
+// Text crosses its strokes in at least this share of a cell's rows and of its columns
+const TEXT_LINE_SHARE = 0.25
+const AA_CONTRAST = 4.5
+// Content at least half as wide as the screenshot reads as off-center when one side's whitespace
+// exceeds the other's by this share of the width
+const OFF_CENTER = 0.2
+
+// Pixels are read a channel at a time into these, so walking an image allocates nothing per pixel
+function differs(r: number, g: number, b: number, color: Rgb): boolean {
+  return Math.abs(r - color[0]) > COLOR_THRESHOLD || Math.abs(g - color[1]) > COLOR_THRESHOLD || Math.abs(b - color[2]) > COLOR_THRESHOLD
+}
+
+function bin(r: number, g: number, b: number): number {
+  return ((r >> BIN_SHIFT) << 8) | ((g >> BIN_SHIFT) << 4) | (b >> BIN_SHIFT)
+}
+
+function toHex(color: Rgb): string {
+  return `#${color.map(channel => channel.toString(16).padStart(2, '0')).join('')}`
+}
+
+// #rgb, #rrggbb or rgb()/rgba(); other notations are skipped
+export function parseColor(value: string): Rgb | null {
+  const hex = value.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i)
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(digit => digit + digit).join('') : hex[1]
+    return [0, 2, 4].map(offset => parseInt(digits.slice(offset, offset + 2), 16)) as Rgb
+  }
+  const rgb = value.trim().match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/i)
+  return rgb ? [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])] : null
+}
+
+function paletteColors(palette: DesignSystemSpec['colorPalette']): Rgb[] {
+  return [...palette.primary, ...palette.secondary, ...palette.neutral, ...Object.values(palette.semantic)]
+    .map(value => (typeof value === 'string' ? parseColor(value) : null))
+    .filter((color): color is Rgb => color !== null)
+}
+
+function distance(a: Rgb, b: Rgb): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])
+}
+
+// WCAG relative luminance
+function luminance(color: Rgb): number {
+  const [r, g, b] = color.map(channel => {
+    const value = channel / 255
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4
+  })
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+export function contrastRatio(a: Rgb, b: Rgb): number {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x)
+  return (light + 0.05) / (dark + 0.05)
+}
+
+interface ColorBin {
+  bin: number
+  count: number
+  sum: Rgb
+}
+
+function addToBins(bins: Map<number, ColorBin>, r: number, g: number, b: number) {
+  const key = bin(r, g, b)
+  const entry = bins.get(key)
+  if (entry) {
+    entry.count++
+    entry.sum[0] += r
+    entry.sum[1] += g
+    entry.sum[2] += b
+  } else {
+    bins.set(key, { bin: key, count: 1, sum: [r, g, b] })
+  }
+}
+
+// The pixel at offset as it shows on white
+function addOnWhite(bins: Map<number, ColorBin>, data: Uint8ClampedArray, offset: number) {
+  addToBins(
+    bins,
+    Math.round(onWhite(data, offset, 0)),
+    Math.round(onWhite(data, offset, 1)),
+    Math.round(onWhite(data, offset, 2))
+  )
+}
+
+function average(entry: ColorBin): Rgb {
+  return entry.sum.map(total => Math.round(total / entry.count)) as Rgb
+}
+
+function mostUsed(bins: Map<number, ColorBin>): ColorBin[] {
+  return [...bins.values()].sort((a, b) => b.count - a.count)
+}
+
+// The most common color along the screenshot's edges
+function backgroundColor(image: ImageData): Rgb {
+  const { data, width, height } = image
+  const bins = new Map<number, ColorBin>()
+  for (let x = 0; x < width; x++) {
+    addOnWhite(bins, data, x * 4)
+    addOnWhite(bins, data, ((height - 1) * width + x) * 4)
+  }
+  for (let y = 1; y < height - 1; y++) {
+    addOnWhite(bins, data, y * width * 4)
+    addOnWhite(bins, data, (y * width + width - 1) * 4)
+  }
+  return average(mostUsed(bins)[0])
+}
+
+function cellHasContent(content: Uint8Array, width: number, left: number, top: number, cellWidth: number, cellHeight: number): boolean {
+  for (let y = 0; y < cellHeight; y++) {
+    for (let x = 0; x < cellWidth; x++) {
+      if (content[(top + y) * width + left + x]) return true
+    }
+  }
+  return false
+}
+
+// Cells whose two main colors alternate in both directions, the way glyph strokes do, are sampled
+// for the contrast between those colors. rgb holds the pixels on white, three channels each.
+function sampleContrast(rgb: Uint8ClampedArray, content: Uint8Array, width: number, height: number): ContrastSample {
+  const sample: ContrastSample = { samples: 0, lowContrast: 0, minRatio: 21 }
+
+  for (let top = 0; top < height; top += CONTRAST_CELL_SIZE) {
+    for (let left = 0; left < width; left += CONTRAST_CELL_SIZE) {
+      const cellWidth = Math.min(CONTRAST_CELL_SIZE, width - left)
+      const cellHeight = Math.min(CONTRAST_CELL_SIZE, height - top)
+      if (!cellHasContent(content, width, left, top, cellWidth, cellHeight)) continue
+
+      const bins = new Map<number, ColorBin>()
+      const cellBins = new Int32Array(cellWidth * cellHeight)
+      for (let y = 0; y < cellHeight; y++) {
+        for (let x = 0; x < cellWidth; x++) {
+          const offset = ((top + y) * width + left + x) * 3
+          const r = rgb[offset], g = rgb[offset + 1], b = rgb[offset + 2]
+          addToBins(bins, r, g, b)
+          cellBins[y * cellWidth + x] = bin(r, g, b)
+        }
+      }
+
+      const [first, second] = mostUsed(bins)
+      if (!second || second.count < cellWidth * cellHeight * MIN_TEXT_SHARE) continue
+      const background = average(first)
+      const foreground = average(second)
+      if (!differs(foreground[0], foreground[1], foreground[2], background)) continue
+
+      // Lines crossing from one color to the other and back; anti-aliased pixels in between are skipped
+      const crossings = (lines: number, length: number, at: (line: number, step: number) => number) => {
+        let busy = 0
+        for (let line = 0; line < lines; line++) {
+          let last = -1
+          let transitions = 0
+          for (let step = 0; step < length; step++) {
+            const value = cellBins[at(line, step)]
+            const side = value === first.bin ? 0 : value === second.bin ? 1 : -1
+            if (side < 0) continue
+            if (last >= 0 && side !== last) transitions++
+            last = side
+          }
+          if (transitions >= 2) busy++
+        }
+        return busy / lines
+      }
+      const rows = crossings(cellHeight, cellWidth, (y, x) => y * cellWidth + x)
+      const columns = crossings(cellWidth, cellHeight, (x, y) => y * cellWidth + x)
+      if (rows < TEXT_LINE_SHARE || columns < TEXT_LINE_SHARE) continue
+
+      const ratio = contrastRatio(foreground, background)
+      sample.samples++
+      if (ratio < AA_CONTRAST) sample.lowContrast++
+      if (ratio < sample.minRatio) {
+        sample.minRatio = Math.round(ratio * 100) / 100
+        sample.worst = { foreground: toHex(foreground), background: toHex(background) }
+      }
+    }
+  }
+  return sample
+}
+
+// Finds the background, what differs from it and where, the content's main colors against the
+// palette, and the contrast of anything that looks like text. An image scaled down from the
+// screenshot gives its scale, so the content box comes out in screenshot pixels.
+export function analyzePixels(image: ImageData, palette?: DesignSystemSpec['colorPalette'], scale = 1): PixelAnalysis {
+  const { data, width, height } = image
+  const background = backgroundColor(image)
+  const content = new Uint8Array(width * height)
+  // Filled in this pass so contrast sampling does not composite the pixels again
+  const rgb = new Uint8ClampedArray(width * height * 3)
+  const bins = new Map<number, ColorBin>()
+  let contentPixels = 0
+  let minX = width, minY = height, maxX = -1, maxY = -1
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x
+      const offset = pixel * 4
+      const r = Math.round(onWhite(data, offset, 0))
+      const g = Math.round(onWhite(data, offset, 1))
+      const b = Math.round(onWhite(data, offset, 2))
+      rgb[pixel * 3] = r
+      rgb[pixel * 3 + 1] = g
+      rgb[pixel * 3 + 2] = b
+      if (!differs(r, g, b, background)) continue
+      content[pixel] = 1
+      contentPixels++
+      addToBins(bins, r, g, b)
+      if (x < minX) minX = x
+      if (x > maxX) maxX = x
+      if (y < minY) minY = y
+      if (y > maxY) maxY = y
+    }
+  }
+
+  const analysis: PixelAnalysis = {
+    background: toHex(background),
+    blank: contentPixels < width * height * BLANK_SHARE
+  }
+  if (contentPixels === 0) return analysis
+
+  const round = (value: number) => Math.round(value * 1000) / 1000
+  analysis.contentBox = {
+    x: Math.round(minX / scale),
+    y: Math.round(minY / scale),
+    width: Math.round((maxX - minX + 1) / scale),
+    height: Math.round((maxY - minY + 1) / scale)
+  }
+  analysis.clippedEdges = ([
+    ['top', minY === 0],
+    ['right', maxX === width - 1],
+    ['bottom', maxY === height - 1],
+    ['left', minX === 0]
+  ] as const).filter(([, touches]) => touches).map(([edge]) => edge)
+  analysis.whitespace = {
+    top: round(minY / height),
+    right: round((width - 1 - maxX) / width),
+    bottom: round((height - 1 - maxY) / height),
+    left: round(minX / width)
+  }
+
+  const palettes = palette ? paletteColors(palette) : []
+  analysis.dominantColors = mostUsed(bins)
+    .filter(entry => entry.count >= contentPixels * MIN_DOMINANT_SHARE)
+    .slice(0, MAX_DOMINANT_COLORS)
+    .map(entry => {
+      const color = average(entry)
+      const dominant: DominantColor = { hex: toHex(color), share: round(entry.count / contentPixels) }
+      if (palettes.length > 0) {
+        const nearest = palettes.reduce((best, candidate) => (distance(candidate, color) < distance(best, color) ? candidate : best))
+        dominant.paletteColor = toHex(nearest)
+        dominant.inPalette = distance(nearest, color) <= PALETTE_DISTANCE
+      }
+      return dominant
+    })
+
+  analysis.contrast = sampleContrast(rgb, content, width, height)
+  return analysis
+}
+
+// What in an analysis deserves a fix, one sentence each
+export function screenshotFindings(analysis: PixelAnalysis): string[] {
+  const findings: string[] = []
+  const percent = (share: number) => `${Math.round(share * 100)}%`
+
+  if (analysis.blank) {
+    findings.push('The screenshot is blank: next to nothing renders apart from the background')
+    return findings
+  }
+  if (analysis.clippedEdges && analysis.clippedEdges.length > 0) {
+    findings.push(`Content runs into the ${analysis.clippedEdges.join(' and ')} edge of the screenshot, so it may be clipped or overflow its container`)
+  }
+  const { whitespace } = analysis
+  if (whitespace && 1 - whitespace.left - whitespace.right >= 0.5 && Math.abs(whitespace.left - whitespace.right) > OFF_CENTER) {
+    findings.push(`Whitespace is unbalanced: ${percent(whitespace.left)} of the width is empty on the left and ${percent(whitespace.right)} on the right`)
+  }
+  analysis.dominantColors
+    ?.filter(color => color.inPalette === false && color.share >= OFF_PALETTE_SHARE)
+    .forEach(color => {
+      findings.push(`${color.hex} covers ${percent(color.share)} of the content but is not in the design system palette; the nearest palette color is ${color.paletteColor}`)
+    })
+  const contrast = analysis.contrast
+  if (contrast && contrast.lowContrast > 0 && contrast.worst) {
+    findings.push(`${contrast.lowContrast} of ${contrast.samples} sampled text areas are under 4.5:1 contrast; the lowest is ${contrast.minRatio}:1 (${contrast.worst.foreground} on ${contrast.worst.background})`)
+  }
+  return findings
+}
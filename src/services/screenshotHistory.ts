@@ -0,0 +1,32 @@
+import type { ProjectScreenshot } from './visualDiff'
+import { hasImage, screenshotImageUrl, thumbnailDataUrl } from './screenshotImages'
+import type { ComponentThumbnail, ProjectSchema } from '../types/schema'
+
+// Every screenshot of a component with an image, however it was taken, oldest first
+export function componentScreenshots(project: ProjectSchema, componentId: string): ProjectScreenshot[] {
+  return (project.screenshots || [])
+    .filter(screenshot => screenshot.componentId === componentId && (hasImage(screenshot) || screenshot.cdnUrl))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+}
+
+// How the screenshot was taken, e.g. "viewport · tablet"
+export function screenshotLabel(screenshot: ProjectScreenshot): string {
+  return [screenshot.captureMode || 'component', screenshot.device].filter(Boolean).join(' · ')
+}
+
+export async function componentThumbnail(projectId: string, screenshot: ProjectScreenshot): Promise<ComponentThumbnail> {
+  if (screenshot.thumbnail) return { screenshotId: screenshot.id, dataUrl: screenshot.thumbnail }
+
+  const source = await screenshotImageUrl(projectId, screenshot)
+  if (!source) throw new Error('The screenshot has no image')
+  return { screenshotId: screenshot.id, dataUrl: await thumbnailDataUrl(source) }
+}
+
+// Pin a thumbnail on the component, or unpin it without one
+export function withThumbnail(project: ProjectSchema, componentId: string, thumbnail?: ComponentThumbnail): ProjectSchema {
+  return {
+    ...project,
+    components: project.components.map(c => (c.id === componentId ? { ...c, thumbnail } : c)),
+    updatedAt: new Date().toISOString()
+  }
+}
@@ -0,0 +1,76 @@
+import { projectStorage } from './projectStorage'
+import type { ProjectSchema } from '../types/schema'
+
+type ProjectScreenshot = NonNullable<ProjectSchema['screenshots']>[number]
+
+// Thumbnails are scaled down to this width before they are kept in the project
+const THUMBNAIL_WIDTH = 320
+const THUMBNAIL_QUALITY = 0.85
+// Stored images loaded at once; the oldest object URL is revoked past this
+const MAX_LOADED_IMAGES = 30
+
+const loadedImages = new Map<string, Promise<string | undefined>>()
+
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.crossOrigin = 'anonymous' // Keeps canvases drawn from uploaded screenshots readable
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error('Screenshot could not be decoded'))
+    image.src = url
+  })
+}
+
+// JPEG data URL of the image scaled down to the thumbnail width, on white
+export async function thumbnailDataUrl(source: string): Promise<string> {
+  const image = await loadImage(source)
+  const scale = Math.min(1, THUMBNAIL_WIDTH / image.naturalWidth)
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale))
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale))
+  const context = canvas.getContext('2d')!
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.drawImage(image, 0, 0, canvas.width, canvas.height)
+  return canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY)
+}
+
+// Whether the screenshot's own image is at hand, stored or inline, so it can be compared
+export function hasImage(screenshot: ProjectScreenshot): boolean {
+  return !!(screenshot.imageId || screenshot.dataUrl)
+}
+
+// Store the captured image apart from the project. The screenshot keeps its id and a thumbnail.
+export async function withStoredImage(projectId: string, screenshot: ProjectScreenshot & { dataUrl: string }): Promise<ProjectScreenshot> {
+  const { dataUrl, ...rest } = screenshot
+  const [blob, thumbnail] = await Promise.all([
+    fetch(dataUrl).then(response => response.blob()),
+    thumbnailDataUrl(dataUrl)
+  ])
+  await projectStorage.saveScreenshotImage(projectId, screenshot.id, blob)
+  return { ...rest, imageId: screenshot.id, thumbnail }
+}
+
+// URL of the full image: an inline one not stored yet, the stored one or the uploaded copy when only
+// that is left
+export function screenshotImageUrl(projectId: string, screenshot: ProjectScreenshot): Promise<string | undefined> {
+  if (screenshot.dataUrl || !screenshot.imageId) return Promise.resolve(screenshot.dataUrl || screenshot.cdnUrl)
+
+  const key = `${projectId}:${screenshot.imageId}`
+  let url = loadedImages.get(key)
+  if (!url) {
+    url = projectStorage.loadScreenshotImage(projectId, screenshot.imageId)
+      .then(blob => (blob ? URL.createObjectURL(blob) : screenshot.cdnUrl))
+    loadedImages.set(key, url)
+    url.catch(() => loadedImages.delete(key))
+
+    if (loadedImages.size > MAX_LOADED_IMAGES) {
+      const [oldestKey, oldest] = loadedImages.entries().next().value!
+      loadedImages.delete(oldestKey)
+      oldest.then(previous => {
+        if (previous?.startsWith('blob:')) URL.revokeObjectURL(previous)
+      }).catch(() => {})
+    }
+  }
+  return url
+}
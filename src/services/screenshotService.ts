@@ -1,11 +1,22 @@
-import html2canvas from 'html2canvas'
-import type { ProjectSchema, ComponentSchema } from '../types/schema'
+import { HiddenPreview, withHiddenPreview, HIDDEN_PREVIEW_SIZE } from './hiddenPreview'
+import type { PreviewScreenshot } from './previewBridge'
+import { pixels } from './visualDiff'
+import { loadImage } from './screenshotImages'
+import { analyzePixels, screenshotFindings } from './screenshotAnalysis'
+import type { DevicePreset } from './previewDevices'
+import type { DesignSystemSpec, ProjectSchema, ScreenshotAnalysis } from '../types/schema'
+
+const CAPTURE_TIMEOUT_MS = 15000
+// Wider screenshots (high-DPI and desktop captures) are scaled down to this before their pixels are
+// analyzed on the main thread
+const ANALYSIS_MAX_WIDTH = 1280
 
 export interface Screenshot {
   id: string
   componentId?: string
   sceneId?: string
   captureMode: 'full' | 'component' | 'viewport'
+  device?: string // Device preset the preview was sized to
   dataUrl: string
   width: number
   height: number
@@ -17,86 +28,91 @@ export interface Screenshot {
   }
 }
 
-export class ScreenshotService {
-  private static screenshots: Map<string, Screenshot> = new Map()
-
-  static async captureElement(
-    element: HTMLElement,
-    options: {
-      componentId?: string
-      sceneId?: string
-      captureMode: 'full' | 'component' | 'viewport'
-    }
-  ): Promise<Screenshot> {
-    try {
-      // Add a slight delay to ensure styles are fully rendered
-      await new Promise(resolve => setTimeout(resolve, 100))
-
-      const canvas = await html2canvas(element, {
-        backgroundColor: '#ffffff',
-        scale: 2, // Higher quality
-        logging: false,
-        useCORS: true, // Allow cross-origin images
-        allowTaint: true
-      })
-
-      const dataUrl = canvas.toDataURL('image/png')
-      const screenshot: Screenshot = {
-        id: `screenshot-${Date.now()}`,
-        componentId: options.componentId,
-        sceneId: options.sceneId,
-        captureMode: options.captureMode,
-        dataUrl,
-        width: canvas.width,
-        height: canvas.height,
-        timestamp: new Date().toISOString(),
-        metadata: {
-          userAgent: navigator.userAgent,
-          viewportSize: {
-            width: window.innerWidth,
-            height: window.innerHeight
-          },
-          devicePixelRatio: window.devicePixelRatio
-        }
-      }
-
-      // Store screenshot
-      this.screenshots.set(screenshot.id, screenshot)
+// An analysis with the suggestions drawn from it
+export type ScreenshotReview = ScreenshotAnalysis & { suggestions?: string[] }
 
-      return screenshot
-    } catch (error) {
-      console.error('Failed to capture screenshot:', error)
-      throw error
-    }
-  }
+// What is stored with a screenshot; the suggestions can be drawn from it again
+export function storedAnalysis({ suggestions: _suggestions, ...analysis }: ScreenshotReview): ScreenshotAnalysis {
+  return analysis
+}
 
-  static async capturePreview(options: {
+export class ScreenshotService {
+  // Renders the project's components, or only the given one, in a hidden preview and captures it
+  // from inside the preview: the whole document, the component's element or the viewport. Gives one
+  // screenshot per device, or one at the hidden preview's size without devices. Screenshots last as
+  // long as the caller keeps them, e.g. in project.screenshots.
+  static async capturePreview(project: ProjectSchema, options: {
     componentId?: string
     captureMode?: 'full' | 'component' | 'viewport'
-  } = {}): Promise<Screenshot> {
-    const { componentId, captureMode = 'viewport' } = options
-
-    let targetElement: HTMLElement | null = null
-
-    if (componentId && captureMode === 'component') {
-      // Try to find the specific component in the preview
-      targetElement = document.querySelector(`[data-component-id="${componentId}"]`)
+    devices?: DevicePreset[]
+  } = {}): Promise<Screenshot[]> {
+    const { componentId, captureMode = 'viewport', devices = [] } = options
+    if (captureMode === 'component' && !componentId) {
+      throw new Error('Capturing a component needs its componentId')
+    }
+    const components = project.components.filter(c => c.generatedCode && (!componentId || c.id === componentId))
+    if (components.length === 0) {
+      throw new Error(componentId ? 'The component has no code to capture' : 'No component has code to capture')
     }
 
-    if (!targetElement) {
-      // Fall back to the main preview container
-      targetElement = document.querySelector('#preview-container') || 
-                     document.querySelector('.preview-content') ||
-                     document.querySelector('[data-preview]')
+    const html = await HiddenPreview.build(project, components)
+    const screenshots: Screenshot[] = []
+    // One preview at a time, each sized to its device from the start
+    for (const device of devices.length > 0 ? devices : [null]) {
+      const size = device ? { width: device.width, height: device.height } : HIDDEN_PREVIEW_SIZE
+      const preview = await HiddenPreview.mount(html, size)
+      try {
+        const reply = await preview.request(
+          requestId => ({
+            type: 'capture-screenshot',
+            requestId,
+            componentId: captureMode === 'component' ? componentId : undefined,
+            viewport: captureMode === 'viewport'
+          }),
+          CAPTURE_TIMEOUT_MS,
+          `The ${device ? device.label.toLowerCase() + ' ' : ''}preview did not answer the screenshot request`
+        )
+        if (reply.type !== 'screenshot' || !('screenshot' in reply)) throw new Error('The preview sent no screenshot')
+
+        const screenshot: Screenshot = {
+          id: `screenshot-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          componentId,
+          captureMode,
+          device: device?.id,
+          dataUrl: reply.screenshot.dataUrl,
+          width: reply.screenshot.width,
+          height: reply.screenshot.height,
+          timestamp: new Date().toISOString(),
+          metadata: {
+            userAgent: navigator.userAgent,
+            viewportSize: size,
+            devicePixelRatio: window.devicePixelRatio
+          }
+        }
+        screenshots.push(screenshot)
+      } finally {
+        preview.close()
+      }
     }
+    return screenshots
+  }
 
-    if (!targetElement) {
-      throw new Error('No preview element found to capture')
+  // Render the component with sample props in a hidden preview and capture it there, so it works
+  // without the component on screen. The project decides which code is rendered.
+  static async captureComponent(project: ProjectSchema, componentId: string): Promise<PreviewScreenshot> {
+    const component = project.components.find(c => c.id === componentId)
+    if (!component?.generatedCode) {
+      throw new Error('The component has no code to capture')
     }
 
-    return this.captureElement(targetElement, {
-      componentId: options.componentId,
-      captureMode: options.captureMode || 'viewport'
+    return withHiddenPreview(project, [component], async preview => {
+      const reply = await preview.request(
+        requestId => ({ type: 'capture-screenshot', requestId, instanceId: HiddenPreview.instanceId(componentId) }),
+        CAPTURE_TIMEOUT_MS,
+        'The preview did not answer the screenshot request'
+      )
+      if (reply.type !== 'screenshot' || !('screenshot' in reply)) throw new Error('The preview sent no screenshot')
+      return reply.screenshot
     })
   }
 
@@ -128,40 +144,18 @@ export class ScreenshotService {
     }
   }
 
-  static getScreenshot(id: string): Screenshot | undefined {
-    return this.screenshots.get(id)
-  }
-
-  static getAllScreenshots(): Screenshot[] {
-    return Array.from(this.screenshots.values())
-  }
-
-  static getComponentScreenshots(componentId: string): Screenshot[] {
-    return Array.from(this.screenshots.values())
-      .filter(s => s.componentId === componentId)
-      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-  }
-
-  static clearScreenshots() {
-    this.screenshots.clear()
-  }
-
-  // Analyze screenshot for aesthetic qualities
-  static async analyzeScreenshot(screenshot: Screenshot): Promise<{
-    hasContent: boolean
-    dimensions: { width: number; height: number; aspectRatio: number }
-    quality: 'high' | 'medium' | 'low'
-    suggestions?: string[]
-  }> {
-    // Create temporary image to analyze
-    const img = new Image()
-    img.src = screenshot.dataUrl
-
-    await new Promise(resolve => {
-      img.onload = resolve
-    })
-
-    const hasContent = img.width > 100 && img.height > 100
+  // Analyze the screenshot's pixels: whether anything rendered, where the content sits and whether
+  // it is clipped, its main colors against the design system palette when given, and the contrast
+  // of what looks like text. Suggestions spell out what deserves a fix.
+  static async analyzeScreenshot(
+    screenshot: { dataUrl: string },
+    palette?: DesignSystemSpec['colorPalette']
+  ): Promise<ScreenshotReview> {
+    const img = await loadImage(screenshot.dataUrl)
+    const image = pixels(img, ANALYSIS_MAX_WIDTH)
+    const pixelAnalysis = analyzePixels(image, palette, image.width / img.naturalWidth)
+
+    const hasContent = !pixelAnalysis.blank && img.width > 100 && img.height > 100
     const aspectRatio = img.width / img.height
     
     // Basic quality assessment based on resolution
@@ -169,10 +163,10 @@ export class ScreenshotService {
     if (img.width >= 1200 && img.height >= 800) quality = 'high'
     else if (img.width >= 800 && img.height >= 600) quality = 'medium'
 
-    const suggestions: string[] = []
+    const suggestions = screenshotFindings(pixelAnalysis)
     
-    if (!hasContent) {
-      suggestions.push('Screenshot appears to be empty or too small')
+    if (!pixelAnalysis.blank && !hasContent) {
+      suggestions.push('Screenshot is too small to show the component properly')
     }
     
     if (aspectRatio > 3 || aspectRatio < 0.3) {
@@ -191,7 +185,8 @@ export class ScreenshotService {
         aspectRatio
       },
       quality,
+      ...pixelAnalysis,
       suggestions: suggestions.length > 0 ? suggestions : undefined
     }
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { WorkerClient } from '../lib/workerClient'
+import type { ComponentSchema, CodeDiagnostic } from '../types/schema'
+
+export interface TypeCheckRequest {
+  id: number
+  code: string
+}
+
+export type TypeCheckResponse =
+  | { id: number; diagnostics: CodeDiagnostic[] }
+  | { id: number; error: string }
+
+// Runs the TypeScript language service in a worker so checks never block the editor
+class TypeCheckService {
+  private client = new WorkerClient<Omit<TypeCheckRequest, 'id'>, { diagnostics: CodeDiagnostic[] }>(
+    () => new Worker(new URL('./typeCheck.worker.ts', import.meta.url), { type: 'module' }),
+    'Type check'
+  )
+
+  async check(code: string): Promise<CodeDiagnostic[]> {
+    const { diagnostics } = await this.client.request({ code })
+    return diagnostics
+  }
+}
+
+export const typeChecker = new TypeCheckService()
+
+// Type-check a component's generated code and store the result on it
+export async function applyDiagnostics<T extends ComponentSchema>(component: T): Promise<T> {
+  if (!component.generatedCode) return component
+  try {
+    return { ...component, diagnostics: await typeChecker.check(component.generatedCode) }
+  } catch (error) {
+    console.warn(`Type check failed for ${component.name}:`, error)
+    // Diagnostics from earlier code no longer apply
+    const { diagnostics: _stale, ...unchecked } = component
+    return unchecked as T
+  }
+}
+
+export function countErrors(diagnostics: CodeDiagnostic[] = []): number {
+  return diagnostics.filter(diagnostic => diagnostic.severity === 'error').length
+}
+
+// One line per diagnostic, e.g. "12:5 error TS2304: Cannot find name 'Foo'."
+export function formatDiagnostics(diagnostics: CodeDiagnostic[], limit = 10): string[] {
+  const lines = diagnostics
+    .slice(0, limit)
+    .map(d => `${d.line}:${d.column} ${d.severity} TS${d.code}: ${d.message}`)
+  if (diagnostics.length > limit) {
+    lines.push(`...and ${diagnostics.length - limit} more`)
+  }
+  return lines
+}
+
+// Sentence for agent tool summaries
+export function describeDiagnostics(diagnostics?: CodeDiagnostic[]): string {
+  if (!diagnostics) return 'Type check unavailable.'
+  const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error')
+  if (errors.length === 0) return 'Type check passed.'
+  const first = errors[0]
+  return `Type check found ${errors.length} error${errors.length === 1 ? '' : 's'} (first at line ${first.line}: ${first.message}).`
+}
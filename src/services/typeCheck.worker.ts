@@ -0,0 +1,168 @@
+import ts from 'typescript'
+import { REACT_HOOKS } from '../lib/utils'
+import type { CodeDiagnostic } from '../types/schema'
+import type { TypeCheckRequest, TypeCheckResponse } from './typeCheck'
+
+// Everything the checked code can see lives in an in-memory file system keyed by root-relative path
+const libFiles = import.meta.glob<string>(
+  '/node_modules/typescript/lib/lib.{es5,es201[5-9]*,es2020*,dom,dom.iterable,decorators*}.d.ts',
+  { query: '?raw', import: 'default', eager: true }
+)
+const typingFiles = import.meta.glob<string>([
+  '/node_modules/@types/react/{index,global,jsx-runtime}.d.ts',
+  '/node_modules/@types/react-dom/{index,client}.d.ts',
+  '/node_modules/csstype/index.d.ts',
+  '/node_modules/class-variance-authority/dist/{index,types}.d.ts',
+  '/node_modules/clsx/clsx.d.ts'
+], { query: '?raw', import: 'default', eager: true })
+const projectFiles = import.meta.glob<string>([
+  '/src/components/ui/*.tsx',
+  '!/src/components/ui/CodeEditor.tsx',
+  '/src/hooks/use-*.{ts,tsx}',
+  '/src/lib/utils.ts'
+], { query: '?raw', import: 'default', eager: true })
+
+const LIB_DIRECTORY = '/node_modules/typescript/lib/'
+const COMPONENT_FILE = '/src/components/GeneratedComponent.tsx'
+const AMBIENT_FILE = '/hedgekit-ambient.d.ts'
+const GLOBALS_FILE = '/hedgekit-globals.d.ts'
+
+// Packages the ui primitives build on; their own typings are too large to ship, so they type as any
+const AMBIENT_MODULES = ['tailwind-merge', 'lucide-react', '@radix-ui/*', 'next-themes']
+
+// Unresolved bare imports are added to package.json on export, so they only warrant a warning
+const MISSING_MODULE_CODES = new Set([2307, 2792])
+
+const compilerOptions: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  moduleDetection: ts.ModuleDetectionKind.Force,
+  jsx: ts.JsxEmit.ReactJSX,
+  lib: ['lib.es2020.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  types: [],
+  // Generated code is loosely typed; report what breaks at runtime rather than strict-mode noise
+  strict: false,
+  esModuleInterop: true,
+  allowUmdGlobalAccess: true,
+  skipLibCheck: true,
+  noEmit: true,
+  baseUrl: '/',
+  paths: {
+    '@/*': ['src/*'],
+    'class-variance-authority': ['node_modules/class-variance-authority/dist/index.d.ts'],
+    clsx: ['node_modules/clsx/clsx.d.ts']
+  }
+}
+
+function buildFiles(): Map<string, string> {
+  const files = new Map<string, string>()
+  Object.entries(typingFiles).forEach(([path, source]) => files.set(path, source))
+  Object.entries(projectFiles).forEach(([path, source]) => files.set(path, source))
+  Object.entries(libFiles).forEach(([path, source]) => {
+    files.set(LIB_DIRECTORY + path.split('/').pop(), source)
+  })
+
+  files.set(AMBIENT_FILE, AMBIENT_MODULES.map(name => `declare module '${name}'`).join('\n'))
+
+  // Previews and the code exporter supply React hooks and ui components that generated code leaves unimported
+  const globals = REACT_HOOKS.map(hook => `  const ${hook}: typeof import('react').${hook}`)
+  Object.entries(projectFiles)
+    .filter(([path]) => path.startsWith('/src/components/ui/'))
+    .forEach(([path, source]) => {
+      const module = path.replace(/^\/src\//, '@/').replace(/\.tsx$/, '')
+      const exported = new Set<string>()
+      for (const match of source.matchAll(/export\s*\{([^}]+)\}/g)) {
+        match[1].split(',').forEach(part => exported.add(part.trim().split(/\s+as\s+/).pop()!))
+      }
+      for (const match of source.matchAll(/export\s+(?:function|const)\s+(\w+)/g)) {
+        exported.add(match[1])
+      }
+      exported.forEach(name => {
+        if (/^[A-Z]\w*$/.test(name)) {
+          globals.push(`  const ${name}: typeof import('${module}').${name}`)
+        }
+      })
+    })
+  files.set(GLOBALS_FILE, ['export {}', 'declare global {', ...globals, '}'].join('\n'))
+
+  return files
+}
+
+let files: Map<string, string> | null = null
+let service: ts.LanguageService | null = null
+let componentVersion = 0
+
+function getService(): ts.LanguageService {
+  if (service) return service
+  const fs = files = buildFiles()
+
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => compilerOptions,
+    getScriptFileNames: () => [AMBIENT_FILE, GLOBALS_FILE, COMPONENT_FILE],
+    getScriptVersion: fileName => (fileName === COMPONENT_FILE ? String(componentVersion) : '0'),
+    getScriptSnapshot: fileName => {
+      const source = fs.get(fileName)
+      return source === undefined ? undefined : ts.ScriptSnapshot.fromString(source)
+    },
+    getCurrentDirectory: () => '/',
+    getDefaultLibFileName: options => LIB_DIRECTORY + ts.getDefaultLibFileName(options),
+    fileExists: fileName => fs.has(fileName),
+    readFile: fileName => fs.get(fileName),
+    directoryExists: directory => {
+      const prefix = directory.endsWith('/') ? directory : `${directory}/`
+      for (const path of fs.keys()) {
+        if (path.startsWith(prefix)) return true
+      }
+      return false
+    }
+  }
+
+  service = ts.createLanguageService(host, ts.createDocumentRegistry())
+  return service
+}
+
+function toDiagnostic(diagnostic: ts.Diagnostic): CodeDiagnostic {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+  const start = diagnostic.start || 0
+  const position = diagnostic.file
+    ? diagnostic.file.getLineAndCharacterOfPosition(start)
+    : { line: 0, character: 0 }
+
+  const missingModule = MISSING_MODULE_CODES.has(diagnostic.code) && message.match(/module '([^']+)'/)?.[1]
+  const isBareImport = missingModule && !/^(\.|\/|@\/)/.test(missingModule)
+
+  return {
+    severity: diagnostic.category === ts.DiagnosticCategory.Error && !isBareImport ? 'error' : 'warning',
+    code: diagnostic.code,
+    message,
+    line: position.line + 1,
+    column: position.character + 1,
+    start,
+    length: diagnostic.length || 0
+  }
+}
+
+function checkCode(code: string): CodeDiagnostic[] {
+  const languageService = getService()
+  files!.set(COMPONENT_FILE, code)
+  componentVersion++
+
+  return [
+    ...languageService.getSyntacticDiagnostics(COMPONENT_FILE),
+    ...languageService.getSemanticDiagnostics(COMPONENT_FILE)
+  ]
+    .filter(diagnostic => diagnostic.category !== ts.DiagnosticCategory.Suggestion)
+    .map(toDiagnostic)
+}
+
+self.addEventListener('message', (event: MessageEvent<TypeCheckRequest>) => {
+  const { id, code } = event.data
+  let response: TypeCheckResponse
+  try {
+    response = { id, diagnostics: checkCode(code) }
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Type check failed' }
+  }
+  self.postMessage(response)
+})
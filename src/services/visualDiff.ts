@@ -0,0 +1,329 @@
+import type { PreviewScreenshot } from './previewBridge'
+import { hasImage, loadImage, screenshotImageUrl, withStoredImage } from './screenshotImages'
+import type { ProjectSchema, VisualDiff, VisualDiffRegion } from '../types/schema'
+
+export type ProjectScreenshot = NonNullable<ProjectSchema['screenshots']>[number]
+
+// Largest channel difference, out of 255, that still counts as the same pixel; absorbs
+// anti-aliasing and color rounding
+const PIXEL_THRESHOLD = 24
+// Changed pixels are grouped into regions on a grid of cells this many pixels wide
+const REGION_CELL_SIZE = 8
+const MAX_REGIONS = 10
+// Screenshots kept per component and way of capturing it, besides the baseline
+const MAX_COMPONENT_SCREENSHOTS = 10
+
+const CHANGED_COLOR = [239, 68, 68] // Tailwind red-500
+
+export interface PixelDiff {
+  width: number
+  height: number
+  changedPixels: number
+  changedPercent: number
+  regions: VisualDiffRegion[]
+  diffDataUrl: string // The after image faded, with changed pixels in red and regions outlined
+}
+
+// The image's pixels, scaled down to at most maxWidth wide
+export function pixels(image: HTMLImageElement, maxWidth = Infinity): ImageData {
+  const scale = Math.min(1, maxWidth / image.naturalWidth)
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale))
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale))
+  const context = canvas.getContext('2d')!
+  context.drawImage(image, 0, 0, canvas.width, canvas.height)
+  return context.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+// A channel of the pixel at offset as it shows on white, so transparent and white pixels compare equal
+export function onWhite(data: Uint8ClampedArray, offset: number, channel: number): number {
+  const alpha = data[offset + 3] / 255
+  return data[offset + channel] * alpha + 255 * (1 - alpha)
+}
+
+// 1 for every pixel of the union of both images that differs. Pixels only one image covers differ.
+export function changedPixelMask(before: ImageData, after: ImageData): { mask: Uint8Array; width: number; height: number } {
+  const width = Math.max(before.width, after.width)
+  const height = Math.max(before.height, after.height)
+  const mask = new Uint8Array(width * height)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inBefore = x < before.width && y < before.height
+      const inAfter = x < after.width && y < after.height
+      let changed = inBefore !== inAfter
+      if (inBefore && inAfter) {
+        const b = (y * before.width + x) * 4
+        const a = (y * after.width + x) * 4
+        for (let channel = 0; channel < 3 && !changed; channel++) {
+          changed = Math.abs(onWhite(before.data, b, channel) - onWhite(after.data, a, channel)) > PIXEL_THRESHOLD
+        }
+      }
+      if (changed) mask[y * width + x] = 1
+    }
+  }
+  return { mask, width, height }
+}
+
+function overlaps(a: VisualDiffRegion, b: VisualDiffRegion, gap: number): boolean {
+  return a.x - gap < b.x + b.width && b.x - gap < a.x + a.width &&
+    a.y - gap < b.y + b.height && b.y - gap < a.y + a.height
+}
+
+function union(a: VisualDiffRegion, b: VisualDiffRegion): VisualDiffRegion {
+  const x = Math.min(a.x, b.x)
+  const y = Math.min(a.y, b.y)
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y
+  }
+}
+
+// Bounding boxes of the connected groups of changed grid cells, with boxes that touch merged,
+// largest first
+export function changedRegions(mask: Uint8Array, width: number, height: number): VisualDiffRegion[] {
+  const columns = Math.ceil(width / REGION_CELL_SIZE)
+  const rows = Math.ceil(height / REGION_CELL_SIZE)
+  const cells = new Uint8Array(columns * rows)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) cells[Math.floor(y / REGION_CELL_SIZE) * columns + Math.floor(x / REGION_CELL_SIZE)] = 1
+    }
+  }
+
+  let regions: VisualDiffRegion[] = []
+  const seen = new Uint8Array(cells.length)
+  for (let start = 0; start < cells.length; start++) {
+    if (!cells[start] || seen[start]) continue
+    let minColumn = columns, minRow = rows, maxColumn = 0, maxRow = 0
+    const stack = [start]
+    seen[start] = 1
+    while (stack.length > 0) {
+      const cell = stack.pop()!
+      const column = cell % columns
+      const row = Math.floor(cell / columns)
+      minColumn = Math.min(minColumn, column)
+      maxColumn = Math.max(maxColumn, column)
+      minRow = Math.min(minRow, row)
+      maxRow = Math.max(maxRow, row)
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nextColumn = column + dx
+          const nextRow = row + dy
+          if (nextColumn < 0 || nextRow < 0 || nextColumn >= columns || nextRow >= rows) continue
+          const next = nextRow * columns + nextColumn
+          if (cells[next] && !seen[next]) {
+            seen[next] = 1
+            stack.push(next)
+          }
+        }
+      }
+    }
+    const x = minColumn * REGION_CELL_SIZE
+    const y = minRow * REGION_CELL_SIZE
+    regions.push({
+      x,
+      y,
+      width: Math.min((maxColumn + 1) * REGION_CELL_SIZE, width) - x,
+      height: Math.min((maxRow + 1) * REGION_CELL_SIZE, height) - y
+    })
+  }
+
+  // Merging can make a box reach others, so repeat until nothing changes
+  let merged = true
+  while (merged) {
+    merged = false
+    const next: VisualDiffRegion[] = []
+    regions.forEach(region => {
+      const index = next.findIndex(other => overlaps(other, region, REGION_CELL_SIZE))
+      if (index === -1) {
+        next.push(region)
+      } else {
+        next[index] = union(next[index], region)
+        merged = true
+      }
+    })
+    regions = next
+  }
+
+  return regions
+    .sort((a, b) => b.width * b.height - a.width * a.height)
+    .slice(0, MAX_REGIONS)
+}
+
+function renderDiff(after: HTMLImageElement, mask: Uint8Array, width: number, height: number, regions: VisualDiffRegion[]): string {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')!
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, width, height)
+  context.globalAlpha = 0.25
+  context.drawImage(after, 0, 0)
+  context.globalAlpha = 1
+
+  const image = context.getImageData(0, 0, width, height)
+  mask.forEach((changed, index) => {
+    if (!changed) return
+    image.data.set(CHANGED_COLOR, index * 4)
+    image.data[index * 4 + 3] = 255
+  })
+  context.putImageData(image, 0, 0)
+
+  context.strokeStyle = `rgb(${CHANGED_COLOR.join(',')})`
+  context.lineWidth = 2
+  regions.forEach(region => context.strokeRect(region.x, region.y, region.width, region.height))
+  return canvas.toDataURL('image/png')
+}
+
+// Compare two screenshots pixel by pixel
+export async function diffImages(beforeUrl: string, afterUrl: string): Promise<PixelDiff> {
+  const [before, after] = await Promise.all([loadImage(beforeUrl), loadImage(afterUrl)])
+  const { mask, width, height } = changedPixelMask(pixels(before), pixels(after))
+  const changedPixels = mask.reduce((total, changed) => total + changed, 0)
+  const regions = changedRegions(mask, width, height)
+
+  return {
+    width,
+    height,
+    changedPixels,
+    changedPercent: width * height > 0 ? Math.round(changedPixels / (width * height) * 10000) / 100 : 0,
+    regions,
+    diffDataUrl: renderDiff(after, mask, width, height, regions)
+  }
+}
+
+// The project's record of a component screenshot, with the image stored apart from the project
+export function componentScreenshot(projectId: string, componentId: string, screenshot: PreviewScreenshot): Promise<ProjectScreenshot> {
+  return withStoredImage(projectId, {
+    id: `screenshot-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    componentId,
+    timestamp: new Date().toISOString(),
+    dataUrl: screenshot.dataUrl,
+    captureMode: 'component',
+    analysis: {
+      hasContent: screenshot.width > 0 && screenshot.height > 0,
+      quality: screenshot.width >= 1200 ? 'high' : screenshot.width >= 800 ? 'medium' : 'low',
+      dimensions: { width: screenshot.width, height: screenshot.height, aspectRatio: screenshot.width / screenshot.height }
+    }
+  })
+}
+
+// Screenshots of the same thing taken the same way, which later ones replace
+function sameSeries(a: ProjectScreenshot, b: ProjectScreenshot): boolean {
+  return a.componentId === b.componentId &&
+    (a.captureMode || 'component') === (b.captureMode || 'component') &&
+    a.device === b.device
+}
+
+function seriesScreenshots(project: ProjectSchema, screenshot: ProjectScreenshot): ProjectScreenshot[] {
+  return (project.screenshots || [])
+    .filter(candidate => hasImage(candidate) && sameSeries(candidate, screenshot))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+}
+
+// A component's screenshots that can be compared, oldest first: those of the component alone at the
+// default size
+export function comparableScreenshots(project: ProjectSchema, componentId: string): ProjectScreenshot[] {
+  return seriesScreenshots(project, { id: '', componentId, timestamp: '', captureMode: 'component' })
+}
+
+// Add a screenshot, or replace the one with its id, dropping the oldest ones taken the same way
+// beyond the limit. The baseline and the pinned thumbnail are always kept.
+export function withScreenshot(project: ProjectSchema, screenshot: ProjectScreenshot): ProjectSchema {
+  const component = project.components.find(c => c.id === screenshot.componentId)
+  const kept = new Set(
+    [...seriesScreenshots(project, screenshot).filter(candidate => candidate.id !== screenshot.id), screenshot]
+      .slice(-MAX_COMPONENT_SCREENSHOTS)
+      .map(candidate => candidate.id)
+  )
+  return {
+    ...project,
+    screenshots: [
+      ...(project.screenshots || []).filter(existing => existing.id !== screenshot.id && (
+        !hasImage(existing) || !sameSeries(existing, screenshot) ||
+        kept.has(existing.id) || existing.id === component?.visualBaselineId ||
+        existing.id === component?.thumbnail?.screenshotId
+      )),
+      screenshot
+    ]
+  }
+}
+
+// The screenshots a component's latest one is compared with: its baseline, or without one the
+// screenshot before it
+export function comparisonPair(project: ProjectSchema, componentId: string): { before: ProjectScreenshot; after: ProjectScreenshot; against: VisualDiff['against'] } | null {
+  const screenshots = comparableScreenshots(project, componentId)
+  const after = screenshots[screenshots.length - 1]
+  if (!after) return null
+
+  const baselineId = project.components.find(c => c.id === componentId)?.visualBaselineId
+  const baseline = baselineId ? screenshots.find(screenshot => screenshot.id === baselineId) : undefined
+  if (baseline) {
+    return baseline === after ? null : { before: baseline, after, against: 'baseline' }
+  }
+  const previous = screenshots[screenshots.length - 2]
+  return previous ? { before: previous, after, against: 'previous' } : null
+}
+
+// Compare the component's latest screenshot; null when there is nothing to compare it with
+export async function compareComponentScreenshots(project: ProjectSchema, componentId: string): Promise<VisualDiff | null> {
+  const pair = comparisonPair(project, componentId)
+  if (!pair) return null
+  const [before, after] = await Promise.all([
+    screenshotImageUrl(project.id, pair.before),
+    screenshotImageUrl(project.id, pair.after)
+  ])
+  if (!before || !after) throw new Error('A screenshot image is missing')
+  const diff = await diffImages(before, after)
+  return {
+    beforeScreenshotId: pair.before.id,
+    afterScreenshotId: pair.after.id,
+    against: pair.against,
+    changedPercent: diff.changedPercent,
+    regions: diff.regions,
+    status: diff.changedPixels === 0 ? 'approved' : 'pending',
+    createdAt: new Date().toISOString()
+  }
+}
+
+function updateComponent(project: ProjectSchema, componentId: string, changes: Partial<ProjectSchema['components'][number]>): ProjectSchema {
+  return {
+    ...project,
+    components: project.components.map(c => (c.id === componentId ? { ...c, ...changes } : c))
+  }
+}
+
+export function withVisualDiff(project: ProjectSchema, componentId: string, diff: VisualDiff): ProjectSchema {
+  return updateComponent(project, componentId, { visualDiff: diff })
+}
+
+// Accept the change: its screenshot becomes the baseline later ones are compared with
+export function approveVisualDiff(project: ProjectSchema, componentId: string): ProjectSchema {
+  const diff = project.components.find(c => c.id === componentId)?.visualDiff
+  if (!diff) return project
+  return updateComponent(project, componentId, {
+    visualBaselineId: diff.afterScreenshotId,
+    visualDiff: { ...diff, status: 'approved' }
+  })
+}
+
+// Turn the change down; the baseline stays, so the next screenshot is compared with it again
+export function rejectVisualDiff(project: ProjectSchema, componentId: string): ProjectSchema {
+  const diff = project.components.find(c => c.id === componentId)?.visualDiff
+  if (!diff) return project
+  return updateComponent(project, componentId, { visualDiff: { ...diff, status: 'rejected' } })
+}
+
+// Sentence for agent tool summaries, e.g. "4.2% of pixels changed from the baseline in 2 regions:
+// 320×48 at (16, 120), 80×24 at (400, 12)."
+export function describeVisualDiff(diff: VisualDiff): string {
+  const against = diff.against === 'baseline' ? 'the approved baseline' : 'the previous screenshot'
+  if (diff.regions.length === 0) return `No visual change from ${against}.`
+  const regions = diff.regions
+    .map(region => `${region.width}×${region.height} at (${region.x}, ${region.y})`)
+    .join(', ')
+  return `${diff.changedPercent}% of pixels changed from ${against} in ${diff.regions.length} region${diff.regions.length === 1 ? '' : 's'}: ${regions}.`
+}
@@ -10,10 +10,114 @@ export interface ComponentSchema {
   filePath?: string
   generatedCode?: string
   generationMethod?: 'openai' | 'v0'
+  diagnostics?: CodeDiagnostic[] // From the last type check of generatedCode
+  runtimeErrors?: ComponentRuntimeError[] // Reported by the preview since the component last rendered cleanly
+  propPresets?: PropPreset[] // Named prop values saved from the props playground
+  accessibility?: AccessibilityAudit // The last axe-core audit of the rendered component
+  visualBaselineId?: string // Approved screenshot that later screenshots are compared with
+  visualDiff?: VisualDiff // The last comparison of its screenshots
+  thumbnail?: ComponentThumbnail // Pinned screenshot that represents the component in lists
+}
+
+export interface ComponentThumbnail {
+  screenshotId: string
+  dataUrl: string // Scaled-down copy, small enough to keep in project metadata
+}
+
+export interface PropPreset {
+  id: string
+  name: string
+  values: Record<string, any> // Function props are stored as preview function markers
+  createdAt: string
+}
+
+export interface CodeDiagnostic {
+  severity: 'error' | 'warning'
+  code: number // TypeScript diagnostic code, e.g. 2304
+  message: string
+  line: number // 1-based
+  column: number // 1-based
+  start: number // Offset into generatedCode
+  length: number
+}
+
+export interface ComponentRuntimeError {
+  phase: 'module' | 'render' | 'runtime' // Loading the module, rendering it, or later (handlers, timers, promises)
+  message: string
+  stack?: string
+  timestamp: string
+}
+
+export interface AccessibilityAudit {
+  violations: AccessibilityViolation[]
+  auditedAt: string
+}
+
+// One failed axe-core rule and the rendered nodes that fail it
+export interface AccessibilityViolation {
+  rule: string // axe rule id, e.g. 'color-contrast'
+  impact: 'minor' | 'moderate' | 'serious' | 'critical'
+  help: string
+  helpUrl: string
+  nodes: AccessibilityViolationNode[]
+}
+
+export interface AccessibilityViolationNode {
+  selector: string
+  html: string
+  fix: string // What to change so the node passes, from axe's failure summary
+}
+
+// How a component's latest screenshot differs from its baseline, or from the screenshot before it
+export interface VisualDiff {
+  beforeScreenshotId: string
+  afterScreenshotId: string
+  against: 'baseline' | 'previous'
+  changedPercent: number
+  regions: VisualDiffRegion[] // Bounding boxes of the changes, in pixels of the larger screenshot
+  status: 'pending' | 'approved' | 'rejected'
+  createdAt: string
+}
+
+export interface VisualDiffRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// What a screenshot's pixels show; everything past dimensions comes from analyzing the image
+export interface ScreenshotAnalysis {
+  hasContent: boolean
+  quality: 'high' | 'medium' | 'low'
+  dimensions: { width: number; height: number; aspectRatio: number }
+  background?: string // Hex color of the screenshot's edges
+  blank?: boolean // Next to nothing differs from the background
+  contentBox?: { x: number; y: number; width: number; height: number } // Bounds of what differs from the background
+  clippedEdges?: ('top' | 'right' | 'bottom' | 'left')[] // Edges of the screenshot the content runs into
+  whitespace?: { top: number; right: number; bottom: number; left: number } // Empty share of the height or width on each side
+  dominantColors?: DominantColor[] // Of the content, most used first
+  contrast?: ContrastSample
+}
+
+export interface DominantColor {
+  hex: string
+  share: number // Of the content pixels, 0-1
+  paletteColor?: string // Nearest design system color
+  inPalette?: boolean // Whether it is close enough to paletteColor to be that color
+}
+
+// Contrast between the two colors of cells that look like text
+export interface ContrastSample {
+  samples: number
+  lowContrast: number // Samples under WCAG AA's 4.5:1
+  minRatio: number
+  worst?: { foreground: string; background: string }
 }
 
 export interface PropDefinition {
   type: 'string' | 'number' | 'boolean' | 'object' | 'array' | 'function'
+  itemType?: PropDefinition['type'] // Type of an array prop's items, when known
   required: boolean
   defaultValue?: any
   description?: string
@@ -64,7 +168,19 @@ export interface ComponentInstance {
     label?: string
     locked?: boolean
     visible?: boolean
+    groupId?: string // Instances sharing a group are selected, moved and locked together
   }
+  layout?: InstanceLayout // How the instance sits in a grid or flex scene; freeform scenes use position
+}
+
+// Placement within a grid or flex scene. Grid lines are 1-based; instances without a column and
+// row fill the free cells in order.
+export interface InstanceLayout {
+  column?: number
+  row?: number
+  columnSpan?: number
+  rowSpan?: number
+  order?: number // Position in the flow; instances without one follow in reading order
 }
 
 export interface SceneLayout {
@@ -104,6 +220,7 @@ export interface Scene {
 
 export interface ProjectSchema {
   id: string
+  schemaVersion?: number // Absent on projects saved before versioning; set by ProjectMigrationService
   name: string
   description: string
   framework: 'react'
@@ -118,11 +235,12 @@ export interface ProjectSchema {
     componentId?: string
     timestamp: string
     cdnUrl?: string
-    analysis?: {
-      hasContent: boolean
-      quality: 'high' | 'medium' | 'low'
-      dimensions: { width: number; height: number; aspectRatio: number }
-    }
+    imageId?: string // The full image, stored apart from the project so later screenshots can be compared with it
+    thumbnail?: string // Scaled-down JPEG data URL shown in lists
+    dataUrl?: string // Image not yet in the image store (older projects, bundles); moved there on save
+    captureMode?: 'full' | 'component' | 'viewport' // Unset screenshots are of a component
+    device?: string // Device preset the preview was sized to; unset for the default size
+    analysis?: ScreenshotAnalysis
   }[]
   chatHistory?: {
     id: string
@@ -148,6 +266,7 @@ export interface ProjectMetadata {
   framework: 'react'
   componentCount: number
   assetCount: number
+  thumbnails?: string[] // The first pinned component thumbnails
   createdAt: string
   updatedAt: string
 }
@@ -257,6 +376,7 @@ export interface DesignSystemSpec {
     unit: number // base spacing unit (e.g., 4px, 8px)
     scale: number[] // multipliers [1, 2, 3, 4, 6, 8, 12, 16, 24, 32, 48, 64]
   }
+  breakpoints?: Record<string, number> // min-width in px by name (sm, md, lg, ...); previews fall back to Tailwind's
   components: {
     baseComponents: string[] // Button, Input, Card, etc.
     patterns: string[] // Navigation, Forms, Data Display, etc.